@@ -0,0 +1,393 @@
+/**
+ * Cube Rush 联网对战中继服务器
+ *
+ * 只用 Node 内置模块，无需安装依赖：
+ *
+ *   node server/relay.js
+ *
+ * 环境变量：
+ *   PORT      监听端口，默认 8787
+ *   TLS_CERT  证书文件路径，与 TLS_KEY 一起设置后以 wss 提供服务（HTTPS 页面不能连接 ws://）
+ *   TLS_KEY   私钥文件路径
+ *
+ * 协议（每条消息一个 JSON 文本帧）：
+ *
+ *   客户端 → 服务器
+ *     { type: 'join', room, clientId, name, puzzle }  加入房间；房间不存在时以 puzzle 为项目创建，
+ *                                                     用同一个 clientId 重新 join 即为重连
+ *     { type: 'ready', ready }                        准备 / 取消准备下一轮
+ *     { type: 'startRound', round, scramble }         房主开始第 round 轮（从 1 起），需所有在线玩家已准备
+ *     { type: 'result', round, time, penalty? }       提交（或修改）本人在当前轮的成绩
+ *     { type: 'leave' }                               离开房间
+ *
+ *   服务器 → 客户端
+ *     { type: 'state', room }                         房间完整状态，每次变化后发给房间内所有人
+ *     { type: 'error', message }
+ *
+ * 房间只保存在内存中：断线的玩家保留在房间里（显示离线），房间内所有人离线 10 分钟后删除房间。
+ */
+import { createServer } from 'node:http';
+import { createServer as createTlsServer } from 'node:https';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const PING_INTERVAL_MS = 30_000;
+const ROOM_TTL_MS = 10 * 60_000;
+const ROOM_CODE = /^[A-Z0-9-]{1,20}$/;
+const MAX_NAME_LENGTH = 20;
+
+// ── WebSocket（RFC 6455，只实现文本帧、ping/pong 与关闭） ──
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * 包装升级后的 socket：解析客户端帧，回调 onMessage(text) / onClose()
+ */
+function createConnection(socket, { onMessage, onClose }) {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentBytes = 0;
+  let alive = true;
+  let closed = false;
+
+  const connection = {
+    send(text) {
+      if (!closed) socket.write(encodeFrame(0x1, Buffer.from(text)));
+    },
+    close(code = 1000) {
+      if (closed) return;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code, 0);
+      socket.end(encodeFrame(0x8, payload));
+      finish();
+    },
+    /** 心跳：上次 ping 之后没有收到任何数据则断开 */
+    ping() {
+      if (!alive) {
+        socket.destroy();
+        finish();
+        return;
+      }
+      alive = false;
+      socket.write(encodeFrame(0x9, Buffer.alloc(0)));
+    },
+  };
+
+  function finish() {
+    if (closed) return;
+    closed = true;
+    onClose();
+  }
+
+  function readFrames() {
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // 客户端发来的帧必须加掩码
+      if (!masked || length > MAX_MESSAGE_BYTES) {
+        connection.close(1002);
+        return;
+      }
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case 0x0: // 续帧
+        case 0x1: // 文本
+          // 分片消息的总长度同样受单帧上限限制
+          fragmentBytes += payload.length;
+          if (fragmentBytes > MAX_MESSAGE_BYTES) {
+            connection.close(1009);
+            return;
+          }
+          fragments.push(payload);
+          if (fin) {
+            const text = Buffer.concat(fragments).toString('utf8');
+            fragments = [];
+            fragmentBytes = 0;
+            try {
+              onMessage(text);
+            } catch {
+              // 处理某条消息出错时只断开这个客户端，不影响其他房间
+              connection.close(1011);
+              return;
+            }
+          }
+          break;
+        case 0x8:
+          connection.close();
+          return;
+        case 0x9:
+          socket.write(encodeFrame(0xa, payload));
+          break;
+        default:
+          // pong 与不支持的二进制帧忽略
+          break;
+      }
+    }
+  }
+
+  socket.on('data', (chunk) => {
+    alive = true;
+    buffer = Buffer.concat([buffer, chunk]);
+    readFrames();
+  });
+  // HTTP 服务器的 socket 允许半关闭，对方断开时需要自己结束
+  socket.on('end', () => {
+    socket.end();
+    finish();
+  });
+  socket.on('close', finish);
+  socket.on('error', finish);
+  return connection;
+}
+
+// ── 房间 ──
+
+/** code → { code, puzzle, hostId, players, rounds, emptySince } */
+const rooms = new Map();
+/** connection → { room, clientId } */
+const members = new Map();
+
+function publicRoom(room) {
+  const { code, puzzle, hostId, players, rounds } = room;
+  return { code, puzzle, hostId, players, rounds };
+}
+
+function broadcast(room) {
+  const text = JSON.stringify({ type: 'state', room: publicRoom(room) });
+  for (const [connection, member] of members) {
+    if (member.room === room) connection.send(text);
+  }
+}
+
+// 房主离线时交给第一个在线的玩家
+function ensureHost(room) {
+  const host = room.players.find((p) => p.id === room.hostId);
+  if (host?.connected) return;
+  const next = room.players.find((p) => p.connected);
+  if (next) room.hostId = next.id;
+}
+
+function currentRound(room) {
+  return room.rounds[room.rounds.length - 1] ?? null;
+}
+
+// 当前轮所有在线玩家都已提交成绩（或还没开始过）
+function roundFinished(room) {
+  const round = currentRound(room);
+  return !round || room.players.every((p) => !p.connected || round.results[p.id]);
+}
+
+function sendError(connection, message) {
+  connection.send(JSON.stringify({ type: 'error', message }));
+}
+
+function handleJoin(connection, message) {
+  const code = String(message.room ?? '').trim().toUpperCase();
+  const clientId = String(message.clientId ?? '');
+  const name = String(message.name ?? '').trim().slice(0, MAX_NAME_LENGTH) || '匿名';
+  if (!ROOM_CODE.test(code)) return sendError(connection, '房间号只能包含字母、数字和 -，最多 20 个字符');
+  if (!clientId) return sendError(connection, '缺少 clientId');
+
+  // 同一连接换房间时先离开原房间
+  const previous = members.get(connection);
+  if (previous && previous.room.code !== code) leaveRoom(connection);
+
+  let room = rooms.get(code);
+  if (!room) {
+    room = { code, puzzle: String(message.puzzle ?? '333'), hostId: clientId, players: [], rounds: [], emptySince: null };
+    rooms.set(code, room);
+  }
+
+  // 同一个玩家在别处的旧连接（如刷新前的页面）直接关闭
+  for (const [other, member] of members) {
+    if (other !== connection && member.room === room && member.clientId === clientId) {
+      members.delete(other);
+      other.close(4000);
+    }
+  }
+
+  const player = room.players.find((p) => p.id === clientId);
+  if (player) {
+    player.name = name;
+    player.connected = true;
+  } else {
+    room.players.push({ id: clientId, name, connected: true, ready: false });
+  }
+  room.emptySince = null;
+  members.set(connection, { room, clientId });
+  ensureHost(room);
+  broadcast(room);
+}
+
+function leaveRoom(connection) {
+  const member = members.get(connection);
+  if (!member) return;
+  members.delete(connection);
+  const { room, clientId } = member;
+  room.players = room.players.filter((p) => p.id !== clientId);
+  ensureHost(room);
+  if (room.players.length === 0) {
+    rooms.delete(room.code);
+    return;
+  }
+  if (!room.players.some((p) => p.connected)) room.emptySince = Date.now();
+  broadcast(room);
+}
+
+function handleDisconnect(connection) {
+  const member = members.get(connection);
+  if (!member) return;
+  members.delete(connection);
+  const { room, clientId } = member;
+  const player = room.players.find((p) => p.id === clientId);
+  if (player) {
+    player.connected = false;
+    player.ready = false;
+  }
+  ensureHost(room);
+  if (!room.players.some((p) => p.connected)) room.emptySince = Date.now();
+  broadcast(room);
+}
+
+function handleMessage(connection, text) {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return sendError(connection, '无法解析的消息');
+  }
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return sendError(connection, '无法解析的消息');
+  }
+  if (message.type === 'join') return handleJoin(connection, message);
+
+  const member = members.get(connection);
+  if (!member) return sendError(connection, '请先加入房间');
+  const { room, clientId } = member;
+  const player = room.players.find((p) => p.id === clientId);
+  if (!player) return sendError(connection, '你已不在房间中');
+
+  switch (message.type) {
+    case 'ready':
+      player.ready = Boolean(message.ready);
+      break;
+    case 'startRound': {
+      if (room.hostId !== clientId) return sendError(connection, '只有房主可以开始新一轮');
+      // 重复的开始请求（如房主连发两次）直接忽略
+      if (message.round !== room.rounds.length + 1) return;
+      if (!roundFinished(room)) return sendError(connection, '上一轮还有人没有完成');
+      if (!room.players.every((p) => !p.connected || p.ready)) return sendError(connection, '还有人没有准备');
+      room.rounds.push({ scramble: String(message.scramble ?? ''), results: {} });
+      for (const p of room.players) p.ready = false;
+      break;
+    }
+    case 'result': {
+      const round = currentRound(room);
+      if (!round || message.round !== room.rounds.length) return sendError(connection, '这一轮已经结束');
+      const time = Number(message.time);
+      if (!Number.isFinite(time) || time < 0) return sendError(connection, '成绩无效');
+      const penalty = message.penalty === '+2' || message.penalty === 'DNF' ? message.penalty : undefined;
+      round.results[clientId] = { name: player.name, time, ...(penalty && { penalty }) };
+      break;
+    }
+    case 'leave':
+      leaveRoom(connection);
+      return;
+    default:
+      return sendError(connection, `未知的消息类型：${message.type}`);
+  }
+  broadcast(room);
+}
+
+// ── HTTP 服务器与升级 ──
+
+function requestListener(_req, res) {
+  res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(`Cube Rush 对战中继 · ${rooms.size} 个房间\n`);
+}
+
+const server =
+  process.env.TLS_CERT && process.env.TLS_KEY
+    ? createTlsServer(
+        { cert: readFileSync(process.env.TLS_CERT), key: readFileSync(process.env.TLS_KEY) },
+        requestListener
+      )
+    : createServer(requestListener);
+
+const connections = new Set();
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  const connection = createConnection(socket, {
+    onMessage: (text) => handleMessage(connection, text),
+    onClose: () => {
+      connections.delete(connection);
+      handleDisconnect(connection);
+    },
+  });
+  connections.add(connection);
+});
+
+// 心跳检测断线，并清理长时间无人在线的房间
+setInterval(() => {
+  for (const connection of connections) connection.ping();
+  const now = Date.now();
+  for (const [code, room] of rooms) {
+    if (room.emptySince !== null && now - room.emptySince > ROOM_TTL_MS) rooms.delete(code);
+  }
+}, PING_INTERVAL_MS);
+
+server.listen(PORT, () => {
+  const scheme = process.env.TLS_CERT ? 'wss' : 'ws';
+  console.log(`Cube Rush 对战中继已启动：${scheme}://localhost:${PORT}`);
+});
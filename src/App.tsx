@@ -1,65 +1,274 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { useTimer } from './hooks/useTimer';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useTimer, inspectionPenalty, INSPECTION_MS } from './hooks/useTimer';
 import { useSensor } from './hooks/useSensor';
-import { generateScramble } from './utils/scrambleGenerator';
-import { formatTime, calcAoN } from './utils/timeFormat';
+import { useStackmat, type StackmatConnection } from './hooks/useStackmat';
+import { useScramble } from './hooks/useScramble';
+import { useTrainer } from './hooks/useTrainer';
+import { useCompSim } from './hooks/useCompSim';
+import { useRaceRoom } from './hooks/useRaceRoom';
+import { useAudioCues } from './hooks/useAudioCues';
+import { useSolveStore } from './hooks/useSolveStore';
+import { useSolveStats } from './hooks/useSolveStats';
+import type { ScrambleMode } from './utils/scrambleGenerator';
+import { PUZZLES, DEFAULT_PUZZLE, getPuzzle, isPuzzleType, type PuzzleType } from './utils/puzzles';
+import { formatTime, formatResult, formatStat, nextPenalty, resultTime, PENALTY_OPTIONS, DNF } from './utils/timeFormat';
+import { formatRate, getStatDef, successRate, type StatKey } from './utils/stats';
+import {
+  DEFAULT_DETECTOR_CONFIG,
+  type DetectorConfig,
+  type ImpactEvent,
+  type ImpactKind,
+  type MotionSample,
+} from './utils/impactDetector';
+import { createTrace, MAX_TRACE_SAMPLES, type MotionTrace } from './utils/motionTrace';
+import type { StackmatPacket } from './utils/stackmat';
+import {
+  SENSITIVITY_MAX,
+  SENSITIVITY_MIN,
+  clearSensorProfile,
+  loadSensorProfile,
+  saveSensorProfile,
+  sensitivityToThreshold,
+  thresholdToSensitivity,
+  type SensorProfile,
+} from './utils/sensorCalibration';
+import ScramblePreview from './components/ScramblePreview';
+import SessionManager from './components/SessionManager';
+import SettingsModal from './components/SettingsModal';
+import StatsModal, { type StatSelection } from './components/StatsModal';
+import DataTransferModal from './components/DataTransferModal';
+import ChartsModal from './components/ChartsModal';
+import SolveDetail from './components/SolveDetail';
+import SensorCalibration from './components/SensorCalibration';
+import MotionTraceModal from './components/MotionTraceModal';
+import TimeEntry from './components/TimeEntry';
+import TrainerModal from './components/TrainerModal';
+import CaseDiagram from './components/CaseDiagram';
+import CompSimModal from './components/CompSimModal';
+import DuelMode from './components/DuelMode';
+import RaceRoomModal from './components/RaceRoomModal';
+import ScrambleSetModal from './components/ScrambleSetModal';
+import ScrambleSheetModal from './components/ScrambleSheetModal';
+import { caseLabel, getCase, type CaseSetId } from './utils/llCases';
+import { BLD_STEPS, splitsFromMarks } from './utils/splits';
+import { attemptResult, describeRound, getRoundFormat } from './utils/compSim';
+import { currentRound, roundFinished } from './utils/raceProtocol';
+import { readShareParams } from './utils/scrambleSet';
+import { inspectionCall } from './utils/audioCues';
+import type { InputMode, Penalty, SolveRecord, SolveSplit } from './types';
 import './index.css';
 
-interface SolveRecord {
-  id: number;
-  time: number;
-  scramble: string;
-  date: number;
-  dnf?: boolean;
-}
-
-type InputMode = 'stackmat' | 'sensor';
-
-const STORAGE_KEY = 'cube-rush-records';
 const MODE_KEY = 'cube-rush-mode';
 const HELP_SEEN_KEY = 'cube-rush-help-seen';
 const SENSITIVITY_KEY = 'cube-rush-sensitivity';
+const SCRAMBLE_MODE_KEY = 'cube-rush-scramble-mode';
+const PUZZLE_KEY = 'cube-rush-puzzle';
+const INSPECTION_KEY = 'cube-rush-inspection';
+const TARGET_KEY = 'cube-rush-target';
+const STEPS_KEY = 'cube-rush-split-steps';
+
+const IMPACT_LABELS: Record<ImpactKind, string> = {
+  tap: '轻拍',
+  lift: '拿起/放下',
+  slide: '滑动',
+};
+
+const STACKMAT_CONNECTION_LABELS: Record<StackmatConnection, string> = {
+  requesting: '正在打开麦克风…',
+  denied: '无法使用麦克风',
+  waiting: '未检测到计时器信号',
+  connected: '计时器已连接',
+};
 
-/** 灵敏度(1-190) → 冲击阈值：灵敏度越高阈值越低 */
-function sensitivityToThreshold(sensitivity: number): number {
-  // 200 级精度，上限 95%（最大190）
-  // sensitivity 1   → threshold 4.0 (很不灵敏)
-  // sensitivity 95  → threshold ~1.2 (默认)
-  // sensitivity 190 → threshold 0.25 (很灵敏但不会过于灵敏)
-  return 4.0 - (sensitivity - 1) * (3.75 / 189);
+function loadMode(): InputMode {
+  return (localStorage.getItem(MODE_KEY) as InputMode) || 'stackmat';
 }
 
-function loadRecords(): SolveRecord[] {
+function loadStepNames(): string[] {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    return raw ? JSON.parse(raw) : [];
+    const saved = JSON.parse(localStorage.getItem(STEPS_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter((s) => typeof s === 'string') : [];
   } catch {
     return [];
   }
 }
 
-function saveRecords(records: SolveRecord[]) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+function loadPuzzle(): PuzzleType {
+  // 打乱组分享链接指定了项目
+  const shared = readShareParams()?.puzzle;
+  if (shared) {
+    localStorage.setItem(PUZZLE_KEY, shared);
+    return shared;
+  }
+  const saved = localStorage.getItem(PUZZLE_KEY);
+  return isPuzzleType(saved) ? saved : DEFAULT_PUZZLE;
 }
 
-function loadMode(): InputMode {
-  return (localStorage.getItem(MODE_KEY) as InputMode) || 'stackmat';
+function loadTargetTime(): number | null {
+  const saved = parseInt(localStorage.getItem(TARGET_KEY) ?? '', 10);
+  return saved > 0 ? saved : null;
+}
+
+function loadScrambleMode(): ScrambleMode {
+  return (localStorage.getItem(SCRAMBLE_MODE_KEY) as ScrambleMode) || 'random-state';
 }
 
 export default function App() {
-  const [records, setRecords] = useState<SolveRecord[]>(loadRecords);
-  const [scramble, setScramble] = useState(generateScramble);
+  const {
+    records,
+    loading: recordsLoading,
+    storageError,
+    dismissStorageError,
+    sessions,
+    activeSessionId,
+    addRecord,
+    updateRecord,
+    deleteRecord,
+    clearRecords: clearStoredRecords,
+    importRecords,
+    createSession,
+    renameSession,
+    switchSession,
+    mergeSessions,
+    deleteSession,
+  } = useSolveStore();
+  const [showSessions, setShowSessions] = useState(false);
+  const [puzzle, setPuzzle] = useState<PuzzleType>(loadPuzzle);
+  const [scrambleMode, setScrambleMode] = useState<ScrambleMode>(loadScrambleMode);
+  const {
+    scramble,
+    loading: scrambleLoading,
+    next: nextScramble,
+    scrambleSet,
+    position: scramblePosition,
+    startSet: startScrambleSet,
+    endSet: endScrambleSet,
+  } = useScramble(puzzle, scrambleMode);
+  const [showScrambleSet, setShowScrambleSet] = useState(false);
+  const [showScrambleSheet, setShowScrambleSheet] = useState(false);
+  const {
+    settings: audioSettings,
+    setSettings: setAudioSettings,
+    callInspection,
+    beep,
+    announceTime,
+    announceRecord,
+  } = useAudioCues();
+  // 刚记录了一次日常成绩，统计更新后检查是否刷新纪录
+  const recordCheckRef = useRef(false);
+  const {
+    config: trainerConfig,
+    enabled: trainerEnabled,
+    scramble: trainerScramble,
+    loading: trainerLoading,
+    error: trainerError,
+    last: trainerLast,
+    start: startTrainer,
+    stop: stopTrainer,
+    next: nextTrainerCase,
+    record: recordTrainerSolve,
+    undoLast: undoTrainerSolve,
+    setSelected: setTrainerSelected,
+    toggleLearned: toggleTrainerLearned,
+  } = useTrainer();
+  const [showTrainer, setShowTrainer] = useState(false);
+  const {
+    settings: compSettings,
+    setSettings: setCompSettings,
+    rounds: compRounds,
+    active: compRound,
+    status: compStatus,
+    storageError: compStorageError,
+    dismissStorageError: dismissCompStorageError,
+    start: startCompRound,
+    record: recordCompAttempt,
+    setLastPenalty: setCompPenalty,
+    removeLast: removeCompAttempt,
+    finish: finishCompRound,
+    abandon: abandonCompRound,
+    deleteRound: deleteCompRound,
+  } = useCompSim();
+  // 模拟比赛弹窗：null 关闭；resultId 为要展示成绩卡的轮次
+  const [compView, setCompView] = useState<{ resultId: number | null } | null>(null);
+  // 比赛中不能切换项目，成绩记到本轮而不进入会话
+  const competing = compRound !== null;
+  // 双人对战全屏覆盖，使用自己的两个计时器
+  const [showDuel, setShowDuel] = useState(false);
+  const {
+    settings: raceSettings,
+    connection: raceConnection,
+    room: raceRoom,
+    error: raceError,
+    clientId: raceClientId,
+    activeScramble: raceScramble,
+    join: joinRace,
+    leave: leaveRace,
+    setReady: setRaceReady,
+    submitResult: submitRaceResult,
+  } = useRaceRoom(puzzle);
+  const [showRace, setShowRace] = useState(false);
+  // 本机最近一次提交的联网对战成绩；key 为“房间#轮次”，服务器确认前也不会重复计时同一轮
+  const [raceSolve, setRaceSolve] = useState<{ key: string; time: number; penalty?: Penalty } | null>(null);
+  const raceRoundKey = raceRoom ? `${raceRoom.code}#${raceRoom.rounds.length}` : null;
+  // 联网对战：本轮还没完成时用房间的打乱计时，成绩提交到房间而不进入会话；模拟比赛优先
+  const racing = !competing && raceScramble !== null && raceSolve?.key !== raceRoundKey;
+  // 最近一次成绩是否提交到了联网对战（停止界面据此显示对战成绩的判罚）
+  const [lastSolveRaced, setLastSolveRaced] = useState(false);
+  // 公式训练只用于 3x3：打乱由训练提供，成绩记到情况上而不进入会话；比赛中暂停训练
+  const training = trainerEnabled && puzzle === '333' && !competing && !racing;
+  const currentScramble = racing ? raceScramble : training ? trainerScramble : scramble;
+  const currentScrambleLoading = racing ? false : training ? trainerLoading : scrambleLoading;
   const [mode, setMode] = useState<InputMode>(loadMode);
   const [showPermissionBanner, setShowPermissionBanner] = useState(false);
   const [showHelp, setShowHelp] = useState(!localStorage.getItem(HELP_SEEN_KEY));
   const [sensitivity, setSensitivity] = useState(() => {
     const saved = localStorage.getItem(SENSITIVITY_KEY);
-    return saved ? Math.min(parseInt(saved, 10), 190) : 95;
+    return saved ? Math.min(parseInt(saved, 10), SENSITIVITY_MAX) : 95;
   });
-  const { time, phase, start, stop, reset, setReady, setPhase } = useTimer();
+  const [sensorProfile, setSensorProfile] = useState<SensorProfile | null>(loadSensorProfile);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showTrace, setShowTrace] = useState(false);
+  // 正在录制的传感器轨迹：录制开始时间，采样存放在 traceSamplesRef
+  const [traceStartedAt, setTraceStartedAt] = useState<number | null>(null);
+  const [recordedTrace, setRecordedTrace] = useState<MotionTrace | null>(null);
+  const traceSamplesRef = useRef<MotionSample[] | null>(null);
+  const [inspectionEnabled, setInspectionEnabled] = useState(
+    () => localStorage.getItem(INSPECTION_KEY) === '1'
+  );
+  // 分段计时的段名，少于两段即不分段
+  const [stepNames, setStepNames] = useState<string[]>(loadStepNames);
+  // 盲拧固定分记忆与执行两段，不受分段设置影响
+  const blindfolded = getPuzzle(puzzle).blindfolded ?? false;
+  const activeSteps = blindfolded ? BLD_STEPS : stepNames;
+  const [showSettings, setShowSettings] = useState(false);
+  const [showDataTransfer, setShowDataTransfer] = useState(false);
+  const [showCharts, setShowCharts] = useState(false);
+  const [detailId, setDetailId] = useState<number | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  // 统计弹窗：null 关闭；selection 为 null 时显示全部统计
+  const [statsView, setStatsView] = useState<{ selection: StatSelection | null } | null>(null);
+  const [targetTime, setTargetTime] = useState<number | null>(loadTargetTime);
+  const {
+    time,
+    phase,
+    inspectionTime,
+    penalty,
+    splits,
+    start,
+    split,
+    stop,
+    reset,
+    setReady,
+    setPhase,
+    startInspection,
+    inspectionActive,
+  } = useTimer();
   const readyTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   // 传感器模式：是否处于"就绪等待"状态（已停止，需要手动进入下一轮）
   const sensorLockedRef = useRef(false);
+  // Stackmat 计时器模式：上一个数据包的状态与倒推出的开始时刻
+  const hardwareStatusRef = useRef<StackmatPacket['status'] | null>(null);
+  const hardwareStartRef = useRef(0);
 
   // ── 关闭帮助 ──
   const dismissHelp = () => {
@@ -69,29 +278,73 @@ export default function App() {
 
   // ── 通用：记录成绩 ──
   const recordSolve = useCallback(
-    (solveTime: number) => {
-      const record: SolveRecord = {
-        id: Date.now(),
+    (solveTime: number, solvePenalty: Penalty | undefined = penalty, solveSplits?: SolveSplit[]) => {
+      setLastSolveRaced(racing);
+      announceTime(solveTime, solvePenalty);
+      if (competing) {
+        recordCompAttempt({ time: solveTime, scramble, ...(solvePenalty && { penalty: solvePenalty }) });
+        return;
+      }
+      if (racing && raceRoundKey) {
+        submitRaceResult(solveTime, solvePenalty);
+        setRaceSolve({ key: raceRoundKey, time: solveTime, ...(solvePenalty && { penalty: solvePenalty }) });
+        return;
+      }
+      if (training) {
+        recordTrainerSolve(solveTime, solvePenalty);
+        return;
+      }
+      recordCheckRef.current = true;
+      addRecord({
         time: solveTime,
         scramble,
         date: Date.now(),
-      };
-      setRecords((prev) => {
-        const next = [record, ...prev];
-        saveRecords(next);
-        return next;
+        puzzle,
+        inputMode: mode,
+        ...(solvePenalty && { penalty: solvePenalty }),
+        ...(solveSplits && { splits: solveSplits }),
+        ...(scramblePosition && { scrambleSet: scramblePosition }),
       });
     },
-    [scramble]
+    [
+      competing,
+      racing,
+      raceRoundKey,
+      training,
+      scramble,
+      scramblePosition,
+      puzzle,
+      mode,
+      penalty,
+      announceTime,
+      addRecord,
+      recordCompAttempt,
+      submitRaceResult,
+      recordTrainerSolve,
+    ]
   );
 
+  // ── 换下一条打乱（训练中换下一个情况）──
+  const advanceScramble = useCallback(() => {
+    if (training) nextTrainerCase();
+    else nextScramble();
+  }, [training, nextTrainerCase, nextScramble]);
+
+  // ── 模拟比赛本轮已结束：保存并显示成绩卡 ──
+  const showCompResult = useCallback(() => {
+    const round = finishCompRound();
+    if (round) setCompView({ resultId: round.id });
+  }, [finishCompRound]);
+
   // ── 进入下一轮 ──
   const nextRound = useCallback(() => {
-    setScramble(generateScramble());
+    if (competing && compStatus !== 'running') showCompResult();
+    // 联网对战的打乱由房间下发，不消耗自己的打乱
+    if (!lastSolveRaced) advanceScramble();
     setPhase('idle');
     reset();
     sensorLockedRef.current = false;
-  }, [setPhase, reset]);
+  }, [competing, compStatus, showCompResult, lastSolveRaced, advanceScramble, setPhase, reset]);
 
   // ── 取消/DNF 当前计时 ──
   const cancelSolve = useCallback(() => {
@@ -101,25 +354,147 @@ export default function App() {
     sensorLockedRef.current = false;
   }, [stop, reset, setPhase]);
 
+  // ── 计时中拍停：分段计时时前几次只记录一段，最后一段才停止；返回是否已停止 ──
+  const tapRunning = useCallback(
+    (at?: number): boolean => {
+      if (splits.length + 1 < activeSteps.length) {
+        split(at);
+        return false;
+      }
+      const finalTime = stop(at);
+      // 计时中改了分段设置时段数对不上，不保存分段
+      const solveSplits =
+        activeSteps.length >= 2 && splits.length + 1 === activeSteps.length
+          ? splitsFromMarks(activeSteps, [...splits, finalTime])
+          : undefined;
+      recordSolve(finalTime, penalty, solveSplits);
+      return true;
+    },
+    [splits, activeSteps, split, stop, penalty, recordSolve]
+  );
+
+  // ── 模拟比赛限时：计时达到限时自动停止并记 DNF ──
+  const timeLimit = compRound?.settings.timeLimit ?? null;
+  const timeLimitReachedRef = useRef(() => {});
+  useEffect(() => {
+    timeLimitReachedRef.current = () => {
+      recordSolve(stop(), 'DNF');
+      sensorLockedRef.current = true;
+    };
+  });
+  useEffect(() => {
+    if (phase !== 'running' || timeLimit === null) return;
+    // 从界面进入计时算起，只会比实际开始时刻晚，不会提前判 DNF
+    // 观察超时 +2 时，计时到限时减 2 秒就已达到限时
+    const id = setTimeout(() => timeLimitReachedRef.current(), timeLimit - (penalty === '+2' ? 2000 : 0));
+    return () => clearTimeout(id);
+  }, [phase, timeLimit, penalty]);
+
+  // ── 传感器检测参数：灵敏度滑块决定阈值，校准结果决定冷却时间 ──
+  const detectorConfig = useMemo<DetectorConfig>(
+    () => ({
+      threshold: sensitivityToThreshold(sensitivity),
+      cooldownMs: sensorProfile?.cooldownMs ?? DEFAULT_DETECTOR_CONFIG.cooldownMs,
+    }),
+    [sensitivity, sensorProfile]
+  );
+
+  // ── 传感器轨迹录制 ──
+  const recordTraceSample = useCallback((sample: MotionSample) => {
+    const samples = traceSamplesRef.current;
+    if (samples && samples.length < MAX_TRACE_SAMPLES) samples.push(sample);
+  }, []);
+
   // ── 传感器模式：冲击检测回调 ──
-  const handleImpact = useCallback(() => {
+  const handleImpact = useCallback((event: ImpactEvent) => {
     if (mode !== 'sensor') return;
+    // 只有轻拍触发计时，拿起、滑动手机或桌面晃动不算
+    if (event.kind !== 'tap') return;
     // 已停止并锁定，不响应冲击，必须手动下一轮
     if (sensorLockedRef.current) return;
 
+    // 轻拍要等冲击结束才能确认，计时以冲击开始的时刻为准
     if (phase === 'idle') {
-      start();
+      // 开启观察时，第一次冲击开始观察，第二次才开始计时
+      if (inspectionEnabled) startInspection();
+      else start(event.time);
+    } else if (phase === 'inspecting') {
+      start(event.time);
     } else if (phase === 'running') {
-      const finalTime = stop();
-      recordSolve(finalTime);
-      sensorLockedRef.current = true; // 锁定，防止自动进入下一轮
+      // 最后一段停止后锁定，防止自动进入下一轮
+      if (tapRunning(event.time)) sensorLockedRef.current = true;
+    } else {
+      return;
     }
-  }, [mode, phase, start, stop, recordSolve]);
+    beep('trigger');
+  }, [mode, phase, inspectionEnabled, start, startInspection, tapRunning, beep]);
 
-  const { sensorAvailable, permissionGranted, requestPermission, lastImpactStrength } =
-    useSensor(handleImpact, mode === 'sensor', {
-      impactThreshold: sensitivityToThreshold(sensitivity),
-    });
+  const { sensorAvailable, permissionGranted, requestPermission, lastImpact } =
+    // 校准期间向导自己读取传感器，不触发计时
+    useSensor(handleImpact, mode === 'sensor' && !showCalibration && !showDuel, detectorConfig, recordTraceSample);
+
+  // ── 声音提示：传感器模式回到空闲、可以轻拍开始时提示 ──
+  const sensorArmedRef = useRef(false);
+  useEffect(() => {
+    const armed = mode === 'sensor' && phase === 'idle' && permissionGranted !== false;
+    if (armed && !sensorArmedRef.current) beep('arm');
+    sensorArmedRef.current = armed;
+  }, [mode, phase, permissionGranted, beep]);
+
+  // ── 声音提示：观察到 8 秒、12 秒时报时 ──
+  const inspectionCalledRef = useRef(0);
+  useEffect(() => {
+    if (phase !== 'inspecting') {
+      inspectionCalledRef.current = 0;
+      return;
+    }
+    const call = inspectionCall(inspectionCalledRef.current, inspectionTime);
+    inspectionCalledRef.current = inspectionTime;
+    if (call !== null) callInspection(call);
+  }, [phase, inspectionTime, callInspection]);
+
+  // ── Stackmat 计时器模式：跟随计时器状态开始、停止，成绩以计时器显示为准 ──
+  const handlePacket = useCallback((packet: StackmatPacket) => {
+    const previous = hardwareStatusRef.current;
+    hardwareStatusRef.current = packet.status;
+    if (mode !== 'hardware' || showDuel) return;
+
+    switch (packet.status) {
+      case 'ready':
+        if (phase === 'idle' || phase === 'inspecting') setReady();
+        break;
+      case 'running':
+        // 只在计时器刚开始时跟随，取消本次后不会被后续数据包重新开始；
+        // 计时器已走过 packet.time，倒推开始时刻（取整，停止时得到的成绩与计时器完全一致）
+        if (previous !== 'running' && phase !== 'running' && phase !== 'stopped') {
+          hardwareStartRef.current = Math.round(performance.now()) - packet.time;
+          start(hardwareStartRef.current);
+        }
+        break;
+      case 'stopped':
+        if (phase === 'running') {
+          stop(hardwareStartRef.current + packet.time);
+          recordSolve(packet.time);
+        }
+        break;
+      case 'idle':
+        // 计时器清零 → 自动进入下一轮
+        if (phase === 'stopped') nextRound();
+        else if (phase === 'ready') setPhase(inspectionActive ? 'inspecting' : 'idle');
+        break;
+      default:
+        // 尚未就绪就松开了手
+        if (phase === 'ready') setPhase(inspectionActive ? 'inspecting' : 'idle');
+    }
+  }, [mode, phase, inspectionActive, showDuel, start, stop, recordSolve, nextRound, setReady, setPhase]);
+
+  const {
+    connection: stackmatConnection,
+    lastPacket: stackmatPacket,
+    error: stackmatError,
+    playingFile: stackmatPlayingFile,
+    playFile: playStackmatFile,
+  } = useStackmat(handlePacket, mode === 'hardware');
 
   // ── 灵敏度变更 ──
   const handleSensitivityChange = (value: number) => {
@@ -127,6 +502,21 @@ export default function App() {
     localStorage.setItem(SENSITIVITY_KEY, String(value));
   };
 
+  // ── 传感器校准：阈值换算成灵敏度，滑块仍可手动微调 ──
+  const calibratedSensitivity = sensorProfile ? thresholdToSensitivity(sensorProfile.threshold) : null;
+
+  const handleCalibrationSave = (profile: SensorProfile) => {
+    saveSensorProfile(profile);
+    setSensorProfile(profile);
+    handleSensitivityChange(thresholdToSensitivity(profile.threshold));
+    setShowCalibration(false);
+  };
+
+  const handleCalibrationClear = () => {
+    clearSensorProfile();
+    setSensorProfile(null);
+  };
+
   // ── 传感器权限检测：仅在确认需要权限时显示横幅 ──
   useEffect(() => {
     if (mode === 'sensor' && permissionGranted === false && sensorAvailable) {
@@ -143,21 +533,23 @@ export default function App() {
       e.preventDefault();
 
       if (phase === 'running') {
-        // 计时中 → 拍停
-        const finalTime = stop();
-        recordSolve(finalTime);
+        // 计时中 → 拍停（分段计时时记录一段）
+        tapRunning();
         return;
       }
 
       // 已停止 → 忽略，需要点"下一轮"
       if (phase === 'stopped') return;
 
-      // idle → 按住准备
+      // 开启观察时，idle 下轻点一下（松手时）开始观察
+      if (phase === 'idle' && inspectionEnabled) return;
+
+      // idle / 观察中 → 按住准备
       readyTimerRef.current = setTimeout(() => {
         setReady();
       }, 400);
     },
-    [mode, phase, stop, recordSolve, setReady]
+    [mode, phase, inspectionEnabled, tapRunning, setReady]
   );
 
   const handleTouchEnd = useCallback(
@@ -172,40 +564,70 @@ export default function App() {
 
       if (phase === 'ready') {
         start();
+      } else if (phase === 'idle' && inspectionEnabled) {
+        startInspection();
       }
     },
-    [mode, phase, start]
+    [mode, phase, inspectionEnabled, start, startInspection]
   );
 
+  // ── 手动输入：保存成绩并换下一条打乱（对战成绩用的是房间的打乱，自己的打乱留到下一次）──
+  const submitTypedTime = (typedTime: number, typedPenalty: Penalty | undefined) => {
+    recordSolve(typedTime, typedPenalty);
+    if (!racing) advanceScramble();
+  };
+
   // ── 键盘空格 (桌面调试) ──
+  const modalOpen =
+    showHelp ||
+    showSessions ||
+    showSettings ||
+    showDataTransfer ||
+    showCharts ||
+    showCalibration ||
+    showTrace ||
+    showTrainer ||
+    compView !== null ||
+    showDuel ||
+    showRace ||
+    showScrambleSet ||
+    showScrambleSheet ||
+    statsView !== null ||
+    detailId !== null;
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.code !== 'Space' || e.repeat) return;
-      if (showHelp) return; // 帮助弹窗打开时忽略
+      // 弹窗打开时忽略（帮助、会话、设置、导入导出、统计、图表、成绩详情、校准、轨迹）；输入模式下空格留给输入框
+      if (modalOpen || mode === 'typing') return;
       e.preventDefault();
 
       if (mode === 'stackmat') {
         if (phase === 'running') {
-          const finalTime = stop();
-          recordSolve(finalTime);
+          tapRunning();
         } else if (phase === 'stopped') {
           // 停止后空格不做任何事
-        } else if (phase === 'idle') {
+        } else if (phase === 'inspecting' || (phase === 'idle' && !inspectionEnabled)) {
           readyTimerRef.current = setTimeout(() => setReady(), 400);
         }
-      } else {
-        handleImpact();
+      } else if (mode === 'sensor') {
+        // 空格模拟一次轻拍
+        handleImpact({ kind: 'tap', time: performance.now(), peak: 0, duration: 0 });
+      } else if (phase === 'idle' && inspectionEnabled) {
+        // 计时器模式：空格开始观察，开始、停止都由计时器决定
+        startInspection();
       }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.code !== 'Space') return;
+      if (e.code !== 'Space' || modalOpen || mode === 'typing') return;
       e.preventDefault();
       if (readyTimerRef.current) {
         clearTimeout(readyTimerRef.current);
         readyTimerRef.current = null;
       }
+      if (mode !== 'stackmat') return;
       if (phase === 'ready') start();
+      else if (phase === 'idle' && inspectionEnabled) startInspection();
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -214,7 +636,7 @@ export default function App() {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [mode, phase, start, stop, recordSolve, setReady, handleImpact, showHelp]);
+  }, [mode, phase, inspectionEnabled, start, startInspection, tapRunning, setReady, handleImpact, modalOpen]);
 
   // ── 权限 ──
   const handleRequestPermission = async () => {
@@ -239,37 +661,200 @@ export default function App() {
     }
   };
 
+  // ── 传感器轨迹：录制时自动切换到传感器模式 ──
+  const startTraceRecording = () => {
+    traceSamplesRef.current = [];
+    setTraceStartedAt(Date.now());
+    setShowTrace(false);
+    if (mode !== 'sensor') switchMode('sensor');
+  };
+
+  const stopTraceRecording = () => {
+    setRecordedTrace(createTrace(traceSamplesRef.current ?? [], detectorConfig, traceStartedAt ?? Date.now()));
+    traceSamplesRef.current = null;
+    setTraceStartedAt(null);
+    setShowTrace(true);
+  };
+
+  // ── 观察开关 ──
+  const handleInspectionChange = (enabled: boolean) => {
+    setInspectionEnabled(enabled);
+    localStorage.setItem(INSPECTION_KEY, enabled ? '1' : '0');
+    if (phase === 'inspecting') reset();
+  };
+
+  // ── 分段计时设置 ──
+  const handleStepNamesChange = (names: string[]) => {
+    setStepNames(names);
+    localStorage.setItem(STEPS_KEY, JSON.stringify(names));
+  };
+
   // ── 打乱 ──
-  const refreshScramble = () => setScramble(generateScramble());
-
-  // ── 删除 / 清空 ──
-  const deleteRecord = (id: number) => {
-    setRecords((prev) => {
-      const next = prev.filter((r) => r.id !== id);
-      saveRecords(next);
-      return next;
-    });
+  const refreshScramble = () => advanceScramble();
+
+  const switchScrambleMode = (newMode: ScrambleMode) => {
+    if (training) stopTrainer();
+    if (newMode === scrambleMode) return;
+    setScrambleMode(newMode);
+    localStorage.setItem(SCRAMBLE_MODE_KEY, newMode);
+    nextScramble(puzzle, newMode);
   };
+
+  // ── 打乱组：从第 1 条开始，训练中先退出训练 ──
+  const handleStartScrambleSet = (seed: string) => {
+    if (training) stopTrainer();
+    startScrambleSet(seed);
+    setShowScrambleSet(false);
+    setPhase('idle');
+    reset();
+    sensorLockedRef.current = false;
+  };
+
+  // ── 公式训练：开始时回到空闲状态 ──
+  const handleStartTrainer = (caseSet: CaseSetId) => {
+    startTrainer(caseSet);
+    setShowTrainer(false);
+    setPhase('idle');
+    reset();
+    sensorLockedRef.current = false;
+  };
+
+  const handleStopTrainer = () => {
+    stopTrainer();
+    setShowTrainer(false);
+  };
+
+  // ── 模拟比赛：开始时回到空闲状态并换新打乱 ──
+  const handleStartComp = () => {
+    startCompRound(puzzle);
+    setCompView(null);
+    nextScramble();
+    setPhase('idle');
+    reset();
+    sensorLockedRef.current = false;
+  };
+
+  // ── 项目切换 ──
+  const switchPuzzle = (newPuzzle: PuzzleType) => {
+    if (newPuzzle === puzzle) return;
+    setPuzzle(newPuzzle);
+    localStorage.setItem(PUZZLE_KEY, newPuzzle);
+    nextScramble(newPuzzle);
+    setPhase('idle');
+    reset();
+    sensorLockedRef.current = false;
+  };
+
+  // ── 清空（当前会话、当前项目）──
   const clearRecords = () => {
-    setRecords([]);
-    saveRecords([]);
+    clearStoredRecords(puzzle);
     setPhase('idle');
     reset();
     sensorLockedRef.current = false;
   };
 
   // ── 统计 ──
-  const times = records.filter((r) => !r.dnf).map((r) => r.time);
-  const bestTime = times.length > 0 ? Math.min(...times) : null;
-  const ao5 = calcAoN(times, 5);
-  const ao12 = calcAoN(times, 12);
+  const handleTargetTimeChange = (target: number | null) => {
+    setTargetTime(target);
+    if (target === null) localStorage.removeItem(TARGET_KEY);
+    else localStorage.setItem(TARGET_KEY, String(target));
+  };
+
+  const currentAverage = (key: StatKey) => stats.averages.find((a) => a.def.key === key)!.current;
+
+  // 点击统计栏中的某项：查看组成它的成绩
+  const openCurrentAverage = (key: StatKey) => {
+    const { label, size, trim } = getStatDef(key);
+    if (stats.count < size) return;
+    const title = `当前 ${label}：${formatStat(currentAverage(key))}`;
+    setStatsView({ selection: { title, start: stats.count - size, size, trim } });
+  };
+
+  const openBestSingle = () => {
+    if (stats.bestIndex === -1) return;
+    setStatsView({ selection: { title: '最佳单次', start: stats.bestIndex, size: 1, trim: 0 } });
+  };
+
+  // 图表中轻点某次成绩：打开该次成绩详情
+  const openSolve = (index: number) => {
+    setShowCharts(false);
+    setDetailId(puzzleRecords[puzzleRecords.length - 1 - index].id);
+  };
+
+  // ── 判罚 ──
+  const setRecordPenalty = (record: SolveRecord, penalty: Penalty | undefined) => {
+    updateRecord(record.id, { penalty });
+  };
+
+  // ── 会话切换：回到空闲状态 ──
+  const handleSwitchSession = (id: string) => {
+    switchSession(id);
+    setPhase('idle');
+    reset();
+    sensorLockedRef.current = false;
+  };
+
+  // ── 统计（只统计当前会话的当前项目）──
+  const activeSession = sessions.find((s) => s.id === activeSessionId) ?? sessions[0];
+  const puzzleRecords = records.filter((r) => r.sessionId === activeSessionId && r.puzzle === puzzle);
+  const stats = useSolveStats(puzzleRecords);
+  const bestRecordId = stats.bestIndex >= 0 ? puzzleRecords[puzzleRecords.length - 1 - stats.bestIndex].id : null;
+
+  // ── 声音提示：刚计时的成绩刷新最佳单次 / Ao5 时播报（切换会话、项目或导入成绩不播报）──
+  const bestAo5 = stats.averages.find((a) => a.def.key === 'ao5')!.best;
+  const recordBaselineRef = useRef({ scope: '', count: 0, best: null as number | null, ao5: null as number | null });
+  useEffect(() => {
+    const scope = `${activeSessionId}/${puzzle}`;
+    const prev = recordBaselineRef.current;
+    recordBaselineRef.current = { scope, count: stats.count, best: stats.best, ao5: bestAo5 };
+    const solved = recordCheckRef.current && prev.scope === scope && stats.count === prev.count + 1;
+    if (prev.scope !== scope || stats.count !== prev.count) recordCheckRef.current = false;
+    if (!solved) return;
+    // 第一次成绩与第一个 Ao5 不算刷新纪录
+    const improved = (next: number | null, before: number | null) =>
+      next !== null && before !== null && Number.isFinite(next) && next < before;
+    if (improved(stats.best, prev.best)) announceRecord('single', stats.best!);
+    if (improved(bestAo5, prev.ao5)) announceRecord('ao5', bestAo5!);
+  }, [activeSessionId, puzzle, stats.count, stats.best, bestAo5, announceRecord]);
+  // 停止界面上可修改判罚的是刚记录的这一次（训练与比赛成绩不在会话中）
+  const lastRecord = phase === 'stopped' && !training && !competing && !lastSolveRaced ? puzzleRecords[0] : undefined;
+  const lastCompAttempt = phase === 'stopped' && compRound ? compRound.attempts[compRound.attempts.length - 1] : undefined;
+  // 对战成绩只能在本轮内修改判罚
+  const raceMe = raceRoom?.players.find((p) => p.id === raceClientId);
+  const lastRaceSolve =
+    phase === 'stopped' && lastSolveRaced && raceSolve?.key === raceRoundKey ? raceSolve : undefined;
+  // 训练中停止或输入成绩后显示刚练的情况
+  const trainedCase =
+    training && trainerLast && (phase === 'stopped' || mode === 'typing') ? getCase(trainerLast.caseId) : undefined;
+  const detailIndex = puzzleRecords.findIndex((r) => r.id === detailId);
+  // 标签：全部成绩中出现过的（供添加时选择）与当前列表中出现过的（供筛选）
+  const knownTags = [...new Set(records.flatMap((r) => r.tags ?? []))].sort();
+  const puzzleTags = knownTags.filter((tag) => puzzleRecords.some((r) => r.tags?.includes(tag)));
+  const activeTagFilter = tagFilter !== null && puzzleTags.includes(tagFilter) ? tagFilter : null;
+  // 历史列表带上序号（最早一次为 #1）再筛选；计时中每帧都会重新渲染，不能逐行 indexOf
+  const historyRecords = puzzleRecords
+    .map((record, i) => ({ record, number: puzzleRecords.length - i }))
+    .filter(({ record }) => !activeTagFilter || record.tags?.includes(activeTagFilter));
+  const { cubeSize, randomState } = getPuzzle(puzzle);
+  // 联网对战的打乱按房间的项目预览
+  const previewSize = racing && raceRoom ? getPuzzle(raceRoom.puzzle).cubeSize : cubeSize;
+  // 只有靠拍击停止的两种模式能分段
+  const splitting = activeSteps.length >= 2 && (mode === 'stackmat' || mode === 'sensor');
 
   // ── 提示文案 ──
   const getHintText = () => {
+    // 分段计时：还没到最后一段
+    if (splitting && phase === 'running' && splits.length + 1 < activeSteps.length) {
+      const tap = mode === 'sensor' ? '轻拍手机' : '拍一下屏幕';
+      if (blindfolded) return `记忆完成、戴上眼罩后${tap} → 开始执行`;
+      return `${activeSteps[splits.length]} 完成后${tap} → 下一段`;
+    }
     if (mode === 'sensor') {
       switch (phase) {
         case 'idle':
-          return '轻拍手机或拿起魔方 → 开始计时';
+          return inspectionEnabled ? '轻拍手机 → 开始观察' : '轻拍手机 → 开始计时';
+        case 'inspecting':
+          return '观察中 · 轻拍手机 → 开始计时';
         case 'running':
           return '还原后轻拍手机 → 停止计时';
         case 'stopped':
@@ -278,9 +863,30 @@ export default function App() {
           return '';
       }
     }
+    if (mode === 'typing') return '用其他设备计时，输入成绩后回车保存';
+    if (mode === 'hardware') {
+      if (stackmatConnection === 'denied') return stackmatError || STACKMAT_CONNECTION_LABELS.denied;
+      if (stackmatConnection !== 'connected' && phase === 'idle') return '用音频线把 Stackmat 计时器接到麦克风';
+      switch (phase) {
+        case 'idle':
+          return inspectionEnabled ? '轻点屏幕开始观察' : '双手按住计时器，松开开始计时';
+        case 'inspecting':
+          return '观察中 · 双手按住计时器准备';
+        case 'ready':
+          return '松开双手 → 开始计时';
+        case 'running':
+          return '还原后双手拍下计时器停止';
+        case 'stopped':
+          return '计时器清零后自动进入下一轮';
+        default:
+          return '';
+      }
+    }
     switch (phase) {
       case 'idle':
-        return '按住屏幕准备';
+        return inspectionEnabled ? '轻点屏幕开始观察' : '按住屏幕准备';
+      case 'inspecting':
+        return '观察中 · 按住屏幕准备';
       case 'ready':
         return '松开手指 → 开始计时';
       case 'running':
@@ -292,6 +898,44 @@ export default function App() {
     }
   };
 
+  // ── 输入模式：显示上一次保存的成绩（训练中为上一个情况的成绩，比赛中为本轮上一次，对战中为提交到房间的成绩）──
+  const getTypedResultText = () => {
+    if (lastSolveRaced) return raceSolve ? formatStat(resultTime(raceSolve)) : formatTime(0);
+    if (compRound) {
+      const attempt = compRound.attempts[compRound.attempts.length - 1];
+      if (!attempt) return formatTime(0);
+      return formatStat(attemptResult(attempt, compRound.settings));
+    }
+    if (training) {
+      if (!trainerLast) return formatTime(0);
+      return trainerLast.time === null ? 'DNF' : formatTime(trainerLast.time);
+    }
+    return puzzleRecords.length > 0 ? formatResult(puzzleRecords[0]) : formatTime(0);
+  };
+
+  // ── 联网对战横幅：连接状态或本轮进度 ──
+  const getRaceStatusText = () => {
+    if (raceConnection !== 'connected' || !raceRoom) {
+      return raceConnection === 'reconnecting' ? '连接断开，正在重连…' : '正在连接…';
+    }
+    const round = currentRound(raceRoom);
+    const online = raceRoom.players.filter((p) => p.connected);
+    if (round && !roundFinished(raceRoom)) {
+      if (racing) return `第 ${raceRoom.rounds.length} 轮进行中 · 用上方打乱`;
+      const done = online.filter((p) => round.results[p.id]).length;
+      return `等待其他人完成 ${done} / ${online.length}`;
+    }
+    const ready = online.filter((p) => p.ready).length;
+    return `${online.length} 人在线 · 已准备 ${ready} / ${online.length}`;
+  };
+
+  // ── 观察倒计时显示：15 → 1，超时后显示将要记录的判罚 ──
+  const getInspectionText = () => {
+    const remaining = Math.ceil((INSPECTION_MS - inspectionTime) / 1000);
+    if (remaining > 0) return String(remaining);
+    return inspectionPenalty(inspectionTime) === 'DNF' ? 'DNF' : '+2';
+  };
+
   // ── 唤醒锁定 ──
   useEffect(() => {
     let wakeLock: any = null;
@@ -315,6 +959,22 @@ export default function App() {
           <button className="header__help-btn" onClick={() => setShowHelp(true)}>
             ?
           </button>
+          <button className="header__settings-btn" aria-label="设置" onClick={() => setShowSettings(true)}>
+            ⚙
+          </button>
+          <select
+            className="puzzle-select"
+            aria-label="项目"
+            value={puzzle}
+            disabled={competing}
+            onChange={(e) => switchPuzzle(e.target.value as PuzzleType)}
+          >
+            {PUZZLES.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
           <div className="mode-toggle">
             <button
               className={`mode-toggle__btn ${mode === 'stackmat' ? 'mode-toggle__btn--active' : ''}`}
@@ -328,6 +988,18 @@ export default function App() {
             >
               📱 传感器
             </button>
+            <button
+              className={`mode-toggle__btn ${mode === 'hardware' ? 'mode-toggle__btn--active' : ''}`}
+              onClick={() => switchMode('hardware')}
+            >
+              ⏱ 计时器
+            </button>
+            <button
+              className={`mode-toggle__btn ${mode === 'typing' ? 'mode-toggle__btn--active' : ''}`}
+              onClick={() => switchMode('typing')}
+            >
+              ⌨️ 输入
+            </button>
           </div>
         </div>
       </header>
@@ -335,18 +1007,118 @@ export default function App() {
       {/* Scramble */}
       <section className="scramble">
         <div className="scramble__container">
-          <div className="scramble__label">打乱公式</div>
-          <div className="scramble__text">{scramble}</div>
-          <button className="scramble__refresh" onClick={refreshScramble}>
-            🔄 换一个
-          </button>
+          <div className="scramble__label">
+            {racing && raceRoom
+              ? `联网对战 · 第 ${raceRoom.rounds.length} 轮 · ${getPuzzle(raceRoom.puzzle).name}`
+              : training
+                ? `${trainerConfig.caseSet} 训练 · 顶层朝上打乱`
+                : scramblePosition
+                  ? `打乱组 ${scramblePosition.seed} · 第 ${scramblePosition.index} 条`
+                  : '打乱公式'}
+          </div>
+          <div className="scramble__text">
+            {currentScrambleLoading ? (
+              <span className="scramble__loading">{training ? '正在生成训练打乱…' : '正在生成随机状态打乱…'}</span>
+            ) : training && trainerError ? (
+              <span className="scramble__loading">{trainerError}</span>
+            ) : (
+              currentScramble
+            )}
+          </div>
+          {!currentScrambleLoading && currentScramble && previewSize && (
+            <div className="scramble__preview">
+              <ScramblePreview scramble={currentScramble} size={previewSize} cellSize={Math.round(30 / previewSize)} />
+            </div>
+          )}
+          <div className="scramble__footer">
+            {!racing && (
+              <button className="scramble__refresh" onClick={refreshScramble}>
+                🔄 换一个
+              </button>
+            )}
+            {!racing && (
+              <div className="scramble-mode">
+                {/* 打乱组中 3x3 类项目固定为随机状态 */}
+                {randomState && !scrambleSet && (
+                  <>
+                    <button
+                      className={`scramble-mode__btn ${!training && scrambleMode === 'random-state' ? 'scramble-mode__btn--active' : ''}`}
+                      onClick={() => switchScrambleMode('random-state')}
+                    >
+                      随机状态
+                    </button>
+                    <button
+                      className={`scramble-mode__btn ${!training && scrambleMode === 'random-move' ? 'scramble-mode__btn--active' : ''}`}
+                      onClick={() => switchScrambleMode('random-move')}
+                    >
+                      随机步
+                    </button>
+                  </>
+                )}
+                <button
+                  className={`scramble-mode__btn ${!training && scrambleSet ? 'scramble-mode__btn--active' : ''}`}
+                  onClick={() => setShowScrambleSet(true)}
+                >
+                  🔗 打乱组
+                </button>
+                {puzzle === '333' && !competing && (
+                  <button
+                    className={`scramble-mode__btn ${training ? 'scramble-mode__btn--active' : ''}`}
+                    onClick={() => setShowTrainer(true)}
+                  >
+                    🎯 训练
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </section>
 
+      {/* Competition */}
+      {compRound && (
+        <button
+          className="comp-banner"
+          onClick={compStatus === 'running' ? () => setCompView({ resultId: null }) : showCompResult}
+        >
+          <span className="comp-banner__title">🏆 {describeRound(compRound.settings)}</span>
+          <span className="comp-banner__attempts">
+            {compRound.attempts.map((attempt, i) => (
+              <span key={i} className="comp-banner__attempt">
+                {formatStat(attemptResult(attempt, compRound.settings))}
+              </span>
+            ))}
+          </span>
+          <span className="comp-banner__status">
+            {compStatus === 'running'
+              ? `第 ${compRound.attempts.length + 1} / ${getRoundFormat(compRound.settings.format).attempts} 次`
+              : `${compStatus === 'cutoff' ? '未过及格线' : '本轮完成'} · 查看成绩 ›`}
+          </span>
+        </button>
+      )}
+
+      {/* Race */}
+      {raceSettings.room && (
+        <div className="race-banner">
+          <button className="race-banner__info" onClick={() => setShowRace(true)}>
+            <span
+              className={`stackmat-status__dot stackmat-status__dot--${raceConnection === 'connected' ? 'connected' : 'waiting'}`}
+            />
+            <span className="race-banner__title">🌐 房间 {raceSettings.room}</span>
+            <span className="race-banner__status">{getRaceStatusText()} ›</span>
+          </button>
+          {raceMe && raceRoom && roundFinished(raceRoom) && !raceMe.ready && (
+            <button className="race-banner__ready" onClick={() => setRaceReady(true)}>
+              准备下一轮
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Timer Display */}
       <main className="timer-area">
-        {/* Stackmat 触摸区：只在 idle 和 running 时激活 */}
-        {mode === 'stackmat' && (phase === 'idle' || phase === 'ready' || phase === 'running') && (
+        {/* Stackmat 触摸区：停止后不激活，需要点"下一轮" */}
+        {mode === 'stackmat' && phase !== 'stopped' && (
           <div
             className="touch-zone"
             onPointerDown={handleTouchStart}
@@ -354,16 +1126,108 @@ export default function App() {
           />
         )}
 
+        {/* 计时器模式：开启观察时轻点屏幕开始观察 */}
+        {mode === 'hardware' && phase === 'idle' && inspectionEnabled && (
+          <div className="touch-zone" onPointerUp={() => startInspection()} />
+        )}
+
+        {/* 输入模式显示上一次保存的成绩 */}
         <div className={`timer__time timer__time--${phase}`}>
-          {phase === 'ready' ? '准备' : formatTime(time)}
+          {mode === 'typing'
+            ? getTypedResultText()
+            : phase === 'ready' ? '准备' : phase === 'inspecting' ? getInspectionText() : formatTime(time)}
         </div>
 
+        {mode === 'typing' && <TimeEntry disabled={currentScrambleLoading} onSubmit={submitTypedTime} />}
+
+        {trainedCase && (
+          <div className="trainer-case">
+            <CaseDiagram c={trainedCase} size={48} />
+            <div className="trainer-case__text">
+              <span className="trainer-case__name">{caseLabel(trainedCase)}</span>
+              {trainedCase.alg && <span className="trainer-case__alg">{trainedCase.alg}</span>}
+            </div>
+          </div>
+        )}
+
+        {/* 分段计时：计时中显示已完成的各段，停止后显示本次各段 */}
+        {splitting && phase === 'running' && (
+          <div className="split-list">
+            {activeSteps.map((name, i) => (
+              <span
+                key={`${i}-${name}`}
+                className={`split-list__item ${i === splits.length ? 'split-list__item--current' : ''}`}
+              >
+                {name}
+                {i < splits.length && ` ${formatTime(splits[i] - (i > 0 ? splits[i - 1] : 0))}`}
+              </span>
+            ))}
+          </div>
+        )}
+        {lastRecord?.splits && (
+          <div className="split-list">
+            {lastRecord.splits.map((s, i) => (
+              <span key={`${i}-${s.name}`} className="split-list__item">
+                {s.name} {formatTime(s.time)}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {phase === 'stopped' && penalty && (
+          <div className="timer__penalty">{penalty} · 观察超时</div>
+        )}
+
+        {/* 停止后：修改本次判罚 */}
+        {lastCompAttempt && (
+          <div className="penalty-toggle">
+            {PENALTY_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                className={`penalty-toggle__btn ${lastCompAttempt.penalty === option.value ? 'penalty-toggle__btn--active' : ''}`}
+                onClick={() => setCompPenalty(option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+        {lastRaceSolve && (
+          <div className="penalty-toggle">
+            {PENALTY_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                className={`penalty-toggle__btn ${lastRaceSolve.penalty === option.value ? 'penalty-toggle__btn--active' : ''}`}
+                onClick={() => {
+                  submitRaceResult(lastRaceSolve.time, option.value);
+                  setRaceSolve({ ...lastRaceSolve, penalty: option.value });
+                }}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+        {lastRecord && (
+          <div className="penalty-toggle">
+            {PENALTY_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                className={`penalty-toggle__btn ${lastRecord.penalty === option.value ? 'penalty-toggle__btn--active' : ''}`}
+                onClick={() => setRecordPenalty(lastRecord, option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className={`timer__hint ${phase === 'ready' ? 'timer__hint--accent' : ''}`}>
           {getHintText()}
         </div>
 
-        {/* 计时中：取消按钮 */}
-        {phase === 'running' && (
+        {/* 观察/计时中：取消按钮 */}
+        {(phase === 'inspecting' || phase === 'running') && (
           <button className="action-btn action-btn--cancel" onClick={cancelSolve}>
             ✕ 取消本次
           </button>
@@ -373,30 +1237,79 @@ export default function App() {
         {phase === 'stopped' && (
           <div className="stopped-actions">
             <button className="action-btn action-btn--next" onClick={nextRound}>
-              ▶ 下一轮
-            </button>
-            <button
-              className="action-btn action-btn--delete"
-              onClick={() => {
-                // 删除最近一条记录
-                if (records.length > 0) {
-                  deleteRecord(records[0].id);
-                }
-                nextRound();
-              }}
-            >
-              🗑 删除此次
+              {competing && compStatus !== 'running' ? '🏁 查看成绩' : '▶ 下一轮'}
             </button>
+            {!lastSolveRaced && (
+              <button
+                className="action-btn action-btn--delete"
+                onClick={() => {
+                  // 比赛中删除本轮最近一次（补打），不能经过 nextRound 结束本轮
+                  if (competing) {
+                    removeCompAttempt();
+                    advanceScramble();
+                    setPhase('idle');
+                    reset();
+                    sensorLockedRef.current = false;
+                    return;
+                  }
+                  // 删除最近一条记录（训练中撤销刚记到情况上的成绩）
+                  if (training) {
+                    undoTrainerSolve();
+                  } else if (puzzleRecords.length > 0) {
+                    deleteRecord(puzzleRecords[0].id);
+                  }
+                  nextRound();
+                }}
+              >
+                🗑 删除此次
+              </button>
+            )}
           </div>
         )}
 
+        {/* 传感器轨迹录制中 */}
+        {traceStartedAt !== null && (
+          <button className="trace-badge" onClick={stopTraceRecording}>
+            ⏺ 正在录制传感器数据 · 停止
+          </button>
+        )}
+
         {/* 传感器模式冲击指示 */}
-        {mode === 'sensor' && lastImpactStrength > 0 && phase === 'running' && (
+        {mode === 'sensor' && lastImpact && phase === 'running' && (
           <span className="sensor-info__strength">
-            冲击: {lastImpactStrength}g
+            冲击: {lastImpact.peak.toFixed(1)} m/s² · {IMPACT_LABELS[lastImpact.kind]}
           </span>
         )}
 
+        {/* 计时器连接状态；可用录下的 WAV 代替麦克风调试 */}
+        {mode === 'hardware' && (phase === 'idle' || stackmatConnection !== 'connected') && (
+          <div className="stackmat-status">
+            <span className={`stackmat-status__dot stackmat-status__dot--${stackmatConnection}`} />
+            <span>
+              {stackmatPlayingFile ? '正在回放录音' : STACKMAT_CONNECTION_LABELS[stackmatConnection]}
+              {stackmatConnection === 'connected' && stackmatPacket && ` · ${stackmatPacket.digits === 6 ? 'Gen3/4' : 'Gen2'}`}
+            </span>
+            {phase === 'idle' && !stackmatPlayingFile && (
+              <label className="stackmat-status__file">
+                用录音测试
+                <input
+                  type="file"
+                  accept=".wav,audio/wav"
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) playStackmatFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+          </div>
+        )}
+        {mode === 'hardware' && stackmatError && stackmatConnection !== 'denied' && (
+          <div className="stackmat-status__error">{stackmatError}</div>
+        )}
+
         {/* 传感器灵敏度滑块 */}
         {mode === 'sensor' && phase === 'idle' && (
           <div className="sensitivity-slider">
@@ -408,74 +1321,193 @@ export default function App() {
               type="range"
               className="sensitivity-slider__input"
               aria-label="传感器灵敏度"
-              min={1}
-              max={190}
+              min={SENSITIVITY_MIN}
+              max={SENSITIVITY_MAX}
               value={sensitivity}
               onChange={(e) => handleSensitivityChange(parseInt(e.target.value, 10))}
             />
             <div className="sensitivity-slider__marks">
-              <span>低 (1)</span>
-              <span>高 (190)</span>
+              <span>低 ({SENSITIVITY_MIN})</span>
+              <span>高 ({SENSITIVITY_MAX})</span>
+            </div>
+            <div className="sensitivity-slider__calibration">
+              {calibratedSensitivity === null ? (
+                <span>未校准</span>
+              ) : calibratedSensitivity === sensitivity ? (
+                <span>已校准</span>
+              ) : (
+                <button
+                  className="sensitivity-slider__link"
+                  onClick={() => handleSensitivityChange(calibratedSensitivity)}
+                >
+                  手动调整 · 恢复校准值 {calibratedSensitivity}
+                </button>
+              )}
+              <button className="sensitivity-slider__link" onClick={() => setShowCalibration(true)}>
+                🎯 {sensorProfile ? '重新校准' : '自动校准'}
+              </button>
             </div>
           </div>
         )}
       </main>
 
       {/* Stats */}
+      {/* 点击查看组成该项的成绩，点击总次数查看全部统计 */}
       <div className="stats">
-        <div className="stats__item">
+        <button className="stats__item" onClick={openBestSingle}>
           <div className="stats__label">最佳</div>
-          <div className={`stats__value ${bestTime !== null ? 'stats__value--highlight' : ''}`}>
-            {bestTime !== null ? formatTime(bestTime) : '--'}
+          <div className={`stats__value ${stats.best !== null && stats.best !== DNF ? 'stats__value--highlight' : ''}`}>
+            {formatStat(stats.best)}
           </div>
-        </div>
-        <div className="stats__item">
-          <div className="stats__label">Ao5</div>
-          <div className="stats__value">{ao5 !== null ? formatTime(ao5) : '--'}</div>
-        </div>
-        <div className="stats__item">
-          <div className="stats__label">Ao12</div>
-          <div className="stats__value">{ao12 !== null ? formatTime(ao12) : '--'}</div>
-        </div>
-        <div className="stats__item">
-          <div className="stats__label">总次数</div>
-          <div className="stats__value">{records.length}</div>
-        </div>
+        </button>
+        {blindfolded ? (
+          // 盲拧 DNF 常见，看 Mo3 与成功率
+          <>
+            <button className="stats__item" onClick={() => openCurrentAverage('mo3')}>
+              <div className="stats__label">Mo3</div>
+              <div className="stats__value">{formatStat(currentAverage('mo3'))}</div>
+            </button>
+            <button className="stats__item" onClick={() => setStatsView({ selection: null })}>
+              <div className="stats__label">成功率</div>
+              <div className="stats__value">{formatRate(successRate(stats))}</div>
+            </button>
+          </>
+        ) : (
+          <>
+            <button className="stats__item" onClick={() => openCurrentAverage('ao5')}>
+              <div className="stats__label">Ao5</div>
+              <div className="stats__value">{formatStat(currentAverage('ao5'))}</div>
+            </button>
+            <button className="stats__item" onClick={() => openCurrentAverage('ao12')}>
+              <div className="stats__label">Ao12</div>
+              <div className="stats__value">{formatStat(currentAverage('ao12'))}</div>
+            </button>
+          </>
+        )}
+        <button className="stats__item" onClick={() => setStatsView({ selection: null })}>
+          <div className="stats__label">总次数 ›</div>
+          <div className="stats__value">
+            {stats.validCount < stats.count ? `${stats.validCount}/${stats.count}` : stats.count}
+          </div>
+        </button>
       </div>
 
       {/* History */}
       <section className="history">
         <div className="history__header">
           <span className="history__title">历史记录</span>
-          {records.length > 0 && (
-            <button className="history__clear" onClick={clearRecords}>
-              清空
+          <div className="history__actions">
+            <button className="session-chip" onClick={() => setShowSessions(true)}>
+              📁 {activeSession.name}
             </button>
-          )}
+            <button className="session-chip" onClick={() => setCompView({ resultId: null })}>
+              🏆 比赛
+            </button>
+            {!competing && (
+              <button className="session-chip" onClick={() => setShowDuel(true)}>
+                ⚔️ 对战
+              </button>
+            )}
+            {!competing && (
+              <button className="session-chip" onClick={() => setShowRace(true)}>
+                🌐 联网
+              </button>
+            )}
+            {puzzleRecords.length > 0 && (
+              <button className="session-chip" onClick={() => setShowCharts(true)}>
+                📈 图表
+              </button>
+            )}
+            {puzzleRecords.length > 0 && (
+              <button className="history__clear" onClick={clearRecords}>
+                清空
+              </button>
+            )}
+          </div>
         </div>
-        {records.length === 0 ? (
+        {recordsLoading ? (
+          <div className="empty-state">
+            <span>正在读取成绩…</span>
+          </div>
+        ) : puzzleRecords.length === 0 ? (
           <div className="empty-state">
             <div className="empty-state__icon">🎲</div>
             <span>还没有记录，开始你的第一次还原吧！</span>
           </div>
         ) : (
-          <div className="history__list">
-            {records.map((record, index) => (
-              <div
-                key={record.id}
-                className={`history__item ${record.time === bestTime ? 'history__item--best' : ''}`}
-              >
-                <span className="history__index">#{records.length - index}</span>
-                <span className="history__time">{formatTime(record.time)}</span>
-                <button className="history__delete" onClick={() => deleteRecord(record.id)}>
-                  ✕
+          <>
+            {puzzleTags.length > 0 && (
+              <div className="tag-list history__tags">
+                <button
+                  className={`tag ${activeTagFilter === null ? 'tag--active' : ''}`}
+                  onClick={() => setTagFilter(null)}
+                >
+                  全部
                 </button>
+                {puzzleTags.map((tag) => (
+                  <button
+                    key={tag}
+                    className={`tag ${activeTagFilter === tag ? 'tag--active' : ''}`}
+                    onClick={() => setTagFilter(activeTagFilter === tag ? null : tag)}
+                  >
+                    # {tag}
+                  </button>
+                ))}
               </div>
-            ))}
-          </div>
+            )}
+            {/* 点击查看详情 */}
+            <div className="history__list">
+              {historyRecords.map(({ record, number }) => (
+                <div
+                  key={record.id}
+                  className={`history__item ${record.id === bestRecordId && stats.best !== DNF ? 'history__item--best' : ''}`}
+                  onClick={() => setDetailId(record.id)}
+                >
+                  <span className="history__index">
+                    #{number}
+                    {record.comment && ' ✎'}
+                  </span>
+                  <span className="history__time">{formatResult(record)}</span>
+                  <button
+                    className={`history__penalty ${record.penalty ? 'history__penalty--set' : ''}`}
+                    aria-label="切换判罚"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setRecordPenalty(record, nextPenalty(record.penalty));
+                    }}
+                  >
+                    {record.penalty ?? 'OK'}
+                  </button>
+                  <button
+                    className="history__delete"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteRecord(record.id);
+                    }}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
         )}
       </section>
 
+      {/* Storage Error */}
+      {(storageError || compStorageError) && (
+        <div className="storage-error" role="alert">
+          <span className="storage-error__text">{storageError ?? compStorageError}</span>
+          <button
+            className="storage-error__close"
+            aria-label="关闭"
+            onClick={storageError ? dismissStorageError : dismissCompStorageError}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
       {/* Permission Banner */}
       {showPermissionBanner && (
         <div className="permission-banner">
@@ -488,6 +1520,192 @@ export default function App() {
         </div>
       )}
 
+      {/* Session Manager */}
+      {showSessions && (
+        <SessionManager
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          records={records}
+          puzzle={puzzle}
+          onCreate={createSession}
+          onRename={renameSession}
+          onSwitch={handleSwitchSession}
+          onMerge={mergeSessions}
+          onDelete={deleteSession}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
+      {/* Stats */}
+      {statsView && (
+        <StatsModal
+          records={puzzleRecords}
+          stats={stats}
+          targetTime={targetTime}
+          onTargetTimeChange={handleTargetTimeChange}
+          initialSelection={statsView.selection}
+          onClose={() => setStatsView(null)}
+        />
+      )}
+
+      {/* Motion Trace */}
+      {showTrace && (
+        <MotionTraceModal
+          recording={traceStartedAt !== null}
+          recordedTrace={recordedTrace}
+          config={detectorConfig}
+          onStartRecording={startTraceRecording}
+          onStopRecording={stopTraceRecording}
+          onClose={() => setShowTrace(false)}
+        />
+      )}
+
+      {/* Sensor Calibration */}
+      {showCalibration && (
+        <SensorCalibration
+          profile={sensorProfile}
+          requestPermission={requestPermission}
+          onSave={handleCalibrationSave}
+          onClear={handleCalibrationClear}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+
+      {/* Solve Detail */}
+      {detailIndex >= 0 && (
+        <SolveDetail
+          key={puzzleRecords[detailIndex].id}
+          record={puzzleRecords[detailIndex]}
+          number={puzzleRecords.length - detailIndex}
+          knownTags={knownTags}
+          onUpdate={(patch) => updateRecord(puzzleRecords[detailIndex].id, patch)}
+          onDelete={() => {
+            deleteRecord(puzzleRecords[detailIndex].id);
+            setDetailId(null);
+          }}
+          onClose={() => setDetailId(null)}
+        />
+      )}
+
+      {/* Charts */}
+      {showCharts && (
+        <ChartsModal
+          records={puzzleRecords}
+          stats={stats}
+          onSelectSolve={openSolve}
+          onClose={() => setShowCharts(false)}
+        />
+      )}
+
+      {/* Trainer */}
+      {showTrainer && (
+        <TrainerModal
+          config={trainerConfig}
+          onSelectedChange={setTrainerSelected}
+          onToggleLearned={toggleTrainerLearned}
+          onStart={handleStartTrainer}
+          onStop={handleStopTrainer}
+          onClose={() => setShowTrainer(false)}
+        />
+      )}
+
+      {/* Competition */}
+      {compView && (
+        <CompSimModal
+          puzzle={puzzle}
+          settings={compSettings}
+          rounds={compRounds}
+          active={compRound}
+          resultId={compView.resultId}
+          onSettingsChange={setCompSettings}
+          onStart={handleStartComp}
+          onAbandon={() => {
+            abandonCompRound();
+            setCompView(null);
+          }}
+          onDeleteRound={deleteCompRound}
+          onClose={() => setCompView(null)}
+        />
+      )}
+
+      {/* Duel */}
+      {showDuel && (
+        <DuelMode
+          scramble={scramble}
+          scrambleLoading={scrambleLoading}
+          cubeSize={cubeSize}
+          onNextScramble={() => nextScramble()}
+          onClose={() => setShowDuel(false)}
+        />
+      )}
+
+      {/* Scramble Set */}
+      {showScrambleSet && (
+        <ScrambleSetModal
+          scrambleSet={scrambleSet}
+          puzzle={puzzle}
+          onStart={handleStartScrambleSet}
+          onEnd={() => {
+            endScrambleSet();
+            setShowScrambleSet(false);
+          }}
+          onClose={() => setShowScrambleSet(false)}
+        />
+      )}
+
+      {/* Race Room */}
+      {showRace && (
+        <RaceRoomModal
+          settings={raceSettings}
+          connection={raceConnection}
+          room={raceRoom}
+          clientId={raceClientId}
+          error={raceError}
+          onJoin={joinRace}
+          onLeave={leaveRace}
+          onReady={setRaceReady}
+          onClose={() => setShowRace(false)}
+        />
+      )}
+
+      {/* Settings */}
+      {showSettings && (
+        <SettingsModal
+          inspectionEnabled={inspectionEnabled}
+          onInspectionChange={handleInspectionChange}
+          stepNames={stepNames}
+          onStepNamesChange={handleStepNamesChange}
+          audioSettings={audioSettings}
+          onAudioSettingsChange={setAudioSettings}
+          onOpenDataTransfer={() => {
+            setShowSettings(false);
+            setShowDataTransfer(true);
+          }}
+          onOpenMotionTrace={() => {
+            setShowSettings(false);
+            setShowTrace(true);
+          }}
+          onOpenScrambleSheet={() => {
+            setShowSettings(false);
+            setShowScrambleSheet(true);
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Scramble Sheet */}
+      {showScrambleSheet && <ScrambleSheetModal onClose={() => setShowScrambleSheet(false)} />}
+
+      {/* Import / Export */}
+      {showDataTransfer && (
+        <DataTransferModal
+          records={records}
+          sessions={sessions}
+          onImport={importRecords}
+          onClose={() => setShowDataTransfer(false)}
+        />
+      )}
+
       {/* Help Modal */}
       {showHelp && (
         <div className="help-overlay" onClick={dismissHelp}>
@@ -533,7 +1751,7 @@ export default function App() {
                   </div>
                   <div className="help-step">
                     <span className="help-step__num">2</span>
-                    <span><strong>轻拍手机</strong>或拿起魔方（振动触发），计时开始</span>
+                    <span><strong>轻拍手机</strong>，计时开始</span>
                   </div>
                   <div className="help-step">
                     <span className="help-step__num">3</span>
@@ -547,6 +1765,25 @@ export default function App() {
                 <p className="help-note">⚠️ 传感器模式需要 HTTPS 环境</p>
               </div>
 
+              <div className="help-section">
+                <h3 className="help-section__title">⏱ 计时器模式</h3>
+                <div className="help-steps">
+                  <div className="help-step">
+                    <span className="help-step__num">1</span>
+                    <span>用音频线把 <strong>Stackmat 计时器</strong>的数据口接到手机或电脑的麦克风</span>
+                  </div>
+                  <div className="help-step">
+                    <span className="help-step__num">2</span>
+                    <span>像平时一样使用计时器，开始、停止<strong>自动同步</strong>，成绩以计时器显示为准</span>
+                  </div>
+                  <div className="help-step">
+                    <span className="help-step__num">3</span>
+                    <span>计时器<strong>清零</strong>后自动进入下一轮</span>
+                  </div>
+                </div>
+                <p className="help-note">⚠️ 需要允许使用麦克风；支持 2 代与 3/4 代计时器</p>
+              </div>
+
               <div className="help-section">
                 <h3 className="help-section__title">💡 其他操作</h3>
                 <div className="help-steps">
@@ -554,6 +1791,30 @@ export default function App() {
                     <span className="help-step__num">✕</span>
                     <span>计时中点击 <strong>✕ 取消本次</strong> 可放弃当前还原</span>
                   </div>
+                  <div className="help-step">
+                    <span className="help-step__num">⚙</span>
+                    <span>设置中可开启 <strong>WCA 观察</strong>：先轻点开始 15 秒观察，超过 15 秒 +2，超过 17 秒 DNF</span>
+                  </div>
+                  <div className="help-step">
+                    <span className="help-step__num">🙈</span>
+                    <span><strong>3x3 盲拧</strong>项目的打乱带随机朝向；计时中记忆完成拍一下，还原后再拍停止，分别记录记忆与执行用时</span>
+                  </div>
+                  <div className="help-step">
+                    <span className="help-step__num">🎯</span>
+                    <span>3x3 打乱栏点击 <strong>🎯 训练</strong> 可专练 OLL / PLL / COLL / 2GLL：顶层朝上执行打乱，越慢的情况出现越多</span>
+                  </div>
+                  <div className="help-step">
+                    <span className="help-step__num">⚔️</span>
+                    <span>历史记录栏点击 <strong>⚔️ 对战</strong> 可两人在一台手机上对拼：上下分屏各按住自己的一半，都就绪后松手同时开始，各自拍停，按轮计分</span>
+                  </div>
+                  <div className="help-step">
+                    <span className="help-step__num">🌐</span>
+                    <span>历史记录栏点击 <strong>🌐 联网</strong> 可与其他设备上的队友比拼：连上同一个中继服务器、输入同一个房间号，所有人准备后每轮用同一条打乱，成绩实时排名</span>
+                  </div>
+                  <div className="help-step">
+                    <span className="help-step__num">🏆</span>
+                    <span>历史记录栏点击 <strong>🏆 比赛</strong> 可模拟一轮正式比赛：设定 Ao5 / Mo3 / Bo3、及格线与限时，成绩单独保存</span>
+                  </div>
                   <div className="help-step">
                     <span className="help-step__num">🗑</span>
                     <span>停止后点击 <strong>🗑 删除此次</strong> 可删除本次成绩</span>
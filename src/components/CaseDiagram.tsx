@@ -0,0 +1,84 @@
+import { useMemo } from 'react';
+import type { LLCase } from '../utils/llCases';
+import { faceletsFromCubie } from '../utils/twoPhaseSolver';
+
+interface CaseDiagramProps {
+  c: LLCase;
+  /** 边长 (px) */
+  size?: number;
+}
+
+// 顶层情况按黄顶绿前的习惯配色（与打乱预览的白顶配色上下颠倒）
+const STICKER_COLORS: Record<string, string> = {
+  U: '#ffd600',
+  D: '#ffffff',
+  F: '#00c853',
+  B: '#2962ff',
+  R: '#ff9100',
+  L: '#ff3b30',
+};
+// OLL 只看朝向，非顶面颜色的贴纸画成灰色
+const MASKED_COLOR = '#3a3a46';
+
+// facelet 编号见 twoPhaseSolver：U 0-8, R 9-17, F 18-26, L 36-44, B 45-53
+// 俯视图中四周一圈侧面贴纸，顺序为从左到右 / 从上到下
+const BACK_ROW = [47, 46, 45];
+const FRONT_ROW = [18, 19, 20];
+const LEFT_COLUMN = [36, 37, 38];
+const RIGHT_COLUMN = [11, 10, 9];
+
+const CELL = 10;
+const STRIP = 4;
+const GAP = 1;
+const OFFSET = STRIP + GAP;
+const TOTAL = OFFSET * 2 + CELL * 3;
+
+/**
+ * 顶层情况图：顶面 3x3 俯视，四周画出侧面最上一排贴纸
+ */
+export default function CaseDiagram({ c, size = 64 }: CaseDiagramProps) {
+  const facelets = useMemo(() => faceletsFromCubie(c.state), [c]);
+  const fill = (index: number) => {
+    const color = facelets[index];
+    return c.set === 'OLL' && color !== 'U' ? MASKED_COLOR : STICKER_COLORS[color];
+  };
+
+  const stickers: { key: string; x: number; y: number; w: number; h: number; index: number }[] = [];
+  for (let i = 0; i < 9; i++) {
+    const x = OFFSET + (i % 3) * CELL;
+    const y = OFFSET + Math.floor(i / 3) * CELL;
+    stickers.push({ key: `u${i}`, x, y, w: CELL, h: CELL, index: i });
+  }
+  for (let i = 0; i < 3; i++) {
+    const along = OFFSET + i * CELL;
+    stickers.push({ key: `b${i}`, x: along, y: 0, w: CELL, h: STRIP, index: BACK_ROW[i] });
+    stickers.push({ key: `f${i}`, x: along, y: TOTAL - STRIP, w: CELL, h: STRIP, index: FRONT_ROW[i] });
+    stickers.push({ key: `l${i}`, x: 0, y: along, w: STRIP, h: CELL, index: LEFT_COLUMN[i] });
+    stickers.push({ key: `r${i}`, x: TOTAL - STRIP, y: along, w: STRIP, h: CELL, index: RIGHT_COLUMN[i] });
+  }
+
+  return (
+    <svg
+      className="case-diagram"
+      viewBox={`0 0 ${TOTAL} ${TOTAL}`}
+      width={size}
+      height={size}
+      role="img"
+      aria-label={`${c.set} ${c.name}`}
+    >
+      {stickers.map((s) => (
+        <rect
+          key={s.key}
+          x={s.x}
+          y={s.y}
+          width={s.w}
+          height={s.h}
+          rx={1}
+          fill={fill(s.index)}
+          stroke="#0a0a0f"
+          strokeWidth={0.6}
+        />
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import type { SolveRecord } from '../types';
+import { resultTime } from '../utils/timeFormat';
+import { zoomRange, type DateRange } from '../utils/chart';
+import type { SolveStats, StatKey } from '../utils/stats';
+import TimeSeriesChart, { type ChartLine, type ChartPoint } from './TimeSeriesChart';
+import TimeHistogram from './TimeHistogram';
+
+interface ChartsModalProps {
+  /** 当前会话当前项目的成绩（最新在前） */
+  records: SolveRecord[];
+  stats: SolveStats;
+  /** 选中某次成绩（按时间先后的下标） */
+  onSelectSolve: (index: number) => void;
+  onClose: () => void;
+}
+
+type ChartTab = 'trend' | 'histogram';
+
+const BUCKET_KEY = 'cube-rush-histogram-bucket';
+const BUCKETS = [250, 500, 1000, 2000, 5000];
+const DAY = 24 * 3600 * 1000;
+
+const LINE_STYLES: { key: StatKey; color: string }[] = [
+  { key: 'ao5', color: '#00e676' },
+  { key: 'ao12', color: '#ffd740' },
+  { key: 'ao100', color: '#ff5252' },
+];
+
+function loadBucket(): number {
+  const saved = parseInt(localStorage.getItem(BUCKET_KEY) ?? '', 10);
+  return BUCKETS.includes(saved) ? saved : 1000;
+}
+
+/**
+ * 图表弹窗：成绩走势（含 Ao5 / Ao12 / Ao100 滚动平均）与成绩分布，两者共用日期范围
+ */
+export default function ChartsModal({ records, stats, onSelectSolve, onClose }: ChartsModalProps) {
+  const [tab, setTab] = useState<ChartTab>('trend');
+  const [bucket, setBucket] = useState(loadBucket);
+  // null 表示显示全部日期
+  const [range, setRange] = useState<DateRange | null>(null);
+
+  const points = useMemo<ChartPoint[]>(
+    () =>
+      records
+        .map((r) => ({ date: r.date, time: resultTime(r) }))
+        .reverse()
+        .map((p, index) => ({ ...p, index })),
+    [records]
+  );
+
+  const lines = useMemo<ChartLine[]>(
+    () =>
+      LINE_STYLES.map(({ key, color }) => {
+        const { def, values } = stats.averages.find((a) => a.def.key === key)!;
+        return {
+          label: def.label,
+          color,
+          // 第 i 次对应以它结尾的窗口
+          values: points.map((_, i) => (i >= def.size - 1 ? values[i - def.size + 1] : null)),
+        };
+      }),
+    [points, stats]
+  );
+
+  const fullRange = useMemo<DateRange>(() => {
+    // 没有成绩时不绘制图表，范围无关紧要
+    if (points.length === 0) return { from: 0, to: DAY };
+    const first = points[0].date;
+    const last = points[points.length - 1].date;
+    const pad = Math.max(3600 * 1000, (last - first) * 0.03);
+    return { from: first - pad, to: last + pad };
+  }, [points]);
+
+  const view = range ?? fullRange;
+  const visibleTimes = points.filter((p) => p.date >= view.from && p.date <= view.to).map((p) => p.time);
+
+  const showLastDays = (days: number) => {
+    const to = fullRange.to;
+    setRange({ from: to - days * DAY, to });
+  };
+
+  const changeBucket = (value: number) => {
+    setBucket(value);
+    localStorage.setItem(BUCKET_KEY, String(value));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">图表</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <div className="chart-tabs">
+            <button
+              className={`chart-tabs__btn ${tab === 'trend' ? 'chart-tabs__btn--active' : ''}`}
+              onClick={() => setTab('trend')}
+            >
+              走势
+            </button>
+            <button
+              className={`chart-tabs__btn ${tab === 'histogram' ? 'chart-tabs__btn--active' : ''}`}
+              onClick={() => setTab('histogram')}
+            >
+              分布
+            </button>
+          </div>
+
+          <div className="chart-range">
+            <button className="chart-range__btn" onClick={() => setRange(null)}>
+              全部
+            </button>
+            <button className="chart-range__btn" onClick={() => showLastDays(30)}>
+              30 天
+            </button>
+            <button className="chart-range__btn" onClick={() => showLastDays(7)}>
+              7 天
+            </button>
+            <button className="chart-range__btn" aria-label="放大" onClick={() => setRange(zoomRange(view, 0.5))}>
+              ＋
+            </button>
+            <button className="chart-range__btn" aria-label="缩小" onClick={() => setRange(zoomRange(view, 2))}>
+              －
+            </button>
+          </div>
+
+          {points.length === 0 ? (
+            <div className="chart-empty">还没有成绩</div>
+          ) : tab === 'trend' ? (
+            <>
+              <TimeSeriesChart
+                points={points}
+                lines={lines}
+                range={view}
+                onRangeChange={setRange}
+                onSelect={onSelectSolve}
+              />
+              <div className="chart-legend">
+                <span className="chart-legend__item">
+                  <i className="chart-legend__dot" />
+                  单次
+                </span>
+                {lines.map((line) => (
+                  <span key={line.label} className="chart-legend__item">
+                    <i className="chart-legend__line" style={{ background: line.color }} />
+                    {line.label}
+                  </span>
+                ))}
+              </div>
+              <p className="chart-hint">拖动平移，滚轮或双指缩放，轻点一次成绩查看详情</p>
+            </>
+          ) : (
+            <>
+              <TimeHistogram times={visibleTimes} bucket={bucket} />
+              <div className="chart-buckets">
+                <span>区间</span>
+                {BUCKETS.map((b) => (
+                  <button
+                    key={b}
+                    className={`chart-range__btn ${bucket === b ? 'chart-range__btn--active' : ''}`}
+                    onClick={() => changeBucket(b)}
+                  >
+                    {b / 1000} 秒
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
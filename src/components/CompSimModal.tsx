@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import type { CompRound, RoundSettings } from '../types';
+import { getPuzzle, type PuzzleType } from '../utils/puzzles';
+import {
+  ROUND_FORMATS,
+  attemptResult,
+  describeRound,
+  getRoundFormat,
+  madeCutoff,
+  roundResult,
+} from '../utils/compSim';
+import { DNF, formatStat, formatTime } from '../utils/timeFormat';
+
+interface CompSimModalProps {
+  puzzle: PuzzleType;
+  settings: RoundSettings;
+  rounds: CompRound[];
+  /** 正在进行的一轮 */
+  active: CompRound | null;
+  /** 打开时展示的成绩卡（刚结束的一轮） */
+  resultId: number | null;
+  onSettingsChange: (settings: RoundSettings) => void;
+  onStart: () => void;
+  onAbandon: () => void;
+  onDeleteRound: (id: number) => void;
+  onClose: () => void;
+}
+
+// 秒数输入框的内容；留空表示不设
+function secondsText(ms: number | null): string {
+  return ms === null ? '' : String(ms / 1000);
+}
+
+function parseSeconds(text: string): number | null {
+  const seconds = Number(text);
+  return text.trim() === '' || !Number.isFinite(seconds) || seconds <= 0 ? null : Math.round(seconds * 1000);
+}
+
+function formatDate(date: number): string {
+  return new Date(date).toLocaleString('zh-CN', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/** 一轮的主成绩：Bo3 看单次，其余看平均；未过及格线时只有单次 */
+function headline(round: CompRound): string {
+  const { best, average } = roundResult(round.settings, round.attempts);
+  if (round.settings.format === 'bo3' || average === null) return `单次 ${formatStat(best)}`;
+  return `平均 ${formatStat(average)}`;
+}
+
+function ResultCard({ round }: { round: CompRound }) {
+  const { settings, attempts } = round;
+  const { best, average, trimmed } = roundResult(settings, attempts);
+  const format = getRoundFormat(settings.format);
+  const averageLabel = settings.format === 'ao5' ? '平均' : '平均值';
+
+  return (
+    <div className="comp-card">
+      <div className="comp-card__header">
+        <span className="comp-card__puzzle">{getPuzzle(round.puzzle).name}</span>
+        <span className="comp-card__date">{formatDate(round.date)}</span>
+      </div>
+      <div className="comp-card__rules">{describeRound(settings)}</div>
+
+      <ol className="comp-card__attempts">
+        {Array.from({ length: format.attempts }, (_, i) => {
+          const attempt = attempts[i];
+          if (!attempt) {
+            return (
+              <li key={i} className="comp-card__attempt comp-card__attempt--skipped">
+                —
+              </li>
+            );
+          }
+          const result = attemptResult(attempt, settings);
+          const text = result === DNF ? 'DNF' : formatTime(result);
+          return (
+            <li key={i} className="comp-card__attempt" title={attempt.scramble}>
+              {trimmed.has(i) ? `(${text})` : text}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="comp-card__results">
+        <div className="comp-card__result">
+          <span className="comp-card__label">单次</span>
+          <span className="comp-card__value">{formatStat(best)}</span>
+        </div>
+        <div className="comp-card__result">
+          <span className="comp-card__label">{averageLabel}</span>
+          <span className="comp-card__value">{formatStat(average)}</span>
+        </div>
+      </div>
+      {!madeCutoff(settings, attempts) && (
+        <div className="comp-card__note">未过及格线，本轮没有{averageLabel}</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 模拟比赛弹窗：设定赛制、及格线与限时后开始一轮；查看刚结束一轮的成绩卡和以往轮次
+ */
+export default function CompSimModal({
+  puzzle,
+  settings,
+  rounds,
+  active,
+  resultId,
+  onSettingsChange,
+  onStart,
+  onAbandon,
+  onDeleteRound,
+  onClose,
+}: CompSimModalProps) {
+  const [selectedId, setSelectedId] = useState(resultId);
+  const [cutoffAttempts, setCutoffAttempts] = useState(settings.cutoff?.attempts ?? 0);
+  const [cutoffInput, setCutoffInput] = useState(secondsText(settings.cutoff?.time ?? null));
+  const [limitInput, setLimitInput] = useState(secondsText(settings.timeLimit));
+
+  const history = rounds.filter((r) => r.puzzle === puzzle);
+  const selected = rounds.find((r) => r.id === selectedId);
+  const cutoffInvalid = cutoffAttempts > 0 && parseSeconds(cutoffInput) === null;
+
+  const changeCutoff = (attempts: number, text: string) => {
+    setCutoffAttempts(attempts);
+    setCutoffInput(text);
+    const time = parseSeconds(text);
+    onSettingsChange({ ...settings, cutoff: attempts > 0 && time !== null ? { attempts, time } : null });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">模拟比赛</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          {selected && <ResultCard round={selected} />}
+
+          {active ? (
+            <div className="comp-sim__active">
+              <span>
+                正在进行：{describeRound(active.settings)}，已完成 {active.attempts.length} 次
+              </span>
+              <button className="trainer__btn" onClick={onAbandon}>
+                放弃本轮
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="setting-row setting-row--column">
+                <div className="setting-row__text">
+                  <span className="setting-row__title">赛制</span>
+                  <span className="setting-row__desc">
+                    Ao5 去掉最好和最差各一次取平均；Mo3 三次平均；Bo3 以最好单次排名
+                  </span>
+                </div>
+                <div className="tag-list">
+                  {ROUND_FORMATS.map((f) => (
+                    <button
+                      key={f.id}
+                      className={`tag ${settings.format === f.id ? 'tag--active' : ''}`}
+                      onClick={() => {
+                        // 及格线必须在最后一次之前判定
+                        const keep = cutoffAttempts < f.attempts;
+                        if (!keep) setCutoffAttempts(0);
+                        onSettingsChange({ ...settings, format: f.id, cutoff: keep ? settings.cutoff : null });
+                      }}
+                    >
+                      {f.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="setting-row setting-row--column">
+                <div className="setting-row__text">
+                  <span className="setting-row__title">及格线</span>
+                  <span className="setting-row__desc">
+                    前几次中至少一次快于及格线才能继续，否则本轮提前结束
+                  </span>
+                </div>
+                <div className="tag-list">
+                  {Array.from({ length: getRoundFormat(settings.format).attempts }, (_, n) => (
+                    <button
+                      key={n}
+                      className={`tag ${cutoffAttempts === n ? 'tag--active' : ''}`}
+                      onClick={() => changeCutoff(n, cutoffInput)}
+                    >
+                      {n === 0 ? '不设' : `前 ${n} 次`}
+                    </button>
+                  ))}
+                </div>
+                {cutoffAttempts > 0 && (
+                  <input
+                    className="setting-row__input"
+                    type="number"
+                    min="0"
+                    step="any"
+                    inputMode="decimal"
+                    aria-label="及格线（秒）"
+                    placeholder="及格线（秒），如 20"
+                    value={cutoffInput}
+                    onChange={(e) => changeCutoff(cutoffAttempts, e.target.value)}
+                  />
+                )}
+              </div>
+
+              <div className="setting-row setting-row--column">
+                <div className="setting-row__text">
+                  <span className="setting-row__title">限时</span>
+                  <span className="setting-row__desc">单次达到限时自动停表并判 DNF（+2 后超过也算 DNF）</span>
+                </div>
+                <input
+                  className="setting-row__input"
+                  type="number"
+                  min="0"
+                  step="any"
+                  inputMode="decimal"
+                  aria-label="限时（秒）"
+                  placeholder="限时（秒），留空不限时"
+                  value={limitInput}
+                  onChange={(e) => {
+                    setLimitInput(e.target.value);
+                    onSettingsChange({ ...settings, timeLimit: parseSeconds(e.target.value) });
+                  }}
+                />
+              </div>
+
+              <div className="trainer__actions">
+                <button className="trainer__btn trainer__btn--primary" disabled={cutoffInvalid} onClick={onStart}>
+                  开始 {describeRound(settings)}
+                </button>
+              </div>
+            </>
+          )}
+
+          <div className="trainer__group">
+            <div className="trainer__group-title">以往轮次 · {getPuzzle(puzzle).name}</div>
+            {history.length === 0 && <div className="comp-sim__empty">还没有比赛成绩</div>}
+            {history.map((round) => (
+              <div
+                key={round.id}
+                className={`comp-sim__round ${round.id === selectedId ? 'comp-sim__round--selected' : ''}`}
+              >
+                <button className="comp-sim__round-main" onClick={() => setSelectedId(round.id)}>
+                  <span className="comp-sim__round-date">{formatDate(round.date)}</span>
+                  <span className="comp-sim__round-format">{getRoundFormat(round.settings.format).name}</span>
+                  <span className="comp-sim__round-result">{headline(round)}</span>
+                </button>
+                <button
+                  className="comp-sim__round-delete"
+                  aria-label="删除这一轮"
+                  onClick={() => {
+                    if (round.id === selectedId) setSelectedId(null);
+                    onDeleteRound(round.id);
+                  }}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import type { Session, SolveRecord } from '../types';
+import {
+  TRANSFER_FORMATS,
+  exportRecords,
+  parseImport,
+  planImport,
+  type ImportPlan,
+  type TransferFormat,
+} from '../utils/importExport';
+import { downloadText } from '../utils/download';
+
+interface DataTransferModalProps {
+  records: SolveRecord[];
+  sessions: Session[];
+  onImport: (sessions: Session[], records: SolveRecord[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * 导入导出弹窗：导出全部会话为 csTimer / Twisty Timer / CSV，
+ * 导入时先预览各会话的成绩数与重复数，确认后写入
+ */
+export default function DataTransferModal({ records, sessions, onImport, onClose }: DataTransferModalProps) {
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [formatName, setFormatName] = useState('');
+  const [skipped, setSkipped] = useState(0);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleExport = (format: TransferFormat) => {
+    const { extension, mime } = TRANSFER_FORMATS.find((f) => f.id === format)!;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadText(exportRecords(format, records, sessions), `cube-rush-${date}.${extension}`, mime);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setError('');
+    setMessage('');
+    setPlan(null);
+    if (!file) return;
+    try {
+      const result = parseImport(await file.text());
+      setFormatName(TRANSFER_FORMATS.find((f) => f.id === result.format)!.name);
+      setSkipped(result.skipped);
+      setPlan(planImport(result, records, sessions));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '文件读取失败');
+    }
+  };
+
+  const confirmImport = () => {
+    if (!plan) return;
+    onImport(plan.sessions, plan.records);
+    setMessage(`已导入 ${plan.records.length} 次成绩`);
+    setPlan(null);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">导入 / 导出</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <div className="transfer-section">
+            <div className="transfer-section__title">导出全部会话</div>
+            <div className="transfer-buttons">
+              {TRANSFER_FORMATS.map((format) => (
+                <button
+                  key={format.id}
+                  className="transfer-btn"
+                  disabled={records.length === 0}
+                  onClick={() => handleExport(format.id)}
+                >
+                  {format.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="transfer-section">
+            <div className="transfer-section__title">导入</div>
+            <p className="transfer-section__desc">
+              支持 csTimer 导出的 JSON、Twisty Timer 备份文件以及本应用导出的 CSV，已存在的成绩会自动跳过
+            </p>
+            <input
+              className="transfer-file"
+              type="file"
+              accept=".json,.txt,.csv,application/json,text/plain,text/csv"
+              aria-label="选择导入文件"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {error && <div className="transfer-error">{error}</div>}
+            {message && <div className="transfer-message">{message}</div>}
+
+            {plan && (
+              <div className="transfer-preview">
+                <div className="transfer-preview__summary">
+                  {formatName} · 新成绩 {plan.records.length} 次
+                  {skipped > 0 && ` · ${skipped} 行无法识别`}
+                </div>
+                {plan.items.map((item, i) => (
+                  <div key={i} className="transfer-preview__item">
+                    <span className="transfer-preview__name">{item.name}</span>
+                    <span className="transfer-preview__meta">
+                      {item.existingSession ? '并入已有会话' : '新建会话'} · {item.total} 次
+                      {item.duplicates > 0 && ` · ${item.duplicates} 次重复`}
+                    </span>
+                  </div>
+                ))}
+                <div className="transfer-preview__actions">
+                  <button className="transfer-btn" onClick={() => setPlan(null)}>
+                    取消
+                  </button>
+                  <button
+                    className="transfer-btn transfer-btn--primary"
+                    disabled={plan.records.length === 0}
+                    onClick={confirmImport}
+                  >
+                    导入 {plan.records.length} 次
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
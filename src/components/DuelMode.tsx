@@ -0,0 +1,268 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTimer } from '../hooks/useTimer';
+import type { Penalty } from '../types';
+import {
+  MATCH_LENGTHS,
+  loadDuelSettings,
+  matchScore,
+  playerSummary,
+  roundWinner,
+  saveDuelSettings,
+  type DuelPlayer,
+  type DuelResult,
+  type DuelRound,
+} from '../utils/duel';
+import { PENALTY_OPTIONS, formatStat, formatTime, resultTime } from '../utils/timeFormat';
+import ScramblePreview from './ScramblePreview';
+
+interface DuelModeProps {
+  scramble: string;
+  scrambleLoading: boolean;
+  /** 魔方阶数，非 NxN 项目不显示预览 */
+  cubeSize?: number;
+  onNextScramble: () => void;
+  onClose: () => void;
+}
+
+// 与单人 Stackmat 模式相同：按住 0.4 秒后就绪
+const HOLD_MS = 400;
+
+/**
+ * 双人对战：上下分屏，上半屏倒置给对面的玩家
+ *
+ * 两人各自按住自己的半屏就绪，都就绪后任意一方松手，两个计时器同时开始；
+ * 各自拍自己的半屏停止。每轮两人用同一条打乱，按 N 轮计分。
+ */
+export default function DuelMode({ scramble, scrambleLoading, cubeSize, onNextScramble, onClose }: DuelModeProps) {
+  const [settings, setSettings] = useState(loadDuelSettings);
+  const [started, setStarted] = useState(false);
+  const [rounds, setRounds] = useState<DuelRound[]>([]);
+  const [current, setCurrent] = useState<[DuelResult | null, DuelResult | null]>([null, null]);
+  const first = useTimer();
+  const second = useTimer();
+  const timers = [first, second];
+  const holdTimersRef = useRef<(ReturnType<typeof setTimeout> | null)[]>([null, null]);
+
+  useEffect(() => {
+    saveDuelSettings(settings);
+  }, [settings]);
+
+  // 两人都完成后本轮计入比分，判罚在进入下一轮前仍可修改
+  const [a, b] = current;
+  const played = a && b ? [...rounds, { scramble, results: [a, b] as [DuelResult, DuelResult] }] : rounds;
+  const roundDone = a !== null && b !== null;
+  const matchOver = played.length >= settings.rounds;
+  const score = matchScore(played);
+
+  const clearHold = (player: DuelPlayer) => {
+    const id = holdTimersRef.current[player];
+    if (id) clearTimeout(id);
+    holdTimersRef.current[player] = null;
+  };
+
+  const handlePointerDown = (player: DuelPlayer, e: React.PointerEvent) => {
+    e.preventDefault();
+    if (!started || scrambleLoading || matchOver) return;
+    const timer = timers[player];
+    if (timer.phase === 'running') {
+      const time = timer.stop(e.timeStamp);
+      setCurrent((prev) => (player === 0 ? [{ time }, prev[1]] : [prev[0], { time }]));
+    } else if (timer.phase === 'idle' && current[player] === null) {
+      clearHold(player);
+      holdTimersRef.current[player] = setTimeout(() => timer.setReady(), HOLD_MS);
+    }
+  };
+
+  const handlePointerUp = (player: DuelPlayer, e: React.PointerEvent) => {
+    clearHold(player);
+    const timer = timers[player];
+    if (timer.phase !== 'ready') return;
+    if (timers[1 - player].phase === 'ready') {
+      // 以松手事件的时刻同时开始，两人的成绩可以直接比较
+      first.start(e.timeStamp);
+      second.start(e.timeStamp);
+    } else {
+      // 对手还没就绪就松手，需要重新按住
+      timer.setPhase('idle');
+    }
+  };
+
+  // 系统手势等打断了触摸：取消就绪
+  const handlePointerCancel = (player: DuelPlayer) => {
+    clearHold(player);
+    if (timers[player].phase === 'ready') timers[player].setPhase('idle');
+  };
+
+  const setPenalty = (player: DuelPlayer, penalty: Penalty | undefined) => {
+    setCurrent((prev) => {
+      const next: [DuelResult | null, DuelResult | null] = [...prev];
+      const result = prev[player];
+      if (result) next[player] = penalty ? { time: result.time, penalty } : { time: result.time };
+      return next;
+    });
+  };
+
+  const resetTimers = () => {
+    clearHold(0);
+    clearHold(1);
+    first.reset();
+    second.reset();
+    setCurrent([null, null]);
+  };
+
+  const nextRound = () => {
+    setRounds(played);
+    resetTimers();
+    onNextScramble();
+  };
+
+  const newMatch = () => {
+    setRounds([]);
+    resetTimers();
+    onNextScramble();
+  };
+
+  // 关闭前停下计时循环
+  const close = () => {
+    resetTimers();
+    onClose();
+  };
+
+  const hintText = (player: DuelPlayer): string => {
+    const timer = timers[player];
+    const opponent = timers[1 - player];
+    if (!started) return '等待开始';
+    if (scrambleLoading) return '正在生成打乱…';
+    if (roundDone) {
+      const winner = roundWinner(played[played.length - 1]);
+      return winner === null ? '平局' : winner === player ? '本轮胜 🎉' : '本轮负';
+    }
+    if (current[player]) return '等待对手完成';
+    switch (timer.phase) {
+      case 'idle':
+        return '按住准备';
+      case 'ready':
+        return opponent.phase === 'ready' ? '松开开始！' : '等待对手准备…';
+      default:
+        return '';
+    }
+  };
+
+  const renderHalf = (player: DuelPlayer) => {
+    const timer = timers[player];
+    const result = current[player];
+    const summary = playerSummary(played, player);
+    const showScramble = started && !roundDone && (timer.phase === 'idle' || timer.phase === 'ready');
+    return (
+      <div
+        className={`duel__half ${player === 1 ? 'duel__half--flipped' : ''} duel__half--${timer.phase}`}
+        onPointerDown={(e) => handlePointerDown(player, e)}
+        onPointerUp={(e) => handlePointerUp(player, e)}
+        onPointerCancel={() => handlePointerCancel(player)}
+      >
+        <div className="duel__name">
+          {settings.names[player]} · 胜 {score[player]}
+        </div>
+        {showScramble && (
+          <div className="duel__scramble">
+            <span>{scrambleLoading ? '…' : scramble}</span>
+            {!scrambleLoading && cubeSize && (
+              <ScramblePreview scramble={scramble} size={cubeSize} cellSize={Math.round(24 / cubeSize)} />
+            )}
+          </div>
+        )}
+        <div className={`timer__time timer__time--${timer.phase} duel__time`}>
+          {timer.phase === 'ready' ? '准备' : result ? formatStat(resultTime(result)) : formatTime(timer.time)}
+        </div>
+        <div className="duel__hint">{hintText(player)}</div>
+        {result && !matchOver && (
+          <div className="penalty-toggle" onPointerDown={(e) => e.stopPropagation()}>
+            {PENALTY_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                className={`penalty-toggle__btn ${result.penalty === option.value ? 'penalty-toggle__btn--active' : ''}`}
+                onClick={() => setPenalty(player, option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+        {played.length > 0 && (
+          <div className="duel__summary">
+            最佳 {formatStat(summary.best)} · 平均 {formatStat(summary.mean)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const winnerText = () => {
+    if (score[0] === score[1]) return `平局 ${score[0]} : ${score[1]}`;
+    return `🏆 ${settings.names[score[0] > score[1] ? 0 : 1]} 获胜`;
+  };
+
+  return (
+    <div className="duel">
+      {renderHalf(1)}
+
+      <div className="duel__center">
+        {started ? (
+          <>
+            <span className="duel__score">
+              {score[0]} : {score[1]}
+            </span>
+            <span className="duel__round">
+              {matchOver ? winnerText() : `第 ${roundDone ? played.length : played.length + 1} / ${settings.rounds} 轮`}
+            </span>
+            {roundDone && !matchOver && (
+              <button className="duel__btn duel__btn--primary" onClick={nextRound}>
+                下一轮
+              </button>
+            )}
+            {matchOver && (
+              <button className="duel__btn duel__btn--primary" onClick={newMatch}>
+                再来一场
+              </button>
+            )}
+          </>
+        ) : (
+          <>
+            {([0, 1] as const).map((player) => (
+              <input
+                key={player}
+                className="duel__input"
+                aria-label={`玩家 ${player + 1} 名字`}
+                value={settings.names[player]}
+                onChange={(e) => {
+                  const names: [string, string] = [...settings.names];
+                  names[player] = e.target.value;
+                  setSettings({ ...settings, names });
+                }}
+              />
+            ))}
+            <div className="tag-list">
+              {MATCH_LENGTHS.map((n) => (
+                <button
+                  key={n}
+                  className={`tag ${settings.rounds === n ? 'tag--active' : ''}`}
+                  onClick={() => setSettings({ ...settings, rounds: n })}
+                >
+                  {n} 轮
+                </button>
+              ))}
+            </div>
+            <button className="duel__btn duel__btn--primary" onClick={() => setStarted(true)}>
+              开始对战
+            </button>
+          </>
+        )}
+        <button className="duel__btn" aria-label="退出对战" onClick={close}>
+          ✕
+        </button>
+      </div>
+
+      {renderHalf(0)}
+    </div>
+  );
+}
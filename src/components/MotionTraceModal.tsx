@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import type { DetectorConfig, ImpactKind } from '../utils/impactDetector';
+import { parseTrace, replayTrace, serializeTrace, type MotionTrace } from '../utils/motionTrace';
+import { downloadText } from '../utils/download';
+import { formatTime } from '../utils/timeFormat';
+
+interface MotionTraceModalProps {
+  recording: boolean;
+  /** 最近一次录制的轨迹 */
+  recordedTrace: MotionTrace | null;
+  /** 当前的检测参数 */
+  config: DetectorConfig;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onClose: () => void;
+}
+
+type ReplayConfig = 'recorded' | 'current';
+
+const KIND_LABELS: Record<ImpactKind, string> = {
+  tap: '轻拍',
+  lift: '拿起/放下',
+  slide: '滑动',
+};
+
+const seconds = (ms: number) => (ms / 1000).toFixed(2);
+
+/**
+ * 传感器轨迹弹窗：录制、导出 JSON、加载轨迹离线回放，查看每次冲击以及开始/停止的时刻
+ */
+export default function MotionTraceModal({
+  recording,
+  recordedTrace,
+  config,
+  onStartRecording,
+  onStopRecording,
+  onClose,
+}: MotionTraceModalProps) {
+  const [trace, setTrace] = useState<MotionTrace | null>(null);
+  const [replayConfig, setReplayConfig] = useState<ReplayConfig>('recorded');
+  const [error, setError] = useState('');
+
+  const replay = useMemo(() => {
+    if (!trace) return null;
+    return replayTrace(trace, replayConfig === 'recorded' ? trace.config : config);
+  }, [trace, replayConfig, config]);
+
+  const exportTrace = (target: MotionTrace) => {
+    const stamp = new Date(target.recordedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadText(serializeTrace(target), `cube-rush-trace-${stamp}.json`, 'application/json');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      setTrace(parseTrace(await file.text()));
+    } catch (err) {
+      setTrace(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const duration = (target: MotionTrace) =>
+    target.samples.length > 0 ? target.samples[target.samples.length - 1].t : 0;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">传感器轨迹</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <section className="trace-section">
+            <div className="trace-section__title">录制</div>
+            <p className="trace-section__desc">
+              录制期间在传感器模式下正常计时，原始加速度采样全部记录下来，导出后可在任何设备上回放复现。
+            </p>
+            <div className="trace-buttons">
+              {recording ? (
+                <button className="trace-btn trace-btn--primary" onClick={onStopRecording}>
+                  ⏹ 停止录制
+                </button>
+              ) : (
+                <button className="trace-btn trace-btn--primary" onClick={onStartRecording}>
+                  ⏺ 开始录制
+                </button>
+              )}
+            </div>
+            {recordedTrace && !recording && (
+              <div className="trace-recorded">
+                <span>
+                  已录制 {recordedTrace.samples.length} 个采样，时长 {seconds(duration(recordedTrace))} 秒
+                </span>
+                <div className="trace-buttons">
+                  <button className="trace-btn" onClick={() => exportTrace(recordedTrace)}>
+                    导出 JSON
+                  </button>
+                  <button className="trace-btn" onClick={() => setTrace(recordedTrace)}>
+                    回放
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          <section className="trace-section">
+            <div className="trace-section__title">回放</div>
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="trace-file"
+              aria-label="选择轨迹文件"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {error && <p className="trace-error">{error}</p>}
+
+            {trace && replay && (
+              <div className="trace-replay">
+                <div className="trace-replay__meta">
+                  {trace.samples.length} 个采样 · {seconds(duration(trace))} 秒
+                  {trace.recordedAt > 0 && ` · ${new Date(trace.recordedAt).toLocaleString('zh-CN')}`}
+                </div>
+
+                <div className="trace-replay__config">
+                  <button
+                    className={`trace-btn ${replayConfig === 'recorded' ? 'trace-btn--active' : ''}`}
+                    onClick={() => setReplayConfig('recorded')}
+                  >
+                    录制时参数（{trace.config.threshold.toFixed(2)} / {trace.config.cooldownMs}ms）
+                  </button>
+                  <button
+                    className={`trace-btn ${replayConfig === 'current' ? 'trace-btn--active' : ''}`}
+                    onClick={() => setReplayConfig('current')}
+                  >
+                    当前参数（{config.threshold.toFixed(2)} / {config.cooldownMs}ms）
+                  </button>
+                </div>
+
+                {replay.events.length === 0 ? (
+                  <p className="trace-replay__empty">没有检测到冲击</p>
+                ) : (
+                  <table className="trace-table">
+                    <thead>
+                      <tr>
+                        <th>时刻 (s)</th>
+                        <th>类型</th>
+                        <th>峰值</th>
+                        <th>宽度</th>
+                        <th>计时</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {replay.events.map((event) => {
+                        const trigger = replay.triggers.find((t) => t.event === event);
+                        return (
+                          <tr key={event.time} className={trigger ? 'trace-table__row--trigger' : ''}>
+                            <td>{seconds(event.time)}</td>
+                            <td>{KIND_LABELS[event.kind]}</td>
+                            <td>{event.peak.toFixed(2)}</td>
+                            <td>{Math.round(event.duration)}ms</td>
+                            <td>{trigger ? (trigger.action === 'start' ? '▶ 开始' : '■ 停止') : '忽略'}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+
+                {replay.solves.length > 0 && (
+                  <div className="trace-replay__solves">
+                    成绩：{replay.solves.map((ms) => formatTime(ms)).join('，')}
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import type { RaceConnection } from '../hooks/useRaceRoom';
+import { getPuzzle } from '../utils/puzzles';
+import {
+  roundFinished,
+  roundLeaderboard,
+  roundWins,
+  type RaceRoomState,
+  type RaceSettings,
+} from '../utils/raceProtocol';
+import { formatStat } from '../utils/timeFormat';
+
+interface RaceRoomModalProps {
+  settings: RaceSettings;
+  connection: RaceConnection;
+  room: RaceRoomState | null;
+  clientId: string;
+  error: string | null;
+  onJoin: (server: string, room: string, name: string) => void;
+  onLeave: () => void;
+  onReady: (ready: boolean) => void;
+  onClose: () => void;
+}
+
+const CONNECTION_LABELS: Record<RaceConnection, string> = {
+  idle: '未连接',
+  connecting: '正在连接…',
+  connected: '已连接',
+  reconnecting: '连接断开，正在重连…',
+};
+
+/**
+ * 联网对战弹窗：加入房间，查看玩家、准备状态与每轮排名
+ */
+export default function RaceRoomModal({
+  settings,
+  connection,
+  room,
+  clientId,
+  error,
+  onJoin,
+  onLeave,
+  onReady,
+  onClose,
+}: RaceRoomModalProps) {
+  const [server, setServer] = useState(settings.server);
+  const [roomCode, setRoomCode] = useState(settings.room ?? '');
+  const [name, setName] = useState(settings.name);
+
+  const joined = settings.room !== null;
+  const me = room?.players.find((p) => p.id === clientId);
+  const wins = room ? roundWins(room) : {};
+  const finished = room ? roundFinished(room) : false;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">联网对战</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          {!joined ? (
+            <form
+              className="race__form"
+              onSubmit={(e) => {
+                e.preventDefault();
+                onJoin(server, roomCode, name);
+              }}
+            >
+              <p className="trainer__desc">
+                在一台电脑上运行 <code>node server/relay.js</code> 启动中继，输入同一个房间号加入；
+                所有人准备后同时开始，每轮用同一条打乱
+              </p>
+              <input
+                className="setting-row__input"
+                aria-label="中继服务器地址"
+                placeholder="ws://192.168.1.10:8787"
+                value={server}
+                onChange={(e) => setServer(e.target.value)}
+              />
+              <input
+                className="setting-row__input"
+                aria-label="房间号"
+                placeholder="房间号，如 CLUB"
+                value={roomCode}
+                onChange={(e) => setRoomCode(e.target.value)}
+              />
+              <input
+                className="setting-row__input"
+                aria-label="名字"
+                placeholder="你的名字"
+                maxLength={20}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <button
+                type="submit"
+                className="trainer__btn trainer__btn--primary"
+                disabled={!server.trim() || !roomCode.trim()}
+              >
+                加入房间
+              </button>
+            </form>
+          ) : (
+            <>
+              <div className="race__status">
+                <span
+                  className={`stackmat-status__dot stackmat-status__dot--${connection === 'connected' ? 'connected' : 'waiting'}`}
+                />
+                <span>
+                  房间 {settings.room}
+                  {room && ` · ${getPuzzle(room.puzzle).name}`} · {CONNECTION_LABELS[connection]}
+                </span>
+              </div>
+
+              <div className="trainer__group">
+                <div className="trainer__group-title">玩家</div>
+                {room?.players.map((p) => (
+                  <div key={p.id} className={`race__player ${p.connected ? '' : 'race__player--offline'}`}>
+                    <span className="race__player-name">
+                      {p.name}
+                      {p.id === clientId && '（我）'}
+                      {p.id === room.hostId && ' · 房主'}
+                    </span>
+                    <span className="race__player-wins">胜 {wins[p.id] ?? 0}</span>
+                    <span className="race__player-state">{!p.connected ? '离线' : p.ready ? '✓ 已准备' : ''}</span>
+                  </div>
+                ))}
+              </div>
+
+              {room?.rounds
+                .map((round, i) => ({ round, number: i + 1 }))
+                .reverse()
+                .map(({ round, number }) => (
+                  <div key={number} className="trainer__group">
+                    <div className="trainer__group-title">
+                      第 {number} 轮{number === room.rounds.length && !finished && ' · 进行中'}
+                    </div>
+                    <div className="race__scramble">{round.scramble}</div>
+                    <ol className="race__board">
+                      {roundLeaderboard(round).map((s) => (
+                        <li key={s.id} className={`race__rank ${s.id === clientId ? 'race__rank--me' : ''}`}>
+                          <span>{s.name}</span>
+                          <span className="race__rank-time">
+                            {formatStat(s.result)}
+                            {s.penalty === '+2' && '+'}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+
+              {error && <div className="setting-row__error">{error}</div>}
+
+              <div className="trainer__actions">
+                <button className="trainer__btn" onClick={onLeave}>
+                  离开房间
+                </button>
+                {me && finished && (
+                  <button className="trainer__btn trainer__btn--primary" onClick={() => onReady(!me.ready)}>
+                    {me.ready ? '取消准备' : '准备下一轮'}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+          {!joined && error && <div className="setting-row__error">{error}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
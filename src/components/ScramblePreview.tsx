@@ -0,0 +1,82 @@
+import { useMemo } from 'react';
+import { FACE_ORDER, getFace, scrambleCube, type Face } from '../utils/cube';
+
+interface ScramblePreviewProps {
+  scramble: string;
+  size?: number;
+  /** 单个贴纸的边长 (px) */
+  cellSize?: number;
+}
+
+// 标准西方配色：白顶绿前
+const FACE_COLORS: Record<Face, string> = {
+  U: '#ffffff',
+  R: '#ff3b30',
+  F: '#00c853',
+  D: '#ffd600',
+  L: '#ff9100',
+  B: '#2962ff',
+};
+
+// 展开图中各面的位置（以面为单位）：
+//     U
+//   L F R B
+//     D
+const NET_LAYOUT: Record<Face, [number, number]> = {
+  U: [1, 0],
+  L: [0, 1],
+  F: [1, 1],
+  R: [2, 1],
+  B: [3, 1],
+  D: [1, 2],
+};
+
+const FACE_GAP = 4;
+
+/**
+ * 打乱预览：按打乱公式计算魔方状态并绘制平面展开图
+ */
+export default function ScramblePreview({ scramble, size = 3, cellSize = 10 }: ScramblePreviewProps) {
+  const state = useMemo(() => {
+    try {
+      return scrambleCube(scramble, size);
+    } catch {
+      return null;
+    }
+  }, [scramble, size]);
+
+  if (!state) return null;
+
+  const faceSize = cellSize * size;
+  const width = faceSize * 4 + FACE_GAP * 3;
+  const height = faceSize * 3 + FACE_GAP * 2;
+
+  return (
+    <svg
+      className="scramble-preview"
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      role="img"
+      aria-label="打乱后的魔方展开图"
+    >
+      {FACE_ORDER.map((face) => {
+        const [fx, fy] = NET_LAYOUT[face];
+        const ox = fx * (faceSize + FACE_GAP);
+        const oy = fy * (faceSize + FACE_GAP);
+        return getFace(state, face).map((color, i) => (
+          <rect
+            key={`${face}${i}`}
+            x={ox + (i % size) * cellSize}
+            y={oy + Math.floor(i / size) * cellSize}
+            width={cellSize}
+            height={cellSize}
+            fill={FACE_COLORS[color]}
+            stroke="#0a0a0f"
+            strokeWidth={Math.max(0.5, cellSize / 12)}
+          />
+        ));
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { getPuzzle, type PuzzleType } from '../utils/puzzles';
+import { currentPosition, normalizeSeed, randomSeed, shareUrl, type ScrambleSet } from '../utils/scrambleSet';
+
+interface ScrambleSetModalProps {
+  scrambleSet: ScrambleSet | null;
+  puzzle: PuzzleType;
+  onStart: (seed: string) => void;
+  onEnd: () => void;
+  onClose: () => void;
+}
+
+/**
+ * 打乱组弹窗：输入或随机生成种子开始打乱组，复制分享链接给队友
+ */
+export default function ScrambleSetModal({ scrambleSet, puzzle, onStart, onEnd, onClose }: ScrambleSetModalProps) {
+  const [seed, setSeed] = useState('');
+  const [copied, setCopied] = useState(false);
+  const link = scrambleSet ? shareUrl(scrambleSet.seed, puzzle) : '';
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(link).then(
+      () => setCopied(true),
+      () => setCopied(false)
+    );
+  };
+
+  const start = () => {
+    onStart(normalizeSeed(seed) ?? randomSeed());
+    setSeed('');
+    setCopied(false);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">打乱组</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <p className="trainer__desc">
+            同一个种子按相同顺序生成完全相同的打乱：把种子或链接发给队友，大家从第 1 条开始，
+            成绩会记下种子与序号，方便逐条对比
+          </p>
+
+          {scrambleSet && (
+            <div className="trainer__group">
+              <div className="trainer__group-title">当前打乱组</div>
+              <div className="scramble-set__current">
+                <span className="scramble-set__seed">{scrambleSet.seed}</span>
+                <span>
+                  {getPuzzle(puzzle).name} · 第 {currentPosition(scrambleSet, puzzle).index} 条
+                </span>
+              </div>
+              <input
+                className="setting-row__input"
+                aria-label="分享链接"
+                readOnly
+                value={link}
+                onFocus={(e) => e.target.select()}
+              />
+              <div className="trainer__actions">
+                <button className="trainer__btn" onClick={onEnd}>
+                  结束打乱组
+                </button>
+                <button className="trainer__btn trainer__btn--primary" onClick={copyLink}>
+                  {copied ? '✓ 已复制' : '复制链接'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="trainer__group">
+            <div className="trainer__group-title">{scrambleSet ? '换一个打乱组' : '开始打乱组'}</div>
+            <form
+              className="scramble-set__form"
+              onSubmit={(e) => {
+                e.preventDefault();
+                start();
+              }}
+            >
+              <input
+                className="setting-row__input"
+                aria-label="种子"
+                placeholder="输入种子，留空则随机生成"
+                maxLength={32}
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+              />
+              <button type="submit" className="trainer__btn trainer__btn--primary">
+                从第 1 条开始
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { Fragment, useEffect, useState } from 'react';
+import { downloadText } from '../utils/download';
+import { PUZZLES, getPuzzle } from '../utils/puzzles';
+import {
+  SHEET_LIMITS,
+  defaultSolves,
+  generateSheet,
+  loadSheetSettings,
+  normalizeSheetSettings,
+  saveSheetSettings,
+  sheetFileName,
+  sheetScrambleCount,
+  sheetToJson,
+  type ScrambleSheet,
+  type SheetSettings,
+} from '../utils/scrambleSheet';
+import ScramblePreview from './ScramblePreview';
+
+interface ScrambleSheetModalProps {
+  onClose: () => void;
+}
+
+type CountKey = keyof typeof SHEET_LIMITS;
+type CountTexts = Record<CountKey, string>;
+
+const COUNT_FIELDS: { key: CountKey; label: string }[] = [
+  { key: 'rounds', label: '轮数' },
+  { key: 'groups', label: '每轮组数' },
+  { key: 'solves', label: '每组打乱' },
+  { key: 'extras', label: '每组备用' },
+];
+
+function countTexts(settings: SheetSettings): CountTexts {
+  return {
+    rounds: `${settings.rounds}`,
+    groups: `${settings.groups}`,
+    solves: `${settings.solves}`,
+    extras: `${settings.extras}`,
+  };
+}
+
+/** 把输入框中的数字并入设置：超出范围的取边界，清空的保留原值 */
+function withCounts(settings: SheetSettings, texts: CountTexts): SheetSettings {
+  const counts = Object.fromEntries(
+    COUNT_FIELDS.map(({ key }) => [key, texts[key].trim() === '' ? settings[key] : Number(texts[key])])
+  );
+  return normalizeSheetSettings({ ...settings, ...counts });
+}
+
+/**
+ * 比赛打乱表：设置项目、轮次与组别后生成，按组分页打印（浏览器打印可另存为 PDF），或导出 JSON 存档
+ */
+export default function ScrambleSheetModal({ onClose }: ScrambleSheetModalProps) {
+  const [settings, setSettings] = useState(loadSheetSettings);
+  // 输入框中的原始文本，失焦或生成时才并入设置，输入中途清空不会被改回
+  const [texts, setTexts] = useState(() => countTexts(settings));
+  const [sheet, setSheet] = useState<ScrambleSheet | null>(null);
+  // 生成中已完成的条数；未在生成时为 null
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveSheetSettings(settings);
+  }, [settings]);
+
+  const update = (patch: Partial<SheetSettings>) => {
+    const next = normalizeSheetSettings({ ...withCounts(settings, texts), ...patch });
+    setSettings(next);
+    setTexts(countTexts(next));
+    return next;
+  };
+
+  const generate = () => {
+    const next = update({});
+    setProgress(0);
+    setError(null);
+    generateSheet(next, undefined, setProgress)
+      .then(setSheet)
+      .catch(() => setError('打乱表生成失败，请重试'))
+      .finally(() => setProgress(null));
+  };
+
+  if (sheet) {
+    const { name: puzzleName, cubeSize } = getPuzzle(sheet.puzzle);
+    const createdAt = new Date(sheet.createdAt).toLocaleString('zh-CN');
+    return (
+      <div className="sheet">
+        <div className="sheet__toolbar">
+          <button className="trainer__btn" onClick={() => setSheet(null)}>
+            ‹ 返回设置
+          </button>
+          <button
+            className="trainer__btn"
+            onClick={() => downloadText(sheetToJson(sheet), sheetFileName(sheet), 'application/json')}
+          >
+            导出 JSON
+          </button>
+          <button className="trainer__btn trainer__btn--primary" onClick={() => window.print()}>
+            🖨 打印
+          </button>
+          <button className="modal__close" aria-label="关闭" onClick={onClose}>
+            ✕
+          </button>
+        </div>
+
+        {sheet.rounds.map((round) =>
+          round.groups.map((group) => (
+            <section key={`${round.name}${group.name}`} className="sheet__page">
+              <header className="sheet__header">
+                <div className="sheet__competition">{sheet.competition || '打乱表'}</div>
+                <div className="sheet__round">
+                  {puzzleName} · {round.name} · {group.name} 组
+                </div>
+              </header>
+
+              <table className="sheet__table">
+                <tbody>
+                  {[...group.scrambles, ...group.extras].map((scramble, i) => {
+                    const extra = i >= group.scrambles.length;
+                    return (
+                      <Fragment key={i}>
+                        {i === group.scrambles.length && (
+                          <tr className="sheet__divider">
+                            <td colSpan={cubeSize ? 3 : 2}>备用打乱</td>
+                          </tr>
+                        )}
+                        <tr>
+                          <th className="sheet__index">{extra ? `E${i - group.scrambles.length + 1}` : i + 1}</th>
+                          <td className="sheet__scramble">{scramble}</td>
+                          {cubeSize && (
+                            <td className="sheet__preview">
+                              <ScramblePreview scramble={scramble} size={cubeSize} cellSize={Math.round(30 / cubeSize)} />
+                            </td>
+                          )}
+                        </tr>
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <footer className="sheet__footer">
+                种子 {sheet.seed} · 生成于 {createdAt}
+              </footer>
+            </section>
+          ))
+        )}
+      </div>
+    );
+  }
+
+  const total = sheetScrambleCount(withCounts(settings, texts));
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">比赛打乱表</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <p className="trainer__desc">
+            按组分页，每条打乱附展开图（NxN 项目）；用浏览器打印可另存为 PDF，导出的 JSON 中保存了全部打乱与种子
+          </p>
+
+          <input
+            className="setting-row__input sheet-setup__name"
+            aria-label="比赛名称"
+            placeholder="比赛名称，如 2026 校园魔方赛"
+            maxLength={60}
+            value={settings.competition}
+            onChange={(e) => update({ competition: e.target.value })}
+          />
+
+          <div className="trainer__group">
+            <div className="trainer__group-title">项目</div>
+            <div className="tag-list">
+              {PUZZLES.map((p) => (
+                <button
+                  key={p.id}
+                  className={`tag ${settings.puzzle === p.id ? 'tag--active' : ''}`}
+                  onClick={() => update({ puzzle: p.id, solves: defaultSolves(p.id) })}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="sheet-setup__counts">
+            {COUNT_FIELDS.map(({ key, label }) => (
+              <label key={key} className="sheet-setup__count">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  className="setting-row__input"
+                  min={SHEET_LIMITS[key][0]}
+                  max={SHEET_LIMITS[key][1]}
+                  value={texts[key]}
+                  onChange={(e) => setTexts((t) => ({ ...t, [key]: e.target.value }))}
+                  onBlur={() => update({})}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="trainer__actions">
+            <button className="trainer__btn trainer__btn--primary" disabled={progress !== null} onClick={generate}>
+              {progress === null ? `生成 ${total} 条打乱` : `正在生成 ${progress} / ${total}…`}
+            </button>
+          </div>
+          {error && <div className="setting-row__error">{error}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  createImpactDetector,
+  createMotionFilter,
+  type FilteredSample,
+  type ImpactEvent,
+  type MotionSample,
+} from '../utils/impactDetector';
+import {
+  CALIBRATION_MIN_TAPS,
+  CALIBRATION_NOISE_MS,
+  CALIBRATION_TAP_TIMEOUT_MS,
+  CALIBRATION_TAPS,
+  calibrationTapThreshold,
+  computeProfile,
+  measureNoiseFloor,
+  thresholdToSensitivity,
+  type SensorProfile,
+} from '../utils/sensorCalibration';
+
+interface SensorCalibrationProps {
+  /** 本设备已有的校准结果 */
+  profile: SensorProfile | null;
+  requestPermission: () => Promise<boolean>;
+  onSave: (profile: SensorProfile) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type Step = 'intro' | 'noise' | 'taps' | 'result' | 'failed';
+
+/** 少于这么多噪声采样说明传感器没有数据 */
+const MIN_NOISE_SAMPLES = 20;
+/** 校准时两次轻拍之间的冷却可以短一些 */
+const CALIBRATION_COOLDOWN_MS = 150;
+
+function toSample(event: DeviceMotionEvent): MotionSample | null {
+  const acc = event.accelerationIncludingGravity;
+  if (!acc || acc.x === null || acc.y === null || acc.z === null) return null;
+  return { t: performance.now(), x: acc.x, y: acc.y, z: acc.z };
+}
+
+const fmt = (value: number) => value.toFixed(2);
+
+/**
+ * 传感器校准向导：测量环境噪声 → 记录几次轻拍 → 给出阈值与冷却时间并解释
+ */
+export default function SensorCalibration({
+  profile,
+  requestPermission,
+  onSave,
+  onClear,
+  onClose,
+}: SensorCalibrationProps) {
+  const [step, setStep] = useState<Step>('intro');
+  const [progress, setProgress] = useState(0);
+  const [noiseFloor, setNoiseFloor] = useState(0);
+  const [tapCount, setTapCount] = useState(0);
+  const [movedHint, setMovedHint] = useState(false);
+  const [result, setResult] = useState<SensorProfile | null>(null);
+  const [error, setError] = useState('');
+  const finishTapsRef = useRef<(() => void) | null>(null);
+
+  const begin = async () => {
+    if (!(await requestPermission())) {
+      setError('没有获得传感器权限，无法校准');
+      setStep('failed');
+      return;
+    }
+    setProgress(0);
+    setTapCount(0);
+    setMovedHint(false);
+    setStep('noise');
+  };
+
+  // 第一步：保持安静，测量环境噪声
+  useEffect(() => {
+    if (step !== 'noise') return;
+    const filter = createMotionFilter();
+    const levels: number[] = [];
+    const handleMotion = (event: DeviceMotionEvent) => {
+      const sample = toSample(event);
+      const filtered = sample && filter.push(sample);
+      if (filtered) levels.push(filtered.magnitude);
+    };
+    const startedAt = performance.now();
+    const progressTimer = setInterval(() => {
+      setProgress(Math.min(1, (performance.now() - startedAt) / CALIBRATION_NOISE_MS));
+    }, 100);
+    const doneTimer = setTimeout(() => {
+      if (levels.length < MIN_NOISE_SAMPLES) {
+        setError('没有收到传感器数据：请确认浏览器支持并允许访问加速度传感器');
+        setStep('failed');
+        return;
+      }
+      setNoiseFloor(measureNoiseFloor(levels));
+      setStep('taps');
+    }, CALIBRATION_NOISE_MS);
+
+    window.addEventListener('devicemotion', handleMotion);
+    return () => {
+      clearInterval(progressTimer);
+      clearTimeout(doneTimer);
+      window.removeEventListener('devicemotion', handleMotion);
+    };
+  }, [step]);
+
+  // 第二步：记录轻拍，同时保存滤波后的采样用于测量余震
+  useEffect(() => {
+    if (step !== 'taps') return;
+    const filter = createMotionFilter();
+    const detector = createImpactDetector({
+      threshold: calibrationTapThreshold(noiseFloor),
+      cooldownMs: CALIBRATION_COOLDOWN_MS,
+    });
+    const trace: FilteredSample[] = [];
+    const taps: ImpactEvent[] = [];
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      try {
+        setResult(computeProfile(noiseFloor, taps, trace));
+        setStep('result');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        setStep('failed');
+      }
+    };
+    finishTapsRef.current = finish;
+
+    const handleMotion = (event: DeviceMotionEvent) => {
+      const sample = toSample(event);
+      if (!sample || finished) return;
+      const filtered = filter.push(sample);
+      if (filtered) trace.push(filtered);
+      const impact = detector.push(sample);
+      if (!impact) return;
+      if (impact.kind !== 'tap') {
+        setMovedHint(true);
+        return;
+      }
+      taps.push(impact);
+      setTapCount(taps.length);
+      // 最后一次轻拍之后再等一会儿，让余震也被记录下来
+      if (taps.length >= CALIBRATION_TAPS) setTimeout(finish, 1000);
+    };
+    const timeout = setTimeout(finish, CALIBRATION_TAP_TIMEOUT_MS);
+
+    window.addEventListener('devicemotion', handleMotion);
+    return () => {
+      finished = true;
+      finishTapsRef.current = null;
+      clearTimeout(timeout);
+      window.removeEventListener('devicemotion', handleMotion);
+    };
+  }, [step, noiseFloor]);
+
+  const save = () => {
+    if (result) onSave(result);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">传感器校准</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          {step === 'intro' && (
+            <>
+              <ol className="calibration__steps">
+                <li>把手机平放在平时计时用的桌面上</li>
+                <li>保持安静 {CALIBRATION_NOISE_MS / 1000} 秒，测量环境振动</li>
+                <li>用魔方在手机旁轻拍桌面 {CALIBRATION_TAPS} 次，力度和平时开始、停止计时一样</li>
+              </ol>
+              {profile && (
+                <p className="calibration__current">
+                  已校准：阈值 {fmt(profile.threshold)} m/s²，冷却 {profile.cooldownMs} ms（
+                  {new Date(profile.date).toLocaleDateString('zh-CN')}）
+                </p>
+              )}
+              <div className="calibration__actions">
+                {profile && (
+                  <button className="calibration__btn" onClick={onClear}>
+                    清除校准
+                  </button>
+                )}
+                <button className="calibration__btn calibration__btn--primary" onClick={begin}>
+                  开始校准
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'noise' && (
+            <>
+              <p className="calibration__prompt">保持安静，不要触碰手机和桌面…</p>
+              <div className="calibration__progress">
+                <div className="calibration__progress-bar" style={{ width: `${progress * 100}%` }} />
+              </div>
+            </>
+          )}
+
+          {step === 'taps' && (
+            <>
+              <p className="calibration__prompt">
+                轻拍桌面：{tapCount} / {CALIBRATION_TAPS}
+              </p>
+              <div className="calibration__dots">
+                {Array.from({ length: CALIBRATION_TAPS }, (_, i) => (
+                  <i key={i} className={`calibration__dot ${i < tapCount ? 'calibration__dot--done' : ''}`} />
+                ))}
+              </div>
+              <p className="calibration__hint">
+                环境噪声 {fmt(noiseFloor)} m/s²
+                {movedHint && ' · 检测到手机被移动，请保持手机不动，只拍桌面'}
+              </p>
+              <div className="calibration__actions">
+                <button
+                  className="calibration__btn"
+                  disabled={tapCount < CALIBRATION_MIN_TAPS}
+                  onClick={() => finishTapsRef.current?.()}
+                >
+                  完成（至少 {CALIBRATION_MIN_TAPS} 次）
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'result' && result && (
+            <>
+              <dl className="calibration__result">
+                <dt>环境噪声</dt>
+                <dd>{fmt(result.noiseFloor)} m/s²</dd>
+                <dt>轻拍峰值</dt>
+                <dd>
+                  {fmt(Math.min(...result.tapPeaks))} – {fmt(Math.max(...result.tapPeaks))} m/s²
+                </dd>
+                <dt>冲击阈值</dt>
+                <dd>
+                  {fmt(result.threshold)} m/s²（灵敏度 {thresholdToSensitivity(result.threshold)}）
+                </dd>
+                <dt>冷却时间</dt>
+                <dd>{result.cooldownMs} ms</dd>
+              </dl>
+              <p className="calibration__explain">
+                阈值是环境噪声的 {(result.threshold / Math.max(result.noiseFloor, 0.01)).toFixed(1)} 倍，
+                只有最轻一次轻拍的 {Math.round((result.threshold / Math.min(...result.tapPeaks)) * 100)}%：
+                桌面的细微振动不会触发，力度稍轻的轻拍也能识别。
+                轻拍后的余震最长持续 {Math.round(result.aftershockMs)} ms，冷却时间覆盖余震，避免一次轻拍触发两次。
+                保存后灵敏度滑块移到对应位置，之后仍可手动微调。
+              </p>
+              <div className="calibration__actions">
+                <button className="calibration__btn" onClick={begin}>
+                  重新校准
+                </button>
+                <button className="calibration__btn calibration__btn--primary" onClick={save}>
+                  保存
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'failed' && (
+            <>
+              <p className="calibration__error">{error}</p>
+              <div className="calibration__actions">
+                <button className="calibration__btn calibration__btn--primary" onClick={begin}>
+                  重试
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import type { Session, SolveRecord } from '../types';
+import type { PuzzleType } from '../utils/puzzles';
+import { formatStat, resultTime } from '../utils/timeFormat';
+import { calcAoN, calcBest } from '../utils/stats';
+
+interface SessionManagerProps {
+  sessions: Session[];
+  activeSessionId: string;
+  records: SolveRecord[];
+  puzzle: PuzzleType;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onSwitch: (id: string) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+/** 会话在当前项目下的统计：次数 / 最佳 / Ao5 / Ao12 */
+function sessionSummary(records: SolveRecord[]) {
+  const times = records.map(resultTime);
+  return {
+    count: records.length,
+    best: formatStat(calcBest(times)),
+    ao5: formatStat(calcAoN(times, 5)),
+    ao12: formatStat(calcAoN(times, 12)),
+  };
+}
+
+/**
+ * 会话管理弹窗：新建、重命名、切换、合并、删除会话，并显示各会话的统计
+ */
+export default function SessionManager({
+  sessions,
+  activeSessionId,
+  records,
+  puzzle,
+  onCreate,
+  onRename,
+  onSwitch,
+  onMerge,
+  onDelete,
+  onClose,
+}: SessionManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  const startRename = (session: Session) => {
+    setMergingId(null);
+    setEditingId(session.id);
+    setEditingName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  const handleMerge = (sourceId: string, targetId: string) => {
+    const source = sessions.find((s) => s.id === sourceId);
+    const target = sessions.find((s) => s.id === targetId);
+    if (!source || !target) return;
+    if (!window.confirm(`把「${source.name}」的全部成绩并入「${target.name}」并删除「${source.name}」？`)) return;
+    onMerge(sourceId, targetId);
+    setMergingId(null);
+  };
+
+  const handleDelete = (session: Session) => {
+    if (!window.confirm(`删除「${session.name}」及其全部成绩？此操作无法撤销。`)) return;
+    onDelete(session.id);
+  };
+
+  const handleCreate = () => {
+    onCreate(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">会话</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <div className="session-list">
+            {sessions.map((session) => {
+              const summary = sessionSummary(
+                records.filter((r) => r.sessionId === session.id && r.puzzle === puzzle)
+              );
+              const active = session.id === activeSessionId;
+              return (
+                <div key={session.id} className={`session-item ${active ? 'session-item--active' : ''}`}>
+                  <div className="session-item__main" onClick={() => onSwitch(session.id)}>
+                    {editingId === session.id ? (
+                      <input
+                        className="session-item__input"
+                        aria-label="会话名称"
+                        value={editingName}
+                        autoFocus
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                      />
+                    ) : (
+                      <span className="session-item__name">
+                        {active && '● '}
+                        {session.name}
+                      </span>
+                    )}
+                    <span className="session-item__stats">
+                      {summary.count} 次 · 最佳 {summary.best} · Ao5 {summary.ao5} · Ao12 {summary.ao12}
+                    </span>
+                  </div>
+
+                  <div className="session-item__actions">
+                    <button className="session-item__btn" aria-label="重命名" onClick={() => startRename(session)}>
+                      ✎
+                    </button>
+                    {sessions.length > 1 && (
+                      <>
+                        <button
+                          className="session-item__btn"
+                          aria-label="合并到其他会话"
+                          onClick={() => setMergingId(mergingId === session.id ? null : session.id)}
+                        >
+                          ⇄
+                        </button>
+                        <button
+                          className="session-item__btn session-item__btn--danger"
+                          aria-label="删除会话"
+                          onClick={() => handleDelete(session)}
+                        >
+                          🗑
+                        </button>
+                      </>
+                    )}
+                  </div>
+
+                  {mergingId === session.id && (
+                    <div className="session-item__merge">
+                      <span>并入：</span>
+                      {sessions
+                        .filter((s) => s.id !== session.id)
+                        .map((target) => (
+                          <button
+                            key={target.id}
+                            className="session-item__merge-target"
+                            onClick={() => handleMerge(session.id, target.id)}
+                          >
+                            {target.name}
+                          </button>
+                        ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="session-create">
+            <input
+              className="session-create__input"
+              placeholder="新会话名称，如 单手练习"
+              aria-label="新会话名称"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            />
+            <button className="session-create__btn" onClick={handleCreate}>
+              ＋ 新建
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { parseStepNames, STEP_PRESETS } from '../utils/splits';
+import { CUE_OPTIONS, type AudioSettings } from '../utils/audioCues';
+
+interface SettingsModalProps {
+  inspectionEnabled: boolean;
+  onInspectionChange: (enabled: boolean) => void;
+  /** 分段计时的段名，空数组表示不分段 */
+  stepNames: string[];
+  onStepNamesChange: (names: string[]) => void;
+  audioSettings: AudioSettings;
+  onAudioSettingsChange: (settings: AudioSettings) => void;
+  onOpenDataTransfer: () => void;
+  onOpenMotionTrace: () => void;
+  onOpenScrambleSheet: () => void;
+  onClose: () => void;
+}
+
+/**
+ * 设置弹窗
+ */
+export default function SettingsModal({
+  inspectionEnabled,
+  onInspectionChange,
+  stepNames,
+  onStepNamesChange,
+  audioSettings,
+  onAudioSettingsChange,
+  onOpenDataTransfer,
+  onOpenMotionTrace,
+  onOpenScrambleSheet,
+  onClose,
+}: SettingsModalProps) {
+  const [stepInput, setStepInput] = useState(stepNames.join(', '));
+  const [stepError, setStepError] = useState('');
+
+  // 输入合法时立即生效
+  const commitSteps = (value: string) => {
+    setStepInput(value);
+    try {
+      onStepNamesChange(parseStepNames(value));
+      setStepError('');
+    } catch (err) {
+      setStepError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const activePreset = STEP_PRESETS.find((p) => p.steps.join() === stepNames.join());
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">设置</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <label className="setting-row">
+            <div className="setting-row__text">
+              <span className="setting-row__title">WCA 观察</span>
+              <span className="setting-row__desc">
+                计时前先进行 15 秒观察：超过 15 秒开始记 +2，超过 17 秒记 DNF
+              </span>
+            </div>
+            <input
+              type="checkbox"
+              className="switch"
+              checked={inspectionEnabled}
+              onChange={(e) => onInspectionChange(e.target.checked)}
+            />
+          </label>
+
+          <div className="setting-row setting-row--column">
+            <div className="setting-row__text">
+              <span className="setting-row__title">分段计时</span>
+              <span className="setting-row__desc">
+                计时中每拍一次记录一段，最后一段才停止；成绩详情和统计中可查看各段用时
+              </span>
+            </div>
+            <div className="tag-list">
+              <button
+                className={`tag ${stepNames.length === 0 ? 'tag--active' : ''}`}
+                onClick={() => commitSteps('')}
+              >
+                不分段
+              </button>
+              {STEP_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  className={`tag ${activePreset === preset ? 'tag--active' : ''}`}
+                  onClick={() => commitSteps(preset.steps.join(', '))}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <input
+              className="setting-row__input"
+              aria-label="分段名称"
+              placeholder="自定义段名，用逗号分隔，如 Cross, F2L, OLL, PLL"
+              value={stepInput}
+              onChange={(e) => commitSteps(e.target.value)}
+            />
+            {stepError && <span className="setting-row__error">{stepError}</span>}
+          </div>
+
+          <div className="setting-row setting-row--column">
+            <div className="setting-row__text">
+              <span className="setting-row__title">声音提示</span>
+              <span className="setting-row__desc">看着魔方时也能知道观察时间与成绩</span>
+            </div>
+            {CUE_OPTIONS.map((cue) => (
+              <label key={cue.key} className="audio-cue">
+                <div className="setting-row__text">
+                  <span className="audio-cue__title">{cue.title}</span>
+                  <span className="setting-row__desc">{cue.desc}</span>
+                </div>
+                <input
+                  type="checkbox"
+                  className="switch"
+                  checked={audioSettings.cues[cue.key]}
+                  onChange={(e) =>
+                    onAudioSettingsChange({
+                      ...audioSettings,
+                      cues: { ...audioSettings.cues, [cue.key]: e.target.checked },
+                    })
+                  }
+                />
+              </label>
+            ))}
+            <label className="audio-cue">
+              <span className="audio-cue__title">音量 {Math.round(audioSettings.volume * 100)}%</span>
+              <input
+                type="range"
+                className="sensitivity-slider__input audio-cue__volume"
+                aria-label="提示音量"
+                min={0}
+                max={100}
+                value={Math.round(audioSettings.volume * 100)}
+                onChange={(e) => onAudioSettingsChange({ ...audioSettings, volume: parseInt(e.target.value, 10) / 100 })}
+              />
+            </label>
+          </div>
+
+          <button className="setting-row setting-row--button" onClick={onOpenDataTransfer}>
+            <div className="setting-row__text">
+              <span className="setting-row__title">导入 / 导出成绩</span>
+              <span className="setting-row__desc">csTimer、Twisty Timer、CSV</span>
+            </div>
+            <span className="setting-row__arrow">›</span>
+          </button>
+
+          <button className="setting-row setting-row--button" onClick={onOpenScrambleSheet}>
+            <div className="setting-row__text">
+              <span className="setting-row__title">比赛打乱表</span>
+              <span className="setting-row__desc">按项目、轮次和组别生成打乱，打印或另存为 PDF</span>
+            </div>
+            <span className="setting-row__arrow">›</span>
+          </button>
+
+          <button className="setting-row setting-row--button" onClick={onOpenMotionTrace}>
+            <div className="setting-row__text">
+              <span className="setting-row__title">传感器轨迹</span>
+              <span className="setting-row__desc">录制加速度数据并导出，或加载轨迹回放检测结果</span>
+            </div>
+            <span className="setting-row__arrow">›</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
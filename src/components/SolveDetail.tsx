@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import type { InputMode, SolveRecord } from '../types';
+import { getPuzzle } from '../utils/puzzles';
+import { PENALTY_OPTIONS, formatPreciseTime, resultTime } from '../utils/timeFormat';
+import ScramblePreview from './ScramblePreview';
+
+interface SolveDetailProps {
+  record: SolveRecord;
+  /** 在当前会话当前项目中的序号（从 1 开始） */
+  number: number;
+  /** 已使用过的全部标签，用于快速添加 */
+  knownTags: string[];
+  onUpdate: (patch: Partial<Omit<SolveRecord, 'id'>>) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  stackmat: '🤚 Stackmat',
+  sensor: '📱 传感器',
+  hardware: '⏱ 计时器',
+  typing: '⌨️ 手动输入',
+};
+
+/** 标签去掉首尾空白，多个空白合并为一个 */
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * 成绩详情：精确用时、判罚、分段、打乱与预览、时间、计时方式、备注和标签
+ */
+export default function SolveDetail({ record, number, knownTags, onUpdate, onDelete, onClose }: SolveDetailProps) {
+  const [comment, setComment] = useState(record.comment ?? '');
+  const [tagInput, setTagInput] = useState('');
+  const tags = record.tags ?? [];
+  const { cubeSize } = getPuzzle(record.puzzle);
+  const suggestions = knownTags.filter((t) => !tags.includes(t));
+  // 各段结束的时刻（从开始算起）
+  const splitEnds = (record.splits ?? []).reduce<number[]>((ends, s) => [...ends, (ends.at(-1) ?? 0) + s.time], []);
+
+  const commitComment = () => {
+    const trimmed = comment.trim();
+    if (trimmed !== (record.comment ?? '')) onUpdate({ comment: trimmed || undefined });
+  };
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    setTagInput('');
+    if (!tag || tags.includes(tag)) return;
+    onUpdate({ tags: [...tags, tag] });
+  };
+
+  const removeTag = (tag: string) => {
+    const next = tags.filter((t) => t !== tag);
+    onUpdate({ tags: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">第 {number} 次</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <div className="solve-detail__time">
+            {record.penalty === 'DNF'
+              ? 'DNF'
+              : `${formatPreciseTime(resultTime(record))}${record.penalty === '+2' ? '+' : ''}`}
+          </div>
+          {record.penalty && <div className="solve-detail__raw">原始用时 {formatPreciseTime(record.time)}</div>}
+
+          <div className="penalty-toggle solve-detail__penalty">
+            {PENALTY_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                className={`penalty-toggle__btn ${record.penalty === option.value ? 'penalty-toggle__btn--active' : ''}`}
+                onClick={() => onUpdate({ penalty: option.value })}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <dl className="solve-detail__meta">
+            <dt>时间</dt>
+            <dd>{new Date(record.date).toLocaleString('zh-CN')}</dd>
+            <dt>项目</dt>
+            <dd>{getPuzzle(record.puzzle).name}</dd>
+            <dt>计时方式</dt>
+            <dd>{record.inputMode ? INPUT_MODE_LABELS[record.inputMode] : '未记录'}</dd>
+            {record.scrambleSet && (
+              <>
+                <dt>打乱组</dt>
+                <dd>
+                  {record.scrambleSet.seed} · 第 {record.scrambleSet.index} 条
+                </dd>
+              </>
+            )}
+          </dl>
+
+          {record.splits && (
+            <div className="solve-detail__section">
+              <div className="solve-detail__label">分段</div>
+              <table className="split-table">
+                <tbody>
+                  {record.splits.map((s, i) => (
+                    <tr key={`${i}-${s.name}`}>
+                      <td>{s.name}</td>
+                      <td>{formatPreciseTime(s.time)}</td>
+                      <td className="split-table__muted">
+                        {formatPreciseTime(splitEnds[i])}
+                      </td>
+                      <td className="split-table__muted">{Math.round((s.time / record.time) * 100)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="solve-detail__section">
+            <div className="solve-detail__label">打乱</div>
+            <div className="solve-detail__scramble">{record.scramble || '（无）'}</div>
+            {cubeSize && record.scramble && (
+              <div className="solve-detail__preview">
+                <ScramblePreview scramble={record.scramble} size={cubeSize} cellSize={Math.round(36 / cubeSize)} />
+              </div>
+            )}
+          </div>
+
+          <div className="solve-detail__section">
+            <div className="solve-detail__label">备注</div>
+            <textarea
+              className="solve-detail__comment"
+              aria-label="备注"
+              placeholder="如：十字做得不好"
+              rows={2}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              onBlur={commitComment}
+            />
+          </div>
+
+          <div className="solve-detail__section">
+            <div className="solve-detail__label">标签</div>
+            <div className="tag-list">
+              {tags.map((tag) => (
+                <button key={tag} className="tag tag--active" aria-label={`移除标签 ${tag}`} onClick={() => removeTag(tag)}>
+                  {tag} ✕
+                </button>
+              ))}
+              {suggestions.map((tag) => (
+                <button key={tag} className="tag" onClick={() => addTag(tag)}>
+                  ＋ {tag}
+                </button>
+              ))}
+            </div>
+            <input
+              className="solve-detail__tag-input"
+              aria-label="新标签"
+              placeholder="新标签，如 lockup、PLL skip，回车添加"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTag(tagInput)}
+              onBlur={() => tagInput && addTag(tagInput)}
+            />
+          </div>
+
+          <button
+            className="solve-detail__delete"
+            onClick={() => {
+              if (!window.confirm('删除这次成绩？')) return;
+              onDelete();
+            }}
+          >
+            🗑 删除这次成绩
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import type { SolveRecord } from '../types';
+import { formatResult, formatStat, resultTime } from '../utils/timeFormat';
+import { countUnder, formatRate, successRate, trimmedIndices, type SolveStats } from '../utils/stats';
+import { stepAverages } from '../utils/splits';
+
+/** 一组要查看的成绩：按时间先后的起点与次数 */
+export interface StatSelection {
+  title: string;
+  start: number;
+  size: number;
+  trim: number;
+}
+
+interface StatsModalProps {
+  /** 当前会话当前项目的成绩（最新在前） */
+  records: SolveRecord[];
+  stats: SolveStats;
+  /** 目标时间（毫秒），null 表示未设置 */
+  targetTime: number | null;
+  onTargetTimeChange: (target: number | null) => void;
+  initialSelection?: StatSelection | null;
+  onClose: () => void;
+}
+
+function formatDate(date: number): string {
+  const d = new Date(date);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getMonth() + 1}/${d.getDate()} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/**
+ * 统计弹窗：各项 MoN / AoN 的当前与最佳、平均值、标准差、目标时间达成次数、分段平均；
+ * 点击某项查看组成它的成绩
+ */
+export default function StatsModal({
+  records,
+  stats,
+  targetTime,
+  onTargetTimeChange,
+  initialSelection = null,
+  onClose,
+}: StatsModalProps) {
+  const [selection, setSelection] = useState<StatSelection | null>(initialSelection);
+  const [targetInput, setTargetInput] = useState(targetTime !== null ? (targetTime / 1000).toString() : '');
+
+  // 按时间先后取第 index 次
+  const recordAt = (index: number) => records[records.length - 1 - index];
+  const times = records.map(resultTime);
+  const steps = stepAverages(records);
+  // 平均用时占比最大的一段最值得练习
+  const maxShare = Math.max(0, ...steps.map((step) => step.share));
+
+  const commitTarget = (value: string) => {
+    setTargetInput(value);
+    const seconds = parseFloat(value);
+    onTargetTimeChange(seconds > 0 ? Math.round(seconds * 1000) : null);
+  };
+
+  const selectCurrent = (title: string, size: number, trim: number) =>
+    setSelection({ title, start: stats.count - size, size, trim });
+
+  const renderSelection = ({ title, start, size, trim }: StatSelection) => {
+    const solves = Array.from({ length: size }, (_, i) => recordAt(start + i)).filter(Boolean);
+    const trimmed = trimmedIndices(solves.map(resultTime), trim);
+    return (
+      <>
+        <button className="stats-detail__back" onClick={() => setSelection(null)}>
+          ← 全部统计
+        </button>
+        <div className="stats-detail__title">{title}</div>
+        <div className="stats-detail__list">
+          {solves.map((record, i) => (
+            <div key={record.id} className="stats-detail__item">
+              <span className="stats-detail__index">#{start + i + 1}</span>
+              <span className={`stats-detail__time ${trimmed.has(i) ? 'stats-detail__time--trimmed' : ''}`}>
+                {trimmed.has(i) ? `(${formatResult(record)})` : formatResult(record)}
+              </span>
+              <span className="stats-detail__date">{formatDate(record.date)}</span>
+              <span className="stats-detail__scramble">{record.scramble}</span>
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  const renderTable = () => (
+    <>
+      <div className="stats-table">
+        <div className="stats-table__row stats-table__row--head">
+          <span />
+          <span>当前</span>
+          <span>最佳</span>
+        </div>
+        <div className="stats-table__row">
+          <span className="stats-table__label">单次</span>
+          <button
+            className="stats-table__cell"
+            disabled={stats.count === 0}
+            onClick={() => selectCurrent('最近一次', 1, 0)}
+          >
+            {formatStat(stats.count > 0 ? times[0] : null)}
+          </button>
+          <button
+            className="stats-table__cell"
+            disabled={stats.bestIndex === -1}
+            onClick={() => setSelection({ title: '最佳单次', start: stats.bestIndex, size: 1, trim: 0 })}
+          >
+            {formatStat(stats.best)}
+          </button>
+        </div>
+        {stats.averages.map(({ def, current, best, bestStart }) => (
+          <div key={def.key} className="stats-table__row">
+            <span className="stats-table__label">{def.label}</span>
+            <button
+              className="stats-table__cell"
+              disabled={current === null}
+              onClick={() => selectCurrent(`当前 ${def.label}：${formatStat(current)}`, def.size, def.trim)}
+            >
+              {formatStat(current)}
+            </button>
+            <button
+              className="stats-table__cell"
+              disabled={best === null}
+              onClick={() =>
+                setSelection({ title: `最佳 ${def.label}：${formatStat(best)}`, start: bestStart, size: def.size, trim: def.trim })
+              }
+            >
+              {formatStat(best)}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="stats-summary">
+        <button
+          className="stats-summary__item"
+          disabled={stats.count === 0}
+          onClick={() =>
+            setSelection({ title: `全部 ${stats.count} 次 · 平均 ${formatStat(stats.mean)}`, start: 0, size: stats.count, trim: 0 })
+          }
+        >
+          <span className="stats-summary__label">平均</span>
+          <span className="stats-summary__value">{formatStat(stats.mean)}</span>
+        </button>
+        <div className="stats-summary__item">
+          <span className="stats-summary__label">标准差 σ</span>
+          <span className="stats-summary__value">
+            {stats.stdDev !== null ? (stats.stdDev / 1000).toFixed(2) : '--'}
+          </span>
+        </div>
+        <div className="stats-summary__item">
+          <span className="stats-summary__label">有效 / 总次数</span>
+          <span className="stats-summary__value">
+            {stats.validCount}/{stats.count}
+            {stats.validCount < stats.count && ` · ${formatRate(successRate(stats))}`}
+          </span>
+        </div>
+      </div>
+
+      <div className="stats-target">
+        <label className="stats-target__label">
+          目标
+          <input
+            className="stats-target__input"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step={0.01}
+            placeholder="秒"
+            aria-label="目标时间（秒）"
+            value={targetInput}
+            onChange={(e) => commitTarget(e.target.value)}
+          />
+          秒
+        </label>
+        <span className="stats-target__count">
+          {targetTime !== null ? `${countUnder(times, targetTime)} 次低于目标` : '设置目标时间统计达成次数'}
+        </span>
+      </div>
+
+      {steps.length > 0 && (
+        <div className="step-stats">
+          <div className="step-stats__title">分段平均</div>
+          <table className="split-table">
+            <thead>
+              <tr>
+                <th>段</th>
+                <th>平均</th>
+                <th>最近 12</th>
+                <th>最佳</th>
+                <th>占比</th>
+              </tr>
+            </thead>
+            <tbody>
+              {steps.map((step, i) => (
+                <tr key={`${i}-${step.name}`} className={step.share === maxShare ? 'split-table__row--focus' : ''}>
+                  <td>
+                    {step.name} <span className="split-table__muted">×{step.count}</span>
+                  </td>
+                  <td>{formatStat(step.mean)}</td>
+                  <td>{formatStat(step.recent)}</td>
+                  <td>{formatStat(step.best)}</td>
+                  <td>{Math.round(step.share * 100)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">统计</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">{selection ? renderSelection(selection) : renderTable()}</div>
+      </div>
+    </div>
+  );
+}
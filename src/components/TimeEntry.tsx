@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import type { Penalty } from '../types';
+import { formatResult, parseTimeInput } from '../utils/timeFormat';
+
+interface TimeEntryProps {
+  /** 打乱生成中时不能保存 */
+  disabled: boolean;
+  onSubmit: (time: number, penalty: Penalty | undefined) => void;
+}
+
+/** 输入未完成时不显示预览 */
+function preview(text: string): string {
+  try {
+    return formatResult(parseTimeInput(text));
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * 手动输入成绩：用其他设备计时后把成绩输进来，回车保存，保存后清空等待下一次
+ */
+export default function TimeEntry({ disabled, onSubmit }: TimeEntryProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { time, penalty } = parseTimeInput(text);
+      onSubmit(time, penalty);
+      setText('');
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const parsed = text.trim() ? preview(text) : '';
+
+  return (
+    <form className="time-entry" onSubmit={submit}>
+      <div className="time-entry__row">
+        <input
+          className="time-entry__input"
+          autoFocus
+          autoComplete="off"
+          enterKeyHint="done"
+          placeholder="1234、12.34、1:02.34+"
+          aria-label="输入成绩"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError('');
+          }}
+        />
+        <button className="time-entry__submit" type="submit" disabled={disabled || !text.trim()}>
+          保存
+        </button>
+      </div>
+      <div className={`time-entry__preview ${error ? 'time-entry__preview--error' : ''}`}>
+        {error || (parsed ? `= ${parsed}` : '末尾加 + 记为 +2，加 DNF 记为 DNF')}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,64 @@
+import { formatTime } from '../utils/timeFormat';
+import { histogram, linearTicks } from '../utils/chart';
+
+interface TimeHistogramProps {
+  times: number[];
+  /** 区间宽度（毫秒） */
+  bucket: number;
+}
+
+const WIDTH = 360;
+const HEIGHT = 200;
+const MARGIN = { top: 10, right: 8, bottom: 22, left: 28 };
+const PLOT_W = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_H = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+/**
+ * 成绩分布直方图：每个区间的次数，DNF 不计入
+ */
+export default function TimeHistogram({ times, bucket }: TimeHistogramProps) {
+  const bins = histogram(times, bucket);
+  if (bins.length === 0) return <div className="chart-empty">没有可统计的成绩</div>;
+
+  const maxCount = Math.max(...bins.map((b) => b.count));
+  const barW = PLOT_W / bins.length;
+  const y = (count: number) => MARGIN.top + (1 - count / maxCount) * PLOT_H;
+  // 横轴标签最多 6 个
+  const labelEvery = Math.ceil(bins.length / 6);
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="成绩分布直方图">
+      {linearTicks(0, maxCount, 4)
+        .filter((t) => Number.isInteger(t))
+        .map((t) => (
+          <g key={t}>
+            <line className="chart__grid" x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(t)} y2={y(t)} />
+            <text className="chart__label" x={MARGIN.left - 4} y={y(t) + 3} textAnchor="end">
+              {t}
+            </text>
+          </g>
+        ))}
+      {bins.map((bin, i) => (
+        <g key={bin.from}>
+          <rect
+            className="chart__bar"
+            x={MARGIN.left + i * barW + 0.5}
+            y={y(bin.count)}
+            width={Math.max(1, barW - 1)}
+            height={MARGIN.top + PLOT_H - y(bin.count)}
+          >
+            <title>
+              {bin.to === Infinity ? `≥ ${formatTime(bin.from)}` : `${formatTime(bin.from)} - ${formatTime(bin.to)}`}：
+              {bin.count} 次
+            </title>
+          </rect>
+          {i % labelEvery === 0 && (
+            <text className="chart__label" x={MARGIN.left + i * barW} y={HEIGHT - 6} textAnchor="start">
+              {formatTime(bin.from)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
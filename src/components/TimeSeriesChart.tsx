@@ -0,0 +1,211 @@
+import { useEffect, useRef } from 'react';
+import { DNF, formatTime } from '../utils/timeFormat';
+import { dateTicks, linearTicks, zoomRange, type DateRange } from '../utils/chart';
+
+export interface ChartPoint {
+  /** 按时间先后的下标 */
+  index: number;
+  date: number;
+  time: number;
+}
+
+export interface ChartLine {
+  label: string;
+  color: string;
+  /** 与 points 一一对应，没有值时为 null */
+  values: (number | null)[];
+}
+
+interface TimeSeriesChartProps {
+  points: ChartPoint[];
+  lines: ChartLine[];
+  range: DateRange;
+  onRangeChange: (range: DateRange) => void;
+  onSelect: (index: number) => void;
+}
+
+const WIDTH = 360;
+const HEIGHT = 220;
+const MARGIN = { top: 10, right: 8, bottom: 22, left: 40 };
+const PLOT_W = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_H = HEIGHT - MARGIN.top - MARGIN.bottom;
+/** 轻点与拖动的分界（viewBox 单位） */
+const TAP_SLOP = 4;
+const TAP_RADIUS = 14;
+
+/**
+ * 成绩走势图：横轴为日期，纵轴为成绩，叠加滚动平均线
+ *
+ * 拖动平移、滚轮或双指缩放日期范围，轻点某一次成绩将其选中。
+ */
+export default function TimeSeriesChart({ points, lines, range, onRangeChange, onSelect }: TimeSeriesChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointersRef = useRef(new Map<number, { x: number; startX: number; startY: number }>());
+  const pinchRef = useRef<number | null>(null);
+
+  const { from, to } = range;
+  const visible = points.filter((p) => p.date >= from && p.date <= to);
+  // 纵轴范围同时容纳可见的成绩与平均线
+  let minTime = Infinity;
+  let maxTime = -Infinity;
+  points.forEach((p, i) => {
+    if (p.date < from || p.date > to) return;
+    for (const v of [p.time, ...lines.map((line) => line.values[i])]) {
+      if (v === null || v === DNF) continue;
+      minTime = Math.min(minTime, v);
+      maxTime = Math.max(maxTime, v);
+    }
+  });
+  if (minTime > maxTime) {
+    minTime = 0;
+    maxTime = 10000;
+  }
+  const pad = Math.max(500, (maxTime - minTime) * 0.08);
+  const yMin = Math.max(0, minTime - pad);
+  const yMax = maxTime + pad;
+
+  const x = (date: number) => MARGIN.left + ((date - from) / (to - from)) * PLOT_W;
+  const y = (time: number) => MARGIN.top + (1 - (time - yMin) / (yMax - yMin)) * PLOT_H;
+
+  // 屏幕坐标 → viewBox 坐标
+  const toViewBox = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      vx: ((clientX - rect.left) / rect.width) * WIDTH,
+      vy: ((clientY - rect.top) / rect.height) * HEIGHT,
+    };
+  };
+  const dateAt = (vx: number) => from + ((vx - MARGIN.left) / PLOT_W) * (to - from);
+
+  // 滚轮缩放：需要非被动监听才能阻止弹窗滚动
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const vx = ((e.clientX - rect.left) / rect.width) * WIDTH;
+      const anchor = from + ((vx - MARGIN.left) / PLOT_W) * (to - from);
+      onRangeChange(zoomRange({ from, to }, Math.pow(1.2, e.deltaY / 100), anchor));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [from, to, onRangeChange]);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { vx, vy } = toViewBox(e.clientX, e.clientY);
+    pointersRef.current.set(e.pointerId, { x: vx, startX: vx, startY: vy });
+    pinchRef.current = null;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const pointers = pointersRef.current;
+    const pointer = pointers.get(e.pointerId);
+    if (!pointer) return;
+    const { vx } = toViewBox(e.clientX, e.clientY);
+
+    if (pointers.size === 1) {
+      // 单指拖动：平移
+      const shift = ((pointer.x - vx) / PLOT_W) * (to - from);
+      pointer.x = vx;
+      onRangeChange({ from: from + shift, to: to + shift });
+      return;
+    }
+
+    // 双指：按两指距离变化缩放
+    pointer.x = vx;
+    const [a, b] = [...pointers.values()];
+    const distance = Math.abs(a.x - b.x);
+    if (pinchRef.current !== null && distance > 0) {
+      onRangeChange(zoomRange({ from, to }, pinchRef.current / distance, dateAt((a.x + b.x) / 2)));
+    }
+    pinchRef.current = distance;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const pointer = pointersRef.current.get(e.pointerId);
+    const single = pointersRef.current.size === 1;
+    pointersRef.current.delete(e.pointerId);
+    pinchRef.current = null;
+    if (!pointer || !single) return;
+
+    const { vx, vy } = toViewBox(e.clientX, e.clientY);
+    if (Math.hypot(vx - pointer.startX, vy - pointer.startY) > TAP_SLOP) return;
+    // 轻点：选中最近的一次成绩
+    let nearest: ChartPoint | null = null;
+    let nearestDistance = TAP_RADIUS;
+    for (const p of visible) {
+      if (p.time === DNF) continue;
+      const distance = Math.hypot(x(p.date) - vx, y(p.time) - vy);
+      if (distance < nearestDistance) {
+        nearest = p;
+        nearestDistance = distance;
+      }
+    }
+    if (nearest) onSelect(nearest.index);
+  };
+
+  // 平均线整条绘制，由 clipPath 裁到绘图区，边缘处不会断开
+  const linePath = (values: (number | null)[]) => {
+    let d = '';
+    let drawing = false;
+    points.forEach((p, i) => {
+      const v = values[i];
+      if (v === null || v === DNF) {
+        drawing = false;
+        return;
+      }
+      d += `${drawing ? 'L' : 'M'}${x(p.date).toFixed(1)},${y(v).toFixed(1)}`;
+      drawing = true;
+    });
+    return d;
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="chart"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label="成绩走势图"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <defs>
+        <clipPath id="chart-plot">
+          <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_W} height={PLOT_H} />
+        </clipPath>
+      </defs>
+
+      {linearTicks(yMin, yMax, 4).map((t) => (
+        <g key={t}>
+          <line className="chart__grid" x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(t)} y2={y(t)} />
+          <text className="chart__label" x={MARGIN.left - 4} y={y(t) + 3} textAnchor="end">
+            {formatTime(t)}
+          </text>
+        </g>
+      ))}
+      {dateTicks(from, to).map((t) => (
+        <text key={t.value} className="chart__label" x={x(t.value)} y={HEIGHT - 6} textAnchor="middle">
+          {t.label}
+        </text>
+      ))}
+
+      <g clipPath="url(#chart-plot)">
+        {visible.map((p) =>
+          p.time === DNF ? (
+            <line key={p.index} className="chart__dnf" x1={x(p.date)} x2={x(p.date)} y1={MARGIN.top} y2={MARGIN.top + 6} />
+          ) : (
+            <circle key={p.index} className="chart__point" cx={x(p.date)} cy={y(p.time)} r={2} />
+          )
+        )}
+        {lines.map((line) => (
+          <path key={line.label} d={linePath(line.values)} fill="none" stroke={line.color} strokeWidth={1.5} />
+        ))}
+      </g>
+    </svg>
+  );
+}
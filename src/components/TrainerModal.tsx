@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { CASE_SETS, getCases, type CaseSetId } from '../utils/llCases';
+import { caseStats, selectedCases, type TrainerConfig } from '../utils/trainer';
+import { formatTime } from '../utils/timeFormat';
+import CaseDiagram from './CaseDiagram';
+
+interface TrainerModalProps {
+  config: TrainerConfig;
+  onSelectedChange: (caseSet: CaseSetId, ids: string[]) => void;
+  onToggleLearned: (id: string) => void;
+  onStart: (caseSet: CaseSetId) => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+/**
+ * 公式训练弹窗：选择一组情况（OLL / PLL / COLL / 2GLL）中要练的情况，标记已学会，
+ * 查看各情况最近的平均用时
+ */
+export default function TrainerModal({
+  config,
+  onSelectedChange,
+  onToggleLearned,
+  onStart,
+  onStop,
+  onClose,
+}: TrainerModalProps) {
+  const [caseSet, setCaseSet] = useState<CaseSetId>(config.caseSet);
+
+  const cases = getCases(caseSet);
+  const selectedIds = new Set(selectedCases(config, caseSet).map((c) => c.id));
+  const groups = [...new Set(cases.map((c) => c.group))];
+  const description = CASE_SETS.find((s) => s.id === caseSet)?.description;
+
+  const toggleSelected = (id: string) => {
+    const ids = selectedIds.has(id) ? [...selectedIds].filter((s) => s !== id) : [...selectedIds, id];
+    onSelectedChange(caseSet, ids);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h2 className="modal__title">公式训练</h2>
+          <button className="modal__close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="modal__content">
+          <div className="tag-list">
+            {CASE_SETS.map((s) => (
+              <button
+                key={s.id}
+                className={`tag ${caseSet === s.id ? 'tag--active' : ''}`}
+                onClick={() => setCaseSet(s.id)}
+              >
+                {s.id}
+              </button>
+            ))}
+          </div>
+          <p className="trainer__desc">
+            {description}。轻点选择要练的情况，越慢的情况出现越多，已学会的出现较少
+          </p>
+
+          <div className="trainer__toolbar">
+            <span className="trainer__count">
+              已选 {selectedIds.size} / {cases.length}
+            </span>
+            <button className="trainer__link" onClick={() => onSelectedChange(caseSet, cases.map((c) => c.id))}>
+              全选
+            </button>
+            <button className="trainer__link" onClick={() => onSelectedChange(caseSet, [])}>
+              全不选
+            </button>
+            <button
+              className="trainer__link"
+              onClick={() =>
+                onSelectedChange(
+                  caseSet,
+                  cases.filter((c) => !config.learned.includes(c.id)).map((c) => c.id)
+                )
+              }
+            >
+              只选未学会
+            </button>
+          </div>
+
+          {groups.map((group) => (
+            <div key={group} className="trainer__group">
+              <div className="trainer__group-title">{group}</div>
+              <div className="trainer__grid">
+                {cases
+                  .filter((c) => c.group === group)
+                  .map((c) => {
+                    const stats = caseStats(config.times[c.id]);
+                    const learned = config.learned.includes(c.id);
+                    return (
+                      <div
+                        key={c.id}
+                        className={`case-card ${selectedIds.has(c.id) ? 'case-card--selected' : ''}`}
+                      >
+                        <button className="case-card__main" title={c.alg} onClick={() => toggleSelected(c.id)}>
+                          <CaseDiagram c={c} size={52} />
+                          <span className="case-card__name">{c.name}</span>
+                          <span className="case-card__stats">
+                            {stats ? `${formatTime(stats.mean)} · ${stats.count}` : '未练习'}
+                          </span>
+                        </button>
+                        <button
+                          className={`case-card__learned ${learned ? 'case-card__learned--on' : ''}`}
+                          onClick={() => onToggleLearned(c.id)}
+                        >
+                          {learned ? '✓ 已学会' : '学会了'}
+                        </button>
+                      </div>
+                    );
+                  })}
+              </div>
+            </div>
+          ))}
+
+          <div className="trainer__actions">
+            {config.enabled && (
+              <button className="trainer__btn" onClick={onStop}>
+                退出训练
+              </button>
+            )}
+            <button
+              className="trainer__btn trainer__btn--primary"
+              disabled={selectedIds.size === 0}
+              onClick={() => onStart(caseSet)}
+            >
+              {config.enabled && config.caseSet === caseSet ? '继续训练' : '开始训练'} {caseSet}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
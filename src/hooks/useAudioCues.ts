@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Penalty } from '../types';
+import {
+    loadAudioSettings,
+    playBeep,
+    resumeAudio,
+    saveAudioSettings,
+    speak,
+    spokenTime,
+    type BeepKind,
+} from '../utils/audioCues';
+
+/**
+ * 声音提示 Hook：保存各提示的开关与音量，返回按开关播放的提示函数
+ *
+ * 开启任一提示后，每次点击或按键都尝试恢复 AudioContext（浏览器只允许在用户手势中启动音频）。
+ */
+export function useAudioCues() {
+    const [settings, setSettings] = useState(loadAudioSettings);
+    const { volume, cues } = settings;
+    const enabled = Object.values(cues).some(Boolean);
+
+    useEffect(() => {
+        saveAudioSettings(settings);
+    }, [settings]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        window.addEventListener('pointerdown', resumeAudio);
+        window.addEventListener('keydown', resumeAudio);
+        return () => {
+            window.removeEventListener('pointerdown', resumeAudio);
+            window.removeEventListener('keydown', resumeAudio);
+        };
+    }, [enabled]);
+
+    /** 观察报时，at 为观察已用时间 (ms) */
+    const callInspection = useCallback(
+        (at: number) => {
+            if (cues.inspection) speak(`${at / 1000} 秒`, volume, true);
+        },
+        [cues.inspection, volume]
+    );
+
+    const beep = useCallback(
+        (kind: BeepKind) => {
+            if (cues.sensor) playBeep(kind, volume);
+        },
+        [cues.sensor, volume]
+    );
+
+    /** 读出刚完成的成绩，打断还没读完的上一条 */
+    const announceTime = useCallback(
+        (time: number, penalty?: Penalty) => {
+            if (cues.time) speak(spokenTime(time, penalty), volume, true);
+        },
+        [cues.time, volume]
+    );
+
+    /** 新纪录排在成绩之后播报 */
+    const announceRecord = useCallback(
+        (kind: 'single' | 'ao5', result: number) => {
+            if (cues.record) speak(`新的${kind === 'single' ? '单次' : ' Ao5 '}最佳，${spokenTime(result)}`, volume);
+        },
+        [cues.record, volume]
+    );
+
+    return { settings, setSettings, callInspection, beep, announceTime, announceRecord };
+}
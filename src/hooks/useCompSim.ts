@@ -0,0 +1,109 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { CompAttempt, CompRound, Penalty, RoundSettings } from '../types';
+import type { PuzzleType } from '../utils/puzzles';
+import * as db from '../utils/db';
+import {
+    loadActiveRound,
+    loadRoundSettings,
+    roundStatus,
+    saveActiveRound,
+    saveRoundSettings,
+} from '../utils/compSim';
+
+/**
+ * 模拟比赛 Hook：
+ *
+ * 按设定的赛制逐次记录还原，未过及格线或次数用完时本轮结束；
+ * 结束的轮次保存在 IndexedDB 的单独一张表里，不计入会话成绩与统计；
+ * 进行中的一轮保存在 localStorage，刷新页面后继续。
+ */
+export function useCompSim() {
+    const [settings, setSettings] = useState<RoundSettings>(loadRoundSettings);
+    const [rounds, setRounds] = useState<CompRound[]>([]);
+    const [active, setActive] = useState<CompRound | null>(loadActiveRound);
+    const [storageError, setStorageError] = useState<string | null>(null);
+
+    useEffect(() => {
+        db.getCompRounds()
+            .then((loaded) => setRounds((prev) => [...prev, ...loaded]))
+            .catch((err) => setStorageError(db.describeStorageError(err)));
+    }, []);
+
+    useEffect(() => {
+        saveRoundSettings(settings);
+    }, [settings]);
+
+    useEffect(() => {
+        saveActiveRound(active);
+    }, [active]);
+
+    const persist = useCallback((write: Promise<void>) => {
+        write.catch((err) => setStorageError(db.describeStorageError(err)));
+    }, []);
+
+    const dismissStorageError = useCallback(() => setStorageError(null), []);
+
+    /** 按当前规则开始新一轮 */
+    const start = useCallback(
+        (puzzle: PuzzleType) => {
+            setActive({ id: Date.now(), puzzle, date: Date.now(), settings, attempts: [] });
+        },
+        [settings]
+    );
+
+    const record = useCallback((attempt: CompAttempt) => {
+        setActive((round) => round && { ...round, attempts: [...round.attempts, attempt] });
+    }, []);
+
+    /** 修改最近一次的判罚 */
+    const setLastPenalty = useCallback((penalty: Penalty | undefined) => {
+        setActive((round) => {
+            if (!round || round.attempts.length === 0) return round;
+            const attempts = [...round.attempts];
+            attempts[attempts.length - 1] = { ...attempts[attempts.length - 1], penalty };
+            return { ...round, attempts };
+        });
+    }, []);
+
+    /** 删除最近一次（如打乱错误需要补打） */
+    const removeLast = useCallback(() => {
+        setActive((round) => round && { ...round, attempts: round.attempts.slice(0, -1) });
+    }, []);
+
+    /** 保存已结束的一轮并返回；本轮还没结束时不做任何事 */
+    const finish = useCallback((): CompRound | null => {
+        if (!active || roundStatus(active.settings, active.attempts) === 'running') return null;
+        setRounds((prev) => [active, ...prev]);
+        setActive(null);
+        persist(db.putCompRound(active));
+        return active;
+    }, [active, persist]);
+
+    /** 放弃进行中的一轮，不保存 */
+    const abandon = useCallback(() => setActive(null), []);
+
+    const deleteRound = useCallback(
+        (id: number) => {
+            setRounds((prev) => prev.filter((r) => r.id !== id));
+            persist(db.deleteCompRound(id));
+        },
+        [persist]
+    );
+
+    return {
+        settings,
+        setSettings,
+        rounds,
+        active,
+        status: active ? roundStatus(active.settings, active.attempts) : null,
+        storageError,
+        dismissStorageError,
+        start,
+        record,
+        setLastPenalty,
+        removeLast,
+        finish,
+        abandon,
+        deleteRound,
+    };
+}
@@ -0,0 +1,191 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { Penalty } from '../types';
+import { getPuzzle, type PuzzleType } from '../utils/puzzles';
+import {
+    REPLACED_CLOSE_CODE,
+    canStartRound,
+    currentRound,
+    loadRaceSettings,
+    parseServerMessage,
+    saveRaceSettings,
+    type ClientMessage,
+    type RaceRoomState,
+    type RaceSettings,
+} from '../utils/raceProtocol';
+
+export type RaceConnection = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+/** 重连间隔：1 秒起每次翻倍，最长 10 秒 */
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 10000;
+
+type JoinMessage = Extract<ClientMessage, { type: 'join' }>;
+type ResultMessage = Extract<ClientMessage, { type: 'result' }>;
+
+// 要连接的服务器与加入时发送的消息
+interface RaceTarget {
+    server: string;
+    join: JoinMessage;
+}
+
+function targetFrom(settings: RaceSettings, puzzle: PuzzleType): RaceTarget | null {
+    if (!settings.room) return null;
+    return {
+        server: settings.server,
+        join: { type: 'join', room: settings.room, clientId: settings.clientId, name: settings.name, puzzle },
+    };
+}
+
+/**
+ * 联网对战 Hook：连接中继服务器并同步房间状态
+ *
+ * - 断线后自动重连并重新加入，服务器按 clientId 恢复玩家；刷新页面后也会回到原房间
+ * - 断线期间提交的成绩在重连后补发
+ * - 房主在所有人准备后自动用房间项目的打乱生成器开始下一轮
+ */
+export function useRaceRoom(puzzle: PuzzleType) {
+    const [settings, setSettings] = useState(loadRaceSettings);
+    const [target, setTarget] = useState(() => targetFrom(settings, puzzle));
+    const [connection, setConnection] = useState<RaceConnection>(() => (target ? 'connecting' : 'idle'));
+    const [room, setRoom] = useState<RaceRoomState | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const socketRef = useRef<WebSocket | null>(null);
+    // 尚未确认送达的成绩
+    const pendingResultRef = useRef<ResultMessage | null>(null);
+
+    useEffect(() => {
+        saveRaceSettings(settings);
+    }, [settings]);
+
+    const send = useCallback((message: ClientMessage) => {
+        const socket = socketRef.current;
+        if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    }, []);
+
+    useEffect(() => {
+        if (!target) return;
+        let socket: WebSocket | null = null;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+        let attempt = 0;
+        let disposed = false;
+
+        const handleState = (state: RaceRoomState) => {
+            setRoom(state);
+            const clientId = target.join.clientId;
+            const pending = pendingResultRef.current;
+            const delivered = pending && state.rounds[pending.round - 1]?.results[clientId];
+            if (delivered && delivered.time === pending.time && delivered.penalty === pending.penalty) {
+                pendingResultRef.current = null;
+            }
+            // 房主：所有人准备好后开始下一轮，所有人用同一条打乱
+            if (state.hostId === clientId && canStartRound(state)) {
+                const scramble = getPuzzle(state.puzzle).generate();
+                socket?.send(JSON.stringify({ type: 'startRound', round: state.rounds.length + 1, scramble }));
+            }
+        };
+
+        const connect = () => {
+            try {
+                socket = new WebSocket(target.server);
+            } catch {
+                setError('服务器地址无效');
+                setConnection('idle');
+                return;
+            }
+            socketRef.current = socket;
+            socket.onopen = () => {
+                attempt = 0;
+                setConnection('connected');
+                setError(null);
+                socket?.send(JSON.stringify(target.join));
+                if (pendingResultRef.current) socket?.send(JSON.stringify(pendingResultRef.current));
+            };
+            socket.onmessage = (e) => {
+                const message = parseServerMessage(String(e.data));
+                if (message?.type === 'state') handleState(message.room);
+                else if (message?.type === 'error') setError(message.message);
+            };
+            socket.onclose = (e) => {
+                if (disposed) return;
+                socketRef.current = null;
+                if (e.code === REPLACED_CLOSE_CODE) {
+                    setError('已在其他页面加入这个房间');
+                    setConnection('idle');
+                    return;
+                }
+                setConnection('reconnecting');
+                retryTimer = setTimeout(connect, Math.min(RETRY_BASE_MS * 2 ** attempt++, RETRY_MAX_MS));
+            };
+        };
+
+        connect();
+        return () => {
+            disposed = true;
+            clearTimeout(retryTimer);
+            socketRef.current = null;
+            socket?.close();
+        };
+    }, [target]);
+
+    /** 加入（或创建）房间；项目以创建房间者为准 */
+    const join = useCallback(
+        (server: string, roomCode: string, name: string) => {
+            const next = { ...settings, server: server.trim(), room: roomCode.trim().toUpperCase(), name: name.trim() };
+            setSettings(next);
+            setTarget(targetFrom(next, puzzle));
+            setConnection('connecting');
+            setRoom(null);
+            setError(null);
+            pendingResultRef.current = null;
+        },
+        [settings, puzzle]
+    );
+
+    const leave = useCallback(() => {
+        send({ type: 'leave' });
+        setSettings((s) => ({ ...s, room: null }));
+        setTarget(null);
+        setConnection('idle');
+        setRoom(null);
+        pendingResultRef.current = null;
+    }, [send]);
+
+    const setReady = useCallback((ready: boolean) => send({ type: 'ready', ready }), [send]);
+
+    /** 提交（或修改判罚后重新提交）本人在当前轮的成绩；断线时重连后补发 */
+    const submitResult = useCallback(
+        (time: number, penalty: Penalty | undefined) => {
+            if (!room) return;
+            const message: ResultMessage = {
+                type: 'result',
+                round: room.rounds.length,
+                time,
+                ...(penalty && { penalty }),
+            };
+            pendingResultRef.current = message;
+            send(message);
+        },
+        [room, send]
+    );
+
+    const dismissError = useCallback(() => setError(null), []);
+
+    const round = room ? currentRound(room) : null;
+    const myResult = round?.results[settings.clientId] ?? null;
+
+    return {
+        settings,
+        connection,
+        room,
+        error,
+        clientId: settings.clientId,
+        /** 正在进行、本人还没完成的一轮的打乱 */
+        activeScramble: round && !myResult ? round.scramble : null,
+        myResult,
+        join,
+        leave,
+        setReady,
+        submitResult,
+        dismissError,
+    };
+}
@@ -0,0 +1,141 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { withRandomOrientation, type ScrambleMode } from '../utils/scrambleGenerator';
+import { generateRandomStateScramble } from '../utils/randomStateScramble';
+import { getPuzzle, type PuzzleType } from '../utils/puzzles';
+import {
+    clearShareParams,
+    currentPosition,
+    loadScrambleSet,
+    saveScrambleSet,
+    scrambleRandom,
+    seededScramble,
+    type ScramblePosition,
+    type ScrambleSet,
+} from '../utils/scrambleSet';
+
+const usesRandomState = (puzzle: PuzzleType, mode: ScrambleMode) =>
+    !!getPuzzle(puzzle).randomState && mode === 'random-state';
+
+/** 打乱组中的 3x3 类项目总是随机状态，需要异步生成 */
+const loadsAsync = (puzzle: PuzzleType, mode: ScrambleMode, set: ScrambleSet | null) =>
+    usesRandomState(puzzle, set ? 'random-state' : mode);
+
+/** 记下项目当前的组内序号 */
+const withIndex = (set: ScrambleSet, puzzle: PuzzleType, index: number): ScrambleSet => ({
+    ...set,
+    indices: { ...set.indices, [puzzle]: index },
+});
+
+/**
+ * 打乱 Hook：
+ *
+ * - 3x3 / 3x3 盲拧 random-state：在 Worker 中求解随机状态，并预取下一条，换打乱时无需等待；
+ *   盲拧在末尾追加随机朝向
+ * - random-move 及其他项目：同步生成随机步打乱
+ * - 打乱组：按种子与组内序号生成可复现的打乱（不预取），position 为当前打乱在组内的位置
+ *
+ * 随机状态求解失败时退回随机步打乱，保证总有公式可用。
+ */
+export function useScramble(puzzle: PuzzleType, mode: ScrambleMode) {
+    const [initial] = useState(() => {
+        const saved = loadScrambleSet();
+        const set = saved && withIndex(saved, puzzle, currentPosition(saved, puzzle).index);
+        return { puzzle, mode, set, position: set && currentPosition(set, puzzle) };
+    });
+    const [scrambleSet, setScrambleSet] = useState(initial.set);
+    const [position, setPosition] = useState(initial.position);
+    const [scramble, setScramble] = useState(() =>
+        loadsAsync(puzzle, mode, initial.set)
+            ? ''
+            : getPuzzle(puzzle).generate(initial.position ? scrambleRandom(initial.position, puzzle) : undefined)
+    );
+    const [loading, setLoading] = useState(loadsAsync(puzzle, mode, initial.set));
+    const requestIdRef = useRef(0);
+    const prefetchRef = useRef<Promise<string> | null>(null);
+
+    useEffect(() => {
+        saveScrambleSet(scrambleSet);
+    }, [scrambleSet]);
+
+    // 分享链接已读入打乱组，从地址栏移除
+    useEffect(() => {
+        clearShareParams();
+    }, []);
+
+    const fetchRandomState = useCallback((id: number, forPuzzle: PuzzleType, at: ScramblePosition | null) => {
+        let current: Promise<string>;
+        if (at) {
+            current = seededScramble(forPuzzle, at);
+        } else {
+            current = (prefetchRef.current ?? generateRandomStateScramble()).then((next) =>
+                getPuzzle(forPuzzle).blindfolded ? withRandomOrientation(next) : next
+            );
+            prefetchRef.current = generateRandomStateScramble();
+        }
+        current
+            .catch(() => getPuzzle(forPuzzle).generate())
+            .then((next) => {
+                // 期间又请求了新的打乱，丢弃过期结果
+                if (id !== requestIdRef.current) return;
+                setScramble(next);
+                setPosition(at);
+                setLoading(false);
+            });
+    }, []);
+
+    const load = useCallback(
+        (forPuzzle: PuzzleType, forMode: ScrambleMode, at: ScramblePosition | null, set: ScrambleSet | null) => {
+            const id = ++requestIdRef.current;
+            if (!loadsAsync(forPuzzle, forMode, set)) {
+                setScramble(getPuzzle(forPuzzle).generate(at ? scrambleRandom(at, forPuzzle) : undefined));
+                setPosition(at);
+                setLoading(false);
+                return;
+            }
+            setLoading(true);
+            fetchRandomState(id, forPuzzle, at);
+        },
+        [fetchRandomState]
+    );
+
+    /** 换下一条打乱；打乱组中切换项目时接着该项目上次的序号 */
+    const next = useCallback(
+        (nextPuzzle: PuzzleType = puzzle, nextMode: ScrambleMode = mode) => {
+            if (!scrambleSet) {
+                load(nextPuzzle, nextMode, null, null);
+                return;
+            }
+            const saved = scrambleSet.indices[nextPuzzle];
+            const index = saved === undefined ? 1 : nextPuzzle === puzzle ? saved + 1 : saved;
+            const set = withIndex(scrambleSet, nextPuzzle, index);
+            setScrambleSet(set);
+            load(nextPuzzle, nextMode, currentPosition(set, nextPuzzle), set);
+        },
+        [puzzle, mode, scrambleSet, load]
+    );
+
+    /** 从第 1 条开始一个打乱组 */
+    const startSet = useCallback(
+        (seed: string, forPuzzle: PuzzleType = puzzle) => {
+            const set = withIndex({ seed, indices: {} }, forPuzzle, 1);
+            setScrambleSet(set);
+            load(forPuzzle, mode, currentPosition(set, forPuzzle), set);
+        },
+        [puzzle, mode, load]
+    );
+
+    /** 结束打乱组，回到随机打乱 */
+    const endSet = useCallback(() => {
+        setScrambleSet(null);
+        load(puzzle, mode, null, null);
+    }, [puzzle, mode, load]);
+
+    // 随机状态模式下第一条打乱需要异步获取
+    useEffect(() => {
+        if (loadsAsync(initial.puzzle, initial.mode, initial.set)) {
+            fetchRandomState(++requestIdRef.current, initial.puzzle, initial.position);
+        }
+    }, [initial, fetchRandomState]);
+
+    return { scramble, loading, next, scrambleSet, position, startSet, endSet };
+}
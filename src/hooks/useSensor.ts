@@ -1,22 +1,19 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
-
-interface SensorConfig {
-    /** 冲击检测阈值：加速度偏离重力的最小值 */
-    impactThreshold: number;
-    /** 冲击后的冷却时间 (ms)，避免一次振动触发多次 */
-    cooldownMs: number;
-}
-
-const DEFAULT_CONFIG: SensorConfig = {
-    impactThreshold: 1.2,
-    cooldownMs: 600,
-};
+import {
+    createImpactDetector,
+    DEFAULT_DETECTOR_CONFIG,
+    type DetectorConfig,
+    type ImpactEvent,
+    type MotionSample,
+} from '../utils/impactDetector';
 
 /**
  * 传感器 Hook（冲击检测模式）：
  *
  * 手机平放在桌上，检测加速度的短暂冲击（魔方放上/拿起时的振动）。
- * 每次检测到冲击时触发 onImpact 回调。
+ * 采样交给 impactDetector 滤波、分类，每次检测到冲击时以事件调用 onImpact，
+ * 由调用方决定哪些类型（通常只有轻拍）触发计时。
+ * onSample 收到每个原始采样，用于录制传感器轨迹。
  *
  * 权限逻辑：
  * - 非 iOS 浏览器：DeviceMotionEvent.requestPermission 不存在，直接可用
@@ -24,46 +21,26 @@ const DEFAULT_CONFIG: SensorConfig = {
  * - 自动检测：挂载时即判断权限状态，无需用户手动触发
  */
 export function useSensor(
-    onImpact: () => void,
+    onImpact: (event: ImpactEvent) => void,
     enabled: boolean,
-    config: Partial<SensorConfig> = {}
+    config: Partial<DetectorConfig> = {},
+    onSample?: (sample: MotionSample) => void
 ) {
-    const { impactThreshold, cooldownMs } = { ...DEFAULT_CONFIG, ...config };
+    const { threshold, cooldownMs } = { ...DEFAULT_DETECTOR_CONFIG, ...config };
     const [sensorAvailable, setSensorAvailable] = useState<boolean | null>(null);
     const [permissionGranted, setPermissionGranted] = useState<boolean | null>(null);
-    const [lastImpactStrength, setLastImpactStrength] = useState(0);
+    const [lastImpact, setLastImpact] = useState<ImpactEvent | null>(null);
 
     const onImpactRef = useRef(onImpact);
+    const onSampleRef = useRef(onSample);
     const enabledRef = useRef(enabled);
-    const lastImpactTimeRef = useRef(0);
 
     onImpactRef.current = onImpact;
     enabledRef.current = enabled;
 
-    const handleMotion = useCallback(
-        (event: DeviceMotionEvent) => {
-            if (!enabledRef.current) return;
-
-            const acc = event.accelerationIncludingGravity;
-            if (!acc || acc.x === null || acc.y === null || acc.z === null) return;
-
-            const magnitude = Math.sqrt(
-                (acc.x ?? 0) ** 2 + (acc.y ?? 0) ** 2 + (acc.z ?? 0) ** 2
-            );
-
-            const deviation = Math.abs(magnitude - 9.8);
-
-            if (deviation > impactThreshold) {
-                const now = Date.now();
-                if (now - lastImpactTimeRef.current > cooldownMs) {
-                    lastImpactTimeRef.current = now;
-                    setLastImpactStrength(parseFloat(deviation.toFixed(1)));
-                    onImpactRef.current();
-                }
-            }
-        },
-        [impactThreshold, cooldownMs]
-    );
+    useEffect(() => {
+        onSampleRef.current = onSample;
+    });
 
     // iOS 手势触发权限请求
     const requestPermission = useCallback(async () => {
@@ -125,20 +102,38 @@ export function useSensor(
         }
     }, []); // 只在挂载时运行一次
 
-    // 注册实际的 motion 监听
+    // 注册实际的 motion 监听；阈值变化时换一个新的检测器
     useEffect(() => {
         if (!sensorAvailable) return;
 
+        const detector = createImpactDetector({ threshold, cooldownMs });
+        const handleMotion = (event: DeviceMotionEvent) => {
+            // 停用期间不送入采样，重新启用时检测器因采样中断自动重新开始
+            if (!enabledRef.current) return;
+
+            const acc = event.accelerationIncludingGravity;
+            if (!acc || acc.x === null || acc.y === null || acc.z === null) return;
+
+            // 用 performance.now() 作时间戳，与计时器同一时基
+            const sample = { t: performance.now(), x: acc.x, y: acc.y, z: acc.z };
+            onSampleRef.current?.(sample);
+            const impact = detector.push(sample);
+            if (impact) {
+                setLastImpact(impact);
+                onImpactRef.current(impact);
+            }
+        };
+
         window.addEventListener('devicemotion', handleMotion);
         return () => {
             window.removeEventListener('devicemotion', handleMotion);
         };
-    }, [sensorAvailable, handleMotion]);
+    }, [sensorAvailable, threshold, cooldownMs]);
 
     return {
         sensorAvailable,
         permissionGranted,
         requestPermission,
-        lastImpactStrength,
+        lastImpact,
     };
 }
@@ -0,0 +1,20 @@
+import { useState } from 'react';
+import type { SolveRecord } from '../types';
+import { resultTime } from '../utils/timeFormat';
+import { EMPTY_STATS, summarizeStats, updateStats, type StatsCache } from '../utils/stats';
+
+/**
+ * 成绩统计 Hook：records 为最新在前的成绩列表
+ *
+ * 上一次的统计结果保存在 state 中，records 变化时只增量更新变化的部分。
+ */
+export function useSolveStats(records: SolveRecord[]) {
+    const times = records.map(resultTime).reverse();
+    const [cache, setCache] = useState<StatsCache>(() => updateStats(EMPTY_STATS, times));
+
+    // 渲染期间根据新成绩更新缓存（与上次相同时 updateStats 原样返回）
+    const next = updateStats(cache, times);
+    if (next !== cache) setCache(next);
+
+    return summarizeStats(next);
+}
@@ -0,0 +1,195 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Session, SolveRecord } from '../types';
+import type { PuzzleType } from '../utils/puzzles';
+import * as db from '../utils/db';
+import {
+    loadSessions,
+    saveSessions,
+    loadActiveSessionId,
+    saveActiveSessionId,
+    legacyRecordsBackupKey,
+} from '../utils/storage';
+
+/**
+ * 成绩存储 Hook：管理全部成绩记录与命名会话
+ *
+ * - 新成绩总是写入当前会话
+ * - 会话可新建、重命名、切换、合并、删除；至少保留一个会话
+ * - 记住上次使用的会话
+ * - 成绩保存在 IndexedDB：界面先更新，再逐条写入数据库；写入失败时通过 storageError 提示
+ * - 新成绩的 id 在这里统一分配：取当前时间，但总大于已有的最大 id（导入的成绩 id 可能晚于当前时间）
+ */
+export function useSolveStore() {
+    const [records, setRecords] = useState<SolveRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [storageError, setStorageError] = useState<string | null>(null);
+    const [sessions, setSessions] = useState<Session[]>(loadSessions);
+    const [activeSessionId, setActiveSessionId] = useState(() =>
+        loadActiveSessionId(loadSessions())
+    );
+    // 已分配过的最大成绩 id
+    const maxIdRef = useRef(0);
+
+    const trackIds = useCallback((added: SolveRecord[]) => {
+        for (const r of added) maxIdRef.current = Math.max(maxIdRef.current, r.id);
+    }, []);
+
+    // 首次读取数据库（包括从 localStorage 迁移旧成绩）
+    useEffect(() => {
+        db.getRecords()
+            .then((loaded) => {
+                trackIds(loaded);
+                // 读取期间新增的成绩保留在前面
+                setRecords((prev) => {
+                    const ids = new Set(prev.map((r) => r.id));
+                    return [...prev, ...loaded.filter((r) => !ids.has(r.id))];
+                });
+                // 旧版成绩无法解析时已另存原始数据，告诉用户备份的位置
+                const backupKey = legacyRecordsBackupKey();
+                if (backupKey) setStorageError(`旧版成绩数据已损坏，无法迁移；原始数据已备份到 localStorage 的 ${backupKey}`);
+            })
+            .catch((err) => setStorageError(db.describeStorageError(err)))
+            .finally(() => setLoading(false));
+    }, [trackIds]);
+
+    const persist = useCallback((write: Promise<void>) => {
+        write.catch((err) => setStorageError(db.describeStorageError(err)));
+    }, []);
+
+    const dismissStorageError = useCallback(() => setStorageError(null), []);
+
+    const updateSessions = useCallback((update: (prev: Session[]) => Session[]) => {
+        setSessions((prev) => {
+            const next = update(prev);
+            saveSessions(next);
+            return next;
+        });
+    }, []);
+
+    const switchSession = useCallback((id: string) => {
+        setActiveSessionId(id);
+        saveActiveSessionId(id);
+    }, []);
+
+    // ── 成绩 ──
+
+    const addRecord = useCallback(
+        (record: Omit<SolveRecord, 'id' | 'sessionId'>) => {
+            const id = Math.max(Date.now(), maxIdRef.current + 1);
+            maxIdRef.current = id;
+            const next = { ...record, id, sessionId: activeSessionId };
+            setRecords((prev) => [next, ...prev]);
+            persist(db.putRecords([next]));
+        },
+        [activeSessionId, persist]
+    );
+
+    const deleteRecord = useCallback(
+        (id: number) => {
+            setRecords((prev) => prev.filter((r) => r.id !== id));
+            persist(db.deleteRecord(id));
+        },
+        [persist]
+    );
+
+    /** 修改单条成绩（如判罚） */
+    const updateRecord = useCallback(
+        (id: number, patch: Partial<Omit<SolveRecord, 'id'>>) => {
+            setRecords((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+            persist(db.patchRecord(id, patch));
+        },
+        [persist]
+    );
+
+    /** 清空当前会话中某个项目的成绩 */
+    const clearRecords = useCallback(
+        (puzzle: PuzzleType) => {
+            setRecords((prev) =>
+                prev.filter((r) => r.sessionId !== activeSessionId || r.puzzle !== puzzle)
+            );
+            persist(db.deleteRecords({ sessionId: activeSessionId, puzzle }));
+        },
+        [activeSessionId, persist]
+    );
+
+    /** 导入成绩：新建需要的会话，成绩按日期合并（最新在前） */
+    const importRecords = useCallback(
+        (newSessions: Session[], newRecords: SolveRecord[]) => {
+            if (newSessions.length > 0) updateSessions((prev) => [...prev, ...newSessions]);
+            trackIds(newRecords);
+            setRecords((prev) => [...newRecords, ...prev].sort((a, b) => b.date - a.date));
+            persist(db.putRecords(newRecords));
+        },
+        [updateSessions, trackIds, persist]
+    );
+
+    // ── 会话 ──
+
+    const createSession = useCallback(
+        (name: string) => {
+            const session: Session = {
+                id: Date.now().toString(36),
+                name: name.trim() || `会话 ${sessions.length + 1}`,
+                createdAt: Date.now(),
+            };
+            updateSessions((prev) => [...prev, session]);
+            switchSession(session.id);
+        },
+        [sessions.length, updateSessions, switchSession]
+    );
+
+    const renameSession = useCallback(
+        (id: string, name: string) => {
+            if (!name.trim()) return;
+            updateSessions((prev) => prev.map((s) => (s.id === id ? { ...s, name: name.trim() } : s)));
+        },
+        [updateSessions]
+    );
+
+    /** 把 sourceId 的成绩并入 targetId，并删除 sourceId */
+    const mergeSessions = useCallback(
+        (sourceId: string, targetId: string) => {
+            if (sourceId === targetId) return;
+            setRecords((prev) =>
+                prev.map((r) => (r.sessionId === sourceId ? { ...r, sessionId: targetId } : r))
+            );
+            persist(db.moveRecords(sourceId, targetId));
+            updateSessions((prev) => prev.filter((s) => s.id !== sourceId));
+            if (activeSessionId === sourceId) switchSession(targetId);
+        },
+        [activeSessionId, persist, updateSessions, switchSession]
+    );
+
+    /** 删除会话及其全部成绩；最后一个会话不能删除 */
+    const deleteSession = useCallback(
+        (id: string) => {
+            if (sessions.length <= 1) return;
+            setRecords((prev) => prev.filter((r) => r.sessionId !== id));
+            persist(db.deleteRecords({ sessionId: id }));
+            updateSessions((prev) => prev.filter((s) => s.id !== id));
+            if (activeSessionId === id) {
+                switchSession(sessions.find((s) => s.id !== id)!.id);
+            }
+        },
+        [sessions, activeSessionId, persist, updateSessions, switchSession]
+    );
+
+    return {
+        records,
+        loading,
+        storageError,
+        dismissStorageError,
+        sessions,
+        activeSessionId,
+        addRecord,
+        updateRecord,
+        deleteRecord,
+        clearRecords,
+        importRecords,
+        createSession,
+        renameSession,
+        switchSession,
+        mergeSessions,
+        deleteSession,
+    };
+}
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createStackmatDecoder, type StackmatPacket } from '../utils/stackmat';
+import { parseWav, type WavAudio } from '../utils/wav';
+
+/**
+ * Stackmat 计时器状态
+ * - requesting：正在请求麦克风权限
+ * - denied：没有麦克风权限或浏览器不支持
+ * - waiting：正在监听，但没有收到计时器信号
+ * - connected：正在收到数据包
+ */
+export type StackmatConnection = 'requesting' | 'denied' | 'waiting' | 'connected';
+
+/** 超过这么久没有数据包视为断开 */
+const PACKET_TIMEOUT_MS = 1000;
+/** 回放 WAV 时每次送入解码器的采样数 */
+const FILE_CHUNK = 2048;
+
+/**
+ * Stackmat 计时器 Hook（音频线接入麦克风）：
+ *
+ * 麦克风采样交给 stackmat 解码，每收到一个数据包调用 onPacket，由调用方根据计时器状态开始、停止计时。
+ * 关闭回声消除、降噪和自动增益，否则方波会被浏览器处理得面目全非。
+ * playFile 用录下的 WAV 文件代替麦克风（按实际速度回放），没有计时器时也能调试。
+ */
+export function useStackmat(onPacket: (packet: StackmatPacket) => void, enabled: boolean) {
+    const [connection, setConnection] = useState<StackmatConnection>('requesting');
+    const [lastPacket, setLastPacket] = useState<StackmatPacket | null>(null);
+    const [error, setError] = useState('');
+    // 正在回放的录音，为 null 时使用麦克风
+    const [file, setFile] = useState<WavAudio | null>(null);
+
+    const onPacketRef = useRef(onPacket);
+
+    useEffect(() => {
+        onPacketRef.current = onPacket;
+    });
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        let lastPacketAt = 0;
+        const handlePackets = (packets: StackmatPacket[]) => {
+            if (packets.length === 0) return;
+            lastPacketAt = performance.now();
+            setConnection('connected');
+            setLastPacket(packets[packets.length - 1]);
+            for (const packet of packets) onPacketRef.current(packet);
+        };
+        const watchdog = setInterval(() => {
+            if (performance.now() - lastPacketAt > PACKET_TIMEOUT_MS) {
+                setConnection((c) => (c === 'connected' ? 'waiting' : c));
+            }
+        }, PACKET_TIMEOUT_MS / 2);
+
+        // 回放录音
+        if (file) {
+            const decoder = createStackmatDecoder(file.sampleRate);
+            let offset = 0;
+            const player = setInterval(() => {
+                handlePackets(decoder.push(file.samples.subarray(offset, offset + FILE_CHUNK)));
+                offset += FILE_CHUNK;
+                if (offset >= file.samples.length) setFile(null);
+            }, (FILE_CHUNK / file.sampleRate) * 1000);
+            return () => {
+                clearInterval(player);
+                clearInterval(watchdog);
+            };
+        }
+
+        // 麦克风
+        let cancelled = false;
+        let release = () => {};
+        (async () => {
+            if (!navigator.mediaDevices?.getUserMedia) {
+                setConnection('denied');
+                setError('浏览器不支持麦克风输入');
+                return;
+            }
+            let stream: MediaStream;
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({
+                    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+                });
+            } catch {
+                if (!cancelled) {
+                    setConnection('denied');
+                    setError('没有获得麦克风权限');
+                }
+                return;
+            }
+            if (cancelled) {
+                stream.getTracks().forEach((track) => track.stop());
+                return;
+            }
+
+            const context = new AudioContext();
+            const source = context.createMediaStreamSource(stream);
+            // ScriptProcessorNode 虽已不推荐，但无需单独的 Worklet 文件，各浏览器都支持
+            const processor = context.createScriptProcessor(4096, 1, 1);
+            const decoder = createStackmatDecoder(context.sampleRate);
+            processor.onaudioprocess = (e) => handlePackets(decoder.push(e.inputBuffer.getChannelData(0)));
+            source.connect(processor);
+            // 连到输出才会持续回调；输出缓冲没有写入，是静音
+            processor.connect(context.destination);
+            context.resume().catch(() => {});
+
+            release = () => {
+                processor.disconnect();
+                source.disconnect();
+                stream.getTracks().forEach((track) => track.stop());
+                context.close().catch(() => {});
+            };
+            setError('');
+            setConnection('waiting');
+        })();
+
+        return () => {
+            cancelled = true;
+            release();
+            clearInterval(watchdog);
+            setConnection('requesting');
+        };
+    }, [enabled, file]);
+
+    /** 用 WAV 录音代替麦克风输入，格式不支持时记录错误 */
+    const playFile = useCallback(async (wavFile: File) => {
+        try {
+            setFile(parseWav(await wavFile.arrayBuffer()));
+            setError('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    }, []);
+
+    return {
+        connection: enabled ? connection : 'requesting',
+        lastPacket,
+        error,
+        playingFile: file !== null,
+        playFile,
+    };
+}
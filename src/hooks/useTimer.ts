@@ -1,15 +1,34 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { Penalty } from '../types';
 
 export type TimerPhase =
     | 'idle'       // 等待中，显示上次成绩
+    | 'inspecting' // WCA 观察中（15 秒倒计时）
     | 'ready'      // 手放在手机上/正在检测
     | 'running'    // 计时中
     | 'stopped';   // 刚停止
 
+/** WCA 观察时间：超过 15 秒开始 +2，超过 17 秒 DNF */
+export const INSPECTION_MS = 15000;
+const INSPECTION_DNF_MS = 17000;
+
+export function inspectionPenalty(elapsed: number): Penalty | undefined {
+    if (elapsed > INSPECTION_DNF_MS) return 'DNF';
+    if (elapsed > INSPECTION_MS) return '+2';
+    return undefined;
+}
+
 export function useTimer() {
     const [time, setTime] = useState(0);
     const [phase, setPhase] = useState<TimerPhase>('idle');
+    const [inspectionActive, setInspectionActive] = useState(false);
+    const [inspectionTime, setInspectionTime] = useState(0);
+    const [penalty, setPenalty] = useState<Penalty | undefined>(undefined);
+    // 分段计时：已完成各段结束的时刻（从开始算起）
+    const [splits, setSplits] = useState<number[]>([]);
+    const splitsRef = useRef<number[]>([]);
     const startTimeRef = useRef(0);
+    const inspectionStartRef = useRef(0);
     const rafRef = useRef<number>(0);
 
     const tick = useCallback(() => {
@@ -17,30 +36,89 @@ export function useTimer() {
         rafRef.current = requestAnimationFrame(tick);
     }, []);
 
-    const start = useCallback(() => {
-        startTimeRef.current = performance.now();
+    // 观察倒计时（按住准备时也继续计时）
+    useEffect(() => {
+        if (!inspectionActive) return;
+        const id = setInterval(() => {
+            setInspectionTime(performance.now() - inspectionStartRef.current);
+        }, 100);
+        return () => clearInterval(id);
+    }, [inspectionActive]);
+
+    const clearInspection = useCallback(() => {
+        inspectionStartRef.current = 0;
+        setInspectionActive(false);
+        setInspectionTime(0);
+    }, []);
+
+    const startInspection = useCallback(() => {
+        inspectionStartRef.current = performance.now();
+        setInspectionActive(true);
+        setInspectionTime(0);
+        setPenalty(undefined);
+        setPhase('inspecting');
+    }, []);
+
+    /**
+     * 开始计时；若处于观察中，按观察用时记录判罚
+     *
+     * at：实际开始的时刻（performance.now() 时基），传感器确认轻拍有延迟时用冲击开始的时刻
+     */
+    const start = useCallback((at = performance.now()) => {
+        const inspected = inspectionStartRef.current > 0;
+        setPenalty(inspected ? inspectionPenalty(at - inspectionStartRef.current) : undefined);
+        clearInspection();
+        startTimeRef.current = at;
+        splitsRef.current = [];
+        setSplits([]);
         setTime(0);
         setPhase('running');
         rafRef.current = requestAnimationFrame(tick);
-    }, [tick]);
+    }, [tick, clearInspection]);
 
-    const stop = useCallback((): number => {
+    /** 停止计时并返回成绩；at 含义同 start */
+    const stop = useCallback((at = performance.now()): number => {
         cancelAnimationFrame(rafRef.current);
-        const finalTime = performance.now() - startTimeRef.current;
+        const finalTime = at - startTimeRef.current;
         setTime(finalTime);
         setPhase('stopped');
         return finalTime;
     }, []);
 
+    /** 记录一段，计时继续；返回已完成各段结束的时刻 */
+    const split = useCallback((at = performance.now()): number[] => {
+        splitsRef.current = [...splitsRef.current, at - startTimeRef.current];
+        setSplits(splitsRef.current);
+        return splitsRef.current;
+    }, []);
+
     const reset = useCallback(() => {
         cancelAnimationFrame(rafRef.current);
+        clearInspection();
+        splitsRef.current = [];
+        setSplits([]);
+        setPenalty(undefined);
         setTime(0);
         setPhase('idle');
-    }, []);
+    }, [clearInspection]);
 
     const setReady = useCallback(() => {
         setPhase('ready');
     }, []);
 
-    return { time, phase, start, stop, reset, setReady, setPhase };
+    return {
+        time,
+        phase,
+        inspectionActive,
+        inspectionTime,
+        penalty,
+        splits,
+        start,
+        split,
+        stop,
+        reset,
+        setReady,
+        setPhase,
+        startInspection,
+    };
 }
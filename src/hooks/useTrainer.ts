@@ -0,0 +1,146 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { Penalty } from '../types';
+import { caseScrambleState, getCase, type CaseSetId, type LLCase } from '../utils/llCases';
+import { generateStateScramble } from '../utils/randomStateScramble';
+import { resultTime, DNF } from '../utils/timeFormat';
+import {
+    addCaseTime,
+    loadTrainerConfig,
+    pickCase,
+    saveTrainerConfig,
+    selectedCases,
+    type TrainerConfig,
+} from '../utils/trainer';
+
+/** 上一次训练：情况与成绩（DNF 为 null） */
+export interface TrainerResult {
+    caseId: string;
+    time: number | null;
+}
+
+/**
+ * 公式训练 Hook：
+ *
+ * 从选中的情况中按用时加权抽题，生成只打乱顶层的打乱（Worker 求解），
+ * record 把成绩记到当前情况上，设置与成绩变化后自动保存；生成失败时通过 error 提示。
+ */
+export function useTrainer() {
+    const [initial] = useState(loadTrainerConfig);
+    const [config, setConfig] = useState(initial);
+    const [current, setCurrent] = useState<{ caseId: string; scramble: string } | null>(null);
+    const [loading, setLoading] = useState(
+        () => initial.enabled && selectedCases(initial, initial.caseSet).length > 0
+    );
+    const [last, setLast] = useState<TrainerResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const requestIdRef = useRef(0);
+    const previousIdRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        saveTrainerConfig(config);
+    }, [config]);
+
+    // 按 from 的设置抽题并生成打乱；没有选中的情况时不出题，返回 false
+    const fetchCase = useCallback((id: number, from: TrainerConfig): boolean => {
+        const cases = selectedCases(from, from.caseSet);
+        if (cases.length === 0) return false;
+        const picked = pickCase(cases, from, previousIdRef.current);
+        previousIdRef.current = picked.id;
+        generateStateScramble(caseScrambleState(picked))
+            .then((scramble) => {
+                // 期间又请求了新的打乱或退出了训练，丢弃过期结果
+                if (id !== requestIdRef.current) return;
+                setCurrent({ caseId: picked.id, scramble });
+                setError(null);
+            })
+            .catch(() => {
+                // 求解失败时没有能打出该情况的备用打乱，提示重试
+                if (id !== requestIdRef.current) return;
+                setCurrent(null);
+                setError('训练打乱生成失败，点「换一个」重试');
+            })
+            .finally(() => {
+                if (id === requestIdRef.current) setLoading(false);
+            });
+        return true;
+    }, []);
+
+    /** 换下一个情况 */
+    const next = useCallback(() => {
+        setLoading(fetchCase(++requestIdRef.current, config));
+    }, [config, fetchCase]);
+
+    /** 开始训练某一组 */
+    const start = useCallback(
+        (caseSet: CaseSetId) => {
+            const started = { ...config, enabled: true, caseSet };
+            setConfig(started);
+            setCurrent(null);
+            setLoading(fetchCase(++requestIdRef.current, started));
+        },
+        [config, fetchCase]
+    );
+
+    const stop = useCallback(() => {
+        requestIdRef.current++;
+        setConfig((c) => ({ ...c, enabled: false }));
+        setCurrent(null);
+        setLoading(false);
+        setError(null);
+    }, []);
+
+    /** 记录当前情况的成绩；DNF 只显示，不计入 */
+    const record = useCallback(
+        (time: number, penalty: Penalty | undefined) => {
+            if (!current) return;
+            const result = resultTime({ time, penalty });
+            setLast({ caseId: current.caseId, time: result === DNF ? null : result });
+            if (result !== DNF) setConfig((c) => addCaseTime(c, current.caseId, result));
+        },
+        [current]
+    );
+
+    /** 撤销上一次记录的成绩 */
+    const undoLast = useCallback(() => {
+        if (last?.time != null) {
+            const { caseId } = last;
+            setConfig((c) => ({ ...c, times: { ...c.times, [caseId]: (c.times[caseId] ?? []).slice(1) } }));
+        }
+        setLast(null);
+    }, [last]);
+
+    const setSelected = useCallback((caseSet: CaseSetId, ids: string[]) => {
+        setConfig((c) => ({ ...c, selected: { ...c.selected, [caseSet]: ids } }));
+    }, []);
+
+    const toggleLearned = useCallback((id: string) => {
+        setConfig((c) => ({
+            ...c,
+            learned: c.learned.includes(id) ? c.learned.filter((l) => l !== id) : [...c.learned, id],
+        }));
+    }, []);
+
+    // 刷新页面时继续训练
+    useEffect(() => {
+        if (initial.enabled) fetchCase(++requestIdRef.current, initial);
+    }, [initial, fetchCase]);
+
+    const currentCase: LLCase | null = current ? getCase(current.caseId) ?? null : null;
+
+    return {
+        config,
+        enabled: config.enabled,
+        currentCase,
+        scramble: current?.scramble ?? '',
+        loading,
+        error,
+        last,
+        start,
+        stop,
+        next,
+        record,
+        undoLast,
+        setSelected,
+        toggleLearned,
+    };
+}
@@ -0,0 +1,71 @@
+import type { PuzzleType } from './utils/puzzles';
+import type { ScramblePosition } from './utils/scrambleSet';
+
+/** WCA 判罚：+2 或 DNF；无判罚时不设置 */
+export type Penalty = '+2' | 'DNF';
+
+/** 计时方式：屏幕模拟 Stackmat、手机传感器、Stackmat 计时器（音频线接麦克风）、手动输入 */
+export type InputMode = 'stackmat' | 'sensor' | 'hardware' | 'typing';
+
+/** 分段计时中的一段 */
+export interface SolveSplit {
+  /** 段名，如 "Cross"、"F2L" */
+  name: string;
+  /** 这一段的用时 (ms) */
+  time: number;
+}
+
+export interface SolveRecord {
+  id: number;
+  time: number;
+  scramble: string;
+  date: number;
+  puzzle: PuzzleType;
+  sessionId: string;
+  penalty?: Penalty;
+  /** 旧成绩与导入的成绩没有记录计时方式 */
+  inputMode?: InputMode;
+  comment?: string;
+  /** 标签，如 "lockup"、"PLL skip" */
+  tags?: string[];
+  /** 分段计时各段用时，相加等于 time；不分段时不设置 */
+  splits?: SolveSplit[];
+  /** 打乱来自打乱组时的种子与组内序号，用于和队友逐条对比 */
+  scrambleSet?: ScramblePosition;
+}
+
+/** 成绩会话，如 "单手练习"、"模拟比赛" */
+export interface Session {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+/** 模拟比赛的轮次赛制：Average of 5、Mean of 3、Best of 3 */
+export type RoundFormat = 'ao5' | 'mo3' | 'bo3';
+
+/** 一轮比赛的规则 */
+export interface RoundSettings {
+  format: RoundFormat;
+  /** 及格线：前 attempts 次中至少一次快于 time (ms) 才能完成全部还原；不设时为 null */
+  cutoff: { attempts: number; time: number } | null;
+  /** 单次限时 (ms)，达到限时判 DNF；不设时为 null */
+  timeLimit: number | null;
+}
+
+/** 模拟比赛中的一次还原 */
+export interface CompAttempt {
+  time: number;
+  scramble: string;
+  penalty?: Penalty;
+}
+
+/** 一轮模拟比赛，与日常练习成绩分开保存 */
+export interface CompRound {
+  id: number;
+  puzzle: PuzzleType;
+  /** 开始时间 */
+  date: number;
+  settings: RoundSettings;
+  attempts: CompAttempt[];
+}
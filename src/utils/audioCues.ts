@@ -0,0 +1,117 @@
+/**
+ * 声音提示：观察报时、传感器提示音、语音报成绩与新纪录播报
+ *
+ * 提示音用 Web Audio 振荡器合成，语音用 Speech Synthesis（中文）。浏览器只允许在用户手势中
+ * 启动音频，AudioContext 挂起期间不排队提示音，避免恢复后补放过时的声音。
+ */
+import type { Penalty } from '../types';
+import { resultTime } from './timeFormat';
+
+const AUDIO_KEY = 'cube-rush-audio';
+
+export type CueKey = 'inspection' | 'sensor' | 'time' | 'record';
+
+export interface AudioSettings {
+  /** 音量 0 - 1，提示音与语音共用 */
+  volume: number;
+  cues: Record<CueKey, boolean>;
+}
+
+export const CUE_OPTIONS: { key: CueKey; title: string; desc: string }[] = [
+  { key: 'inspection', title: '观察报时', desc: '观察到 8 秒和 12 秒时语音提醒' },
+  { key: 'sensor', title: '传感器提示音', desc: '传感器模式可以开始时低音，检测到轻拍触发时高音' },
+  { key: 'time', title: '语音报成绩', desc: '每次停止后读出成绩' },
+  { key: 'record', title: '新纪录播报', desc: '刷新最佳单次或最佳 Ao5 时语音播报' },
+];
+
+/** 默认全部关闭 */
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volume: 0.8,
+  cues: { inspection: false, sensor: false, time: false, record: false },
+};
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUDIO_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_AUDIO_SETTINGS;
+    return {
+      volume: typeof saved.volume === 'number' ? Math.min(1, Math.max(0, saved.volume)) : DEFAULT_AUDIO_SETTINGS.volume,
+      cues: { ...DEFAULT_AUDIO_SETTINGS.cues, ...saved.cues },
+    };
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  localStorage.setItem(AUDIO_KEY, JSON.stringify(settings));
+}
+
+/** 观察报时的时刻 (ms)：与 WCA 裁判一致，在 8 秒和 12 秒时提醒 */
+export const INSPECTION_CALLS = [8000, 12000];
+
+/** 从 previous 到 current 之间经过的报时时刻；没有经过时为 null */
+export function inspectionCall(previous: number, current: number): number | null {
+  return INSPECTION_CALLS.find((at) => previous < at && current >= at) ?? null;
+}
+
+/** arm：传感器可以开始；trigger：轻拍触发了开始或停止 */
+export type BeepKind = 'arm' | 'trigger';
+
+const BEEPS: Record<BeepKind, { frequency: number; duration: number }> = {
+  arm: { frequency: 660, duration: 120 },
+  trigger: { frequency: 1320, duration: 70 },
+};
+
+let context: AudioContext | null = null;
+
+function getContext(): AudioContext | null {
+  if (typeof AudioContext === 'undefined') return null;
+  context ??= new AudioContext();
+  return context;
+}
+
+/** 在用户手势中调用：创建或恢复 AudioContext */
+export function resumeAudio() {
+  const ctx = getContext();
+  if (ctx?.state === 'suspended') ctx.resume().catch(() => {});
+}
+
+export function playBeep(kind: BeepKind, volume: number) {
+  const ctx = getContext();
+  if (!ctx || ctx.state !== 'running' || volume <= 0) return;
+  const { frequency, duration } = BEEPS[kind];
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.frequency.value = frequency;
+  const start = ctx.currentTime;
+  const end = start + duration / 1000;
+  // 指数衰减到静音，结尾不会有爆音
+  gain.gain.setValueAtTime(volume, start);
+  gain.gain.exponentialRampToValueAtTime(0.0001, end);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(end);
+}
+
+/** 朗读一段中文；interrupt 时先打断还没读完的内容 */
+export function speak(text: string, volume: number, interrupt = false) {
+  if (typeof speechSynthesis === 'undefined' || volume <= 0) return;
+  if (interrupt) speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'zh-CN';
+  utterance.volume = volume;
+  speechSynthesis.speak(utterance);
+}
+
+/**
+ * 读出的成绩：如 "12.34 秒"、"1 分 2.34 秒"；+2 读计入判罚后的成绩再加 "加 2"，DNF 读 "DNF"
+ */
+export function spokenTime(time: number, penalty?: Penalty): string {
+  if (penalty === 'DNF' || !Number.isFinite(time)) return 'DNF';
+  const centiseconds = Math.floor(resultTime({ time, penalty }) / 10);
+  const minutes = Math.floor(centiseconds / 6000);
+  const seconds = ((centiseconds % 6000) / 100).toFixed(2);
+  const text = minutes > 0 ? `${minutes} 分 ${seconds} 秒` : `${seconds} 秒`;
+  return penalty === '+2' ? `${text}，加 2` : text;
+}
@@ -0,0 +1,89 @@
+/**
+ * 图表计算：坐标刻度、日期刻度、成绩分布
+ */
+import { DNF } from './timeFormat';
+
+/** 1 / 2 / 5 × 10ⁿ 中最接近 span / count 的步长 */
+function niceStep(span: number, count: number): number {
+  const raw = span / Math.max(1, count);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const residual = raw / magnitude;
+  const nice = residual >= 5 ? 5 : residual >= 2 ? 2 : 1;
+  return nice * magnitude;
+}
+
+/** [min, max] 内约 count 个整齐的刻度 */
+export function linearTicks(min: number, max: number, count = 5): number[] {
+  if (!(max > min)) return [min];
+  const step = niceStep(max - min, count);
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max; v += step) ticks.push(v);
+  return ticks;
+}
+
+export interface DateRange {
+  from: number;
+  to: number;
+}
+
+/** 以 anchor 为中心把日期范围缩放 factor 倍（factor < 1 放大） */
+export function zoomRange({ from, to }: DateRange, factor: number, anchor = (from + to) / 2): DateRange {
+  return { from: anchor - (anchor - from) * factor, to: anchor + (to - anchor) * factor };
+}
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+const DATE_STEPS = [HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR, DAY, 2 * DAY, 7 * DAY, 14 * DAY, 30 * DAY, 90 * DAY, 365 * DAY];
+
+/**
+ * 日期刻度：按本地时间对齐到整点 / 整天；跨度不到两天时显示时分，否则显示月/日
+ */
+export function dateTicks(from: number, to: number, count = 5): { value: number; label: string }[] {
+  const span = to - from;
+  const step = DATE_STEPS.find((s) => span / s <= count) ?? DATE_STEPS[DATE_STEPS.length - 1];
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const label = (value: number) => {
+    const d = new Date(value);
+    return span < 2 * DAY ? `${pad(d.getHours())}:${pad(d.getMinutes())}` : `${d.getMonth() + 1}/${d.getDate()}`;
+  };
+  // 以本地零点为基准对齐，避免刻度落在奇怪的时刻
+  const origin = new Date(from);
+  origin.setHours(0, 0, 0, 0);
+  const ticks: { value: number; label: string }[] = [];
+  for (let v = origin.getTime() + Math.ceil((from - origin.getTime()) / step) * step; v <= to; v += step) {
+    ticks.push({ value: v, label: label(v) });
+  }
+  return ticks;
+}
+
+export interface HistogramBin {
+  from: number;
+  /** 最后一个区间可能收拢全部慢成绩，此时为 Infinity */
+  to: number;
+  count: number;
+}
+
+/** 区间过多时，超出部分并入最后一个区间 */
+const MAX_BINS = 60;
+
+/**
+ * 成绩分布：按 bucket 毫秒分组，DNF 不计入
+ */
+export function histogram(times: number[], bucket: number): HistogramBin[] {
+  const valid = times.filter((t) => t !== DNF);
+  if (valid.length === 0) return [];
+  const min = valid.reduce((a, b) => Math.min(a, b));
+  const max = valid.reduce((a, b) => Math.max(a, b));
+  const start = Math.floor(min / bucket) * bucket;
+  const binCount = Math.min(MAX_BINS, Math.floor((max - start) / bucket) + 1);
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    from: start + i * bucket,
+    to: start + (i + 1) * bucket,
+    count: 0,
+  }));
+  if (binCount === MAX_BINS) bins[binCount - 1].to = Infinity;
+  for (const t of valid) {
+    bins[Math.min(binCount - 1, Math.floor((t - start) / bucket))].count++;
+  }
+  return bins;
+}
@@ -0,0 +1,136 @@
+/**
+ * 模拟比赛规则：赛制、及格线（cutoff）、限时（time limit）与轮次成绩
+ *
+ * 按 WCA 规则：
+ * - 达到限时（含 +2）的还原判 DNF
+ * - 前几次都没有快于及格线时本轮提前结束，不计平均
+ * - 平均 / 平均值四舍五入到 0.01 秒
+ */
+import type { CompAttempt, CompRound, RoundFormat, RoundSettings } from '../types';
+import { calcAverage, trimmedIndices } from './stats';
+import { DNF, formatTime, resultTime } from './timeFormat';
+
+const COMP_SETTINGS_KEY = 'cube-rush-comp-settings';
+const ACTIVE_ROUND_KEY = 'cube-rush-comp-active';
+
+export interface RoundFormatInfo {
+  id: RoundFormat;
+  name: string;
+  /** 本轮还原次数 */
+  attempts: number;
+  /** 计算平均时两端各去掉几次；Bo3 以单次排名，不去尾 */
+  trim: number;
+}
+
+export const ROUND_FORMATS: RoundFormatInfo[] = [
+  { id: 'ao5', name: 'Ao5', attempts: 5, trim: 1 },
+  { id: 'mo3', name: 'Mo3', attempts: 3, trim: 0 },
+  { id: 'bo3', name: 'Bo3', attempts: 3, trim: 0 },
+];
+
+export function getRoundFormat(id: RoundFormat): RoundFormatInfo {
+  return ROUND_FORMATS.find((f) => f.id === id) ?? ROUND_FORMATS[0];
+}
+
+export const DEFAULT_ROUND_SETTINGS: RoundSettings = { format: 'ao5', cutoff: null, timeLimit: null };
+
+export function loadRoundSettings(): RoundSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COMP_SETTINGS_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_ROUND_SETTINGS;
+    return {
+      format: getRoundFormat(saved.format).id,
+      cutoff: saved.cutoff ?? null,
+      timeLimit: saved.timeLimit ?? null,
+    };
+  } catch {
+    return DEFAULT_ROUND_SETTINGS;
+  }
+}
+
+export function saveRoundSettings(settings: RoundSettings) {
+  localStorage.setItem(COMP_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/** 进行中的一轮：刷新页面后继续 */
+export function loadActiveRound(): CompRound | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACTIVE_ROUND_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object' || !Array.isArray(saved.attempts) || !saved.settings) return null;
+    return saved;
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveRound(round: CompRound | null) {
+  if (round) localStorage.setItem(ACTIVE_ROUND_KEY, JSON.stringify(round));
+  else localStorage.removeItem(ACTIVE_ROUND_KEY);
+}
+
+/** 一次还原的成绩：计入判罚，达到限时判 DNF */
+export function attemptResult(attempt: CompAttempt, settings: RoundSettings): number {
+  const result = resultTime(attempt);
+  if (settings.timeLimit !== null && result >= settings.timeLimit) return DNF;
+  return result;
+}
+
+/** 轮次进度：进行中、未过及格线提前结束、全部完成 */
+export type RoundStatus = 'running' | 'cutoff' | 'complete';
+
+export function roundStatus(settings: RoundSettings, attempts: CompAttempt[]): RoundStatus {
+  const { cutoff } = settings;
+  if (attempts.length >= getRoundFormat(settings.format).attempts) return 'complete';
+  if (cutoff && attempts.length >= cutoff.attempts && !madeCutoff(settings, attempts)) return 'cutoff';
+  return 'running';
+}
+
+/** 及格线内的几次中是否有快于及格线的成绩 */
+export function madeCutoff(settings: RoundSettings, attempts: CompAttempt[]): boolean {
+  const { cutoff } = settings;
+  if (!cutoff) return true;
+  return attempts.slice(0, cutoff.attempts).some((a) => attemptResult(a, settings) < cutoff.time);
+}
+
+/** 还剩几次还原（未过及格线时为 0） */
+export function remainingAttempts(settings: RoundSettings, attempts: CompAttempt[]): number {
+  if (roundStatus(settings, attempts) !== 'running') return 0;
+  return getRoundFormat(settings.format).attempts - attempts.length;
+}
+
+// WCA 9f2：平均四舍五入到百分之一秒
+function roundAverage(value: number): number {
+  return value === DNF ? DNF : Math.round(value / 10) * 10;
+}
+
+export interface RoundResult {
+  best: number | null;
+  /** 官方平均（Ao5 去头尾平均，Mo3 / Bo3 为三次平均）；未完成或未过及格线时为 null */
+  average: number | null;
+  /** 计算 Ao5 时被去掉的成绩下标 */
+  trimmed: Set<number>;
+}
+
+export function roundResult(settings: RoundSettings, attempts: CompAttempt[]): RoundResult {
+  const format = getRoundFormat(settings.format);
+  const results = attempts.map((a) => attemptResult(a, settings));
+  const best = results.length > 0 ? Math.min(...results) : null;
+  if (results.length < format.attempts) return { best, average: null, trimmed: new Set() };
+
+  const average = calcAverage(results, format.trim);
+  return {
+    best,
+    average: average === null ? null : roundAverage(average),
+    trimmed: trimmedIndices(results, format.trim),
+  };
+}
+
+/** 规则说明，如 "Ao5 · 及格线 2 次内 < 20.00 · 限时 1:00.00" */
+export function describeRound(settings: RoundSettings): string {
+  const parts = [getRoundFormat(settings.format).name];
+  if (settings.cutoff) {
+    parts.push(`及格线 ${settings.cutoff.attempts} 次内 < ${formatTime(settings.cutoff.time)}`);
+  }
+  if (settings.timeLimit !== null) parts.push(`限时 ${formatTime(settings.timeLimit)}`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,234 @@
+/**
+ * NxN 魔方状态模型（贴纸级）
+ *
+ * 状态为 6·n² 个贴纸，按 U R F D L B 面顺序排列，每个面按行优先存储，
+ * 与 Kociemba 的 facelet 字符串一致（3x3 时 toFaceletString 可直接交给求解器）。
+ *
+ * 每个贴纸对应一个整数三维坐标（x 向右 / y 向上 / z 向前，层坐标取 -(n-1)..(n-1) 的奇偶步长，
+ * 面坐标为 ±n），转动即对某一轴上若干层的贴纸做 90° 旋转，置换表按需计算并缓存。
+ */
+
+export type Face = 'U' | 'R' | 'F' | 'D' | 'L' | 'B';
+export type Axis = 'x' | 'y' | 'z';
+
+export const FACE_ORDER: readonly Face[] = ['U', 'R', 'F', 'D', 'L', 'B'];
+
+export interface CubeState {
+  size: number;
+  facelets: Face[];
+}
+
+export interface CubeMove {
+  axis: Axis;
+  /** 参与转动的层（沿轴正方向从 0 计数） */
+  layers: number[];
+  /** 顺时针（从该轴正方向看）四分之一转的次数：1 / 2 / 3 */
+  turns: number;
+}
+
+type Vec3 = [number, number, number];
+
+const AXIS_INDEX: Record<Axis, number> = { x: 0, y: 1, z: 2 };
+
+// 各面所在的轴和方向
+const FACE_AXIS: Record<Face, { axis: Axis; sign: 1 | -1 }> = {
+  U: { axis: 'y', sign: 1 },
+  D: { axis: 'y', sign: -1 },
+  R: { axis: 'x', sign: 1 },
+  L: { axis: 'x', sign: -1 },
+  F: { axis: 'z', sign: 1 },
+  B: { axis: 'z', sign: -1 },
+};
+
+// 中层 / 整体转动跟随的面：M 跟 L，E 跟 D，S 跟 F；x 跟 R，y 跟 U，z 跟 F
+const SLICE_FACE: Record<string, Face> = { M: 'L', E: 'D', S: 'F' };
+const ROTATION_FACE: Record<string, Face> = { x: 'R', y: 'U', z: 'F' };
+
+/** 面上第 (row, col) 个贴纸的三维坐标 */
+function faceletPosition(face: Face, row: number, col: number, n: number): Vec3 {
+  const a = -(n - 1) + 2 * col;
+  const b = -(n - 1) + 2 * row;
+  switch (face) {
+    case 'U':
+      return [a, n, b];
+    case 'D':
+      return [a, -n, -b];
+    case 'F':
+      return [a, -b, n];
+    case 'B':
+      return [-a, -b, -n];
+    case 'R':
+      return [n, -b, -a];
+    case 'L':
+      return [-n, -b, a];
+  }
+}
+
+/** 绕轴正方向顺时针旋转 90°（即右手系中的 -90°） */
+function rotateQuarter(p: Vec3, axis: Axis): Vec3 {
+  const [x, y, z] = p;
+  switch (axis) {
+    case 'x':
+      return [x, z, -y];
+    case 'y':
+      return [-z, y, x];
+    case 'z':
+      return [y, -x, z];
+  }
+}
+
+interface Geometry {
+  positions: Vec3[];
+  indexOf: Map<string, number>;
+}
+
+const geometryCache = new Map<number, Geometry>();
+const permutationCache = new Map<string, number[]>();
+
+function getGeometry(n: number): Geometry {
+  let geometry = geometryCache.get(n);
+  if (!geometry) {
+    const positions: Vec3[] = [];
+    const indexOf = new Map<string, number>();
+    for (const face of FACE_ORDER) {
+      for (let row = 0; row < n; row++) {
+        for (let col = 0; col < n; col++) {
+          const p = faceletPosition(face, row, col, n);
+          indexOf.set(p.join(','), positions.length);
+          positions.push(p);
+        }
+      }
+    }
+    geometry = { positions, indexOf };
+    geometryCache.set(n, geometry);
+  }
+  return geometry;
+}
+
+/** 坐标在某轴上所属的层号（面上的贴纸归入最外层） */
+function layerOf(coord: number, n: number): number {
+  if (coord === n) return n - 1;
+  if (coord === -n) return 0;
+  return (coord + n - 1) / 2;
+}
+
+/** 一次顺时针四分之一转的置换：perm[src] = dest */
+function getQuarterPermutation(n: number, axis: Axis, layers: number[]): number[] {
+  const key = `${n}:${axis}:${layers.join(',')}`;
+  let perm = permutationCache.get(key);
+  if (!perm) {
+    const { positions, indexOf } = getGeometry(n);
+    const layerSet = new Set(layers);
+    const ai = AXIS_INDEX[axis];
+    perm = positions.map((p, i) => {
+      if (!layerSet.has(layerOf(p[ai], n))) return i;
+      return indexOf.get(rotateQuarter(p, axis).join(','))!;
+    });
+    permutationCache.set(key, perm);
+  }
+  return perm;
+}
+
+export function createSolvedCube(size = 3): CubeState {
+  const facelets: Face[] = [];
+  for (const face of FACE_ORDER) {
+    for (let i = 0; i < size * size; i++) facelets.push(face);
+  }
+  return { size, facelets };
+}
+
+const MOVE_PATTERN = /^(\d*)([URFDLBurfdlbMESxyz])(w?)(\d*)('?)$/;
+
+/**
+ * 解析单步转动，支持：
+ * - 面转动 R / R' / R2 / R2'
+ * - 宽层 Rw、r（两层）、3Rw（三层）
+ * - 单层内层 2R（只转第 2 层）
+ * - 中层 M / E / S，整体转动 x / y / z
+ */
+export function parseMove(token: string, size = 3): CubeMove {
+  const match = MOVE_PATTERN.exec(token);
+  if (!match) throw new Error(`无法识别的转动: ${token}`);
+  const [, prefix, letter, wide, amountStr, prime] = match;
+
+  const amount = amountStr === '' ? 1 : parseInt(amountStr, 10);
+  const quarterTurns = ((prime ? -amount : amount) % 4 + 4) % 4;
+  const all = Array.from({ length: size }, (_, i) => i);
+
+  let face: Face;
+  let layers: number[];
+  if (letter in SLICE_FACE) {
+    if (prefix || wide) throw new Error(`无法识别的转动: ${token}`);
+    face = SLICE_FACE[letter];
+    layers = all.slice(1, -1);
+  } else if (letter in ROTATION_FACE) {
+    if (prefix || wide) throw new Error(`无法识别的转动: ${token}`);
+    face = ROTATION_FACE[letter];
+    layers = all;
+  } else {
+    const lower = letter === letter.toLowerCase();
+    face = letter.toUpperCase() as Face;
+    const depthFromFace = (d: number) => (FACE_AXIS[face].sign > 0 ? size - 1 - d : d);
+    if (wide || lower) {
+      const depth = prefix ? parseInt(prefix, 10) : 2;
+      if (depth < 1 || depth > size) throw new Error(`无法识别的转动: ${token}`);
+      layers = Array.from({ length: depth }, (_, d) => depthFromFace(d));
+    } else if (prefix) {
+      const slice = parseInt(prefix, 10);
+      if (slice < 1 || slice > size) throw new Error(`无法识别的转动: ${token}`);
+      layers = [depthFromFace(slice - 1)];
+    } else {
+      layers = [depthFromFace(0)];
+    }
+  }
+
+  const { axis, sign } = FACE_AXIS[face];
+  const turns = sign > 0 ? quarterTurns : (4 - quarterTurns) % 4;
+  return { axis, layers: [...layers].sort((a, b) => a - b), turns };
+}
+
+export function applyMove(state: CubeState, move: string | CubeMove): CubeState {
+  const m = typeof move === 'string' ? parseMove(move, state.size) : move;
+  let facelets = state.facelets;
+  if (m.turns === 0 || m.layers.length === 0) return state;
+
+  const perm = getQuarterPermutation(state.size, m.axis, m.layers);
+  for (let t = 0; t < m.turns; t++) {
+    const next = facelets.slice();
+    for (let i = 0; i < perm.length; i++) next[perm[i]] = facelets[i];
+    facelets = next;
+  }
+  return { size: state.size, facelets };
+}
+
+/** 依次执行空格分隔的一串转动 */
+export function applyAlgorithm(state: CubeState, alg: string): CubeState {
+  return alg
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .reduce((s, token) => applyMove(s, token), state);
+}
+
+/** 从还原状态执行打乱，得到打乱后的状态 */
+export function scrambleCube(scramble: string, size = 3): CubeState {
+  return applyAlgorithm(createSolvedCube(size), scramble);
+}
+
+export function getFace(state: CubeState, face: Face): Face[] {
+  const n2 = state.size * state.size;
+  const start = FACE_ORDER.indexOf(face) * n2;
+  return state.facelets.slice(start, start + n2);
+}
+
+export function isSolved(state: CubeState): boolean {
+  const n2 = state.size * state.size;
+  return state.facelets.every((f, i) => {
+    const base = i - (i % n2);
+    return f === state.facelets[base];
+  });
+}
+
+export function toFaceletString(state: CubeState): string {
+  return state.facelets.join('');
+}
@@ -0,0 +1,216 @@
+/**
+ * 成绩数据库（IndexedDB）
+ *
+ * 成绩逐条读写，按会话 / 项目 / 日期建索引；模拟比赛的轮次单独一张表。
+ * 数据库版本即 MIGRATIONS 的长度：从版本 n 升级时依次执行 MIGRATIONS[n] 及之后的迁移。
+ */
+import type { CompRound, SolveRecord } from '../types';
+import type { PuzzleType } from './puzzles';
+import { clearLegacyRecords, loadLegacyRecords } from './storage';
+
+const DB_NAME = 'cube-rush';
+const RECORDS_STORE = 'records';
+const COMP_ROUNDS_STORE = 'compRounds';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  // v1：成绩表，并迁入 localStorage 中的旧成绩
+  (db) => {
+    const store = db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+    store.createIndex('sessionId', 'sessionId');
+    store.createIndex('puzzle', 'puzzle');
+    store.createIndex('date', 'date');
+    store.createIndex('sessionPuzzle', ['sessionId', 'puzzle']);
+    for (const record of loadLegacyRecords()) store.put(record);
+  },
+  // v2：模拟比赛轮次表
+  (db) => {
+    const store = db.createObjectStore(COMP_ROUNDS_STORE, { keyPath: 'id' });
+    store.createIndex('puzzle', 'puzzle');
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('事务已中止', 'AbortError'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前浏览器不支持 IndexedDB'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedLegacy = false;
+
+    request.onupgradeneeded = (e) => {
+      const tx = request.transaction!;
+      for (let version = e.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](request.result, tx);
+      }
+      migratedLegacy = e.oldVersion === 0;
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // 其他标签页升级数据库时关闭连接，下次读写重新打开
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      // 迁移事务已提交，可以安全删除旧数据
+      if (migratedLegacy) clearLegacyRecords();
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** 在一个读写事务中操作某张表，事务提交后 resolve */
+async function writeStore(name: string, run: (store: IDBObjectStore) => void): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(name, 'readwrite');
+  run(tx.objectStore(name));
+  return transactionDone(tx);
+}
+
+function writeRecords(run: (store: IDBObjectStore) => void): Promise<void> {
+  return writeStore(RECORDS_STORE, run);
+}
+
+// ── 查询 ──
+
+export interface RecordQuery {
+  sessionId?: string;
+  puzzle?: PuzzleType;
+  /** 日期范围（毫秒时间戳，含两端） */
+  from?: number;
+  to?: number;
+}
+
+/** 按条件选择最合适的索引，其余条件在结果中过滤 */
+function queryIndex(store: IDBObjectStore, query: RecordQuery): { source: IDBIndex; range: IDBKeyRange | null } {
+  const { sessionId, puzzle, from, to } = query;
+  if (sessionId !== undefined && puzzle !== undefined) {
+    return { source: store.index('sessionPuzzle'), range: IDBKeyRange.only([sessionId, puzzle]) };
+  }
+  if (sessionId !== undefined) return { source: store.index('sessionId'), range: IDBKeyRange.only(sessionId) };
+  if (puzzle !== undefined) return { source: store.index('puzzle'), range: IDBKeyRange.only(puzzle) };
+  const range = from === undefined && to === undefined ? null : IDBKeyRange.bound(from ?? -Infinity, to ?? Infinity);
+  return { source: store.index('date'), range };
+}
+
+function matches(record: SolveRecord, { sessionId, puzzle, from, to }: RecordQuery): boolean {
+  return (
+    (sessionId === undefined || record.sessionId === sessionId) &&
+    (puzzle === undefined || record.puzzle === puzzle) &&
+    (from === undefined || record.date >= from) &&
+    (to === undefined || record.date <= to)
+  );
+}
+
+/**
+ * 查询成绩，结果按日期最新在前；不传条件时返回全部成绩
+ */
+export async function getRecords(query: RecordQuery = {}): Promise<SolveRecord[]> {
+  const db = await openDatabase();
+  const store = db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE);
+  const { source, range } = queryIndex(store, query);
+  const records: SolveRecord[] = await requestResult(source.getAll(range));
+  return records.filter((r) => matches(r, query)).sort((a, b) => b.date - a.date);
+}
+
+/** 遍历符合条件的成绩（游标可更新或删除） */
+function eachRecord(store: IDBObjectStore, query: RecordQuery, visit: (cursor: IDBCursorWithValue) => void) {
+  const { source, range } = queryIndex(store, query);
+  const request = source.openCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (matches(cursor.value, query)) visit(cursor);
+    cursor.continue();
+  };
+}
+
+// ── 写入 ──
+
+export function putRecords(records: SolveRecord[]): Promise<void> {
+  return writeRecords((store) => records.forEach((r) => store.put(r)));
+}
+
+export function patchRecord(id: number, patch: Partial<Omit<SolveRecord, 'id'>>): Promise<void> {
+  return writeRecords((store) => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, ...patch });
+    };
+  });
+}
+
+export function deleteRecord(id: number): Promise<void> {
+  return writeRecords((store) => store.delete(id));
+}
+
+/** 删除符合条件的全部成绩 */
+export function deleteRecords(query: RecordQuery): Promise<void> {
+  return writeRecords((store) => eachRecord(store, query, (cursor) => cursor.delete()));
+}
+
+/** 把一个会话的成绩全部移到另一个会话 */
+export function moveRecords(fromSessionId: string, toSessionId: string): Promise<void> {
+  return writeRecords((store) =>
+    eachRecord(store, { sessionId: fromSessionId }, (cursor) =>
+      cursor.update({ ...cursor.value, sessionId: toSessionId })
+    )
+  );
+}
+
+// ── 模拟比赛 ──
+
+/** 全部模拟比赛轮次，最新在前 */
+export async function getCompRounds(): Promise<CompRound[]> {
+  const db = await openDatabase();
+  const store = db.transaction(COMP_ROUNDS_STORE).objectStore(COMP_ROUNDS_STORE);
+  const rounds: CompRound[] = await requestResult(store.getAll());
+  return rounds.sort((a, b) => b.date - a.date);
+}
+
+export function putCompRound(round: CompRound): Promise<void> {
+  return writeStore(COMP_ROUNDS_STORE, (store) => store.put(round));
+}
+
+export function deleteCompRound(id: number): Promise<void> {
+  return writeStore(COMP_ROUNDS_STORE, (store) => store.delete(id));
+}
+
+/**
+ * 存储错误的提示文案：空间不足单独说明
+ */
+export function describeStorageError(err: unknown): string {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'QuotaExceededError') {
+    return '存储空间已满，最近的成绩未能保存。请导出成绩后清理旧会话。';
+  }
+  const detail = err instanceof Error ? err.message : String(err);
+  return `成绩保存失败：${detail}`;
+}
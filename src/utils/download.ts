@@ -0,0 +1,12 @@
+/**
+ * 把文本保存为文件下载
+ */
+export function downloadText(text: string, fileName: string, mime = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // 等浏览器开始下载后再释放
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
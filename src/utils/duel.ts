@@ -0,0 +1,82 @@
+/**
+ * 双人对战：一台设备上两人同打乱对拼，按轮计分
+ *
+ * 对战成绩只在本场内统计，不进入会话。
+ */
+import type { Penalty } from '../types';
+import { DNF, resultTime } from './timeFormat';
+
+const DUEL_KEY = 'cube-rush-duel';
+
+/** 可选的一场轮数 */
+export const MATCH_LENGTHS = [3, 5, 7, 12];
+
+export interface DuelSettings {
+  names: [string, string];
+  rounds: number;
+}
+
+export interface DuelResult {
+  time: number;
+  penalty?: Penalty;
+}
+
+/** 一轮：同一条打乱，两人各一次成绩 */
+export interface DuelRound {
+  scramble: string;
+  results: [DuelResult, DuelResult];
+}
+
+/** 玩家编号：0 为下半屏，1 为上半屏（倒置） */
+export type DuelPlayer = 0 | 1;
+
+function defaultSettings(): DuelSettings {
+  return { names: ['玩家 1', '玩家 2'], rounds: 5 };
+}
+
+export function loadDuelSettings(): DuelSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DUEL_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return defaultSettings();
+    return { ...defaultSettings(), ...saved };
+  } catch {
+    return defaultSettings();
+  }
+}
+
+export function saveDuelSettings(settings: DuelSettings) {
+  localStorage.setItem(DUEL_KEY, JSON.stringify(settings));
+}
+
+/** 本轮胜者；同时或都 DNF 时为 null */
+export function roundWinner(round: DuelRound): DuelPlayer | null {
+  const [a, b] = round.results.map(resultTime);
+  if (a === b) return null;
+  return a < b ? 0 : 1;
+}
+
+/** 双方各赢了几轮 */
+export function matchScore(rounds: DuelRound[]): [number, number] {
+  const score: [number, number] = [0, 0];
+  for (const round of rounds) {
+    const winner = roundWinner(round);
+    if (winner !== null) score[winner]++;
+  }
+  return score;
+}
+
+export interface PlayerSummary {
+  /** 最佳单次，还没有成绩时为 null */
+  best: number | null;
+  /** 全部成绩的平均；有 DNF 时为 DNF */
+  mean: number | null;
+}
+
+export function playerSummary(rounds: DuelRound[], player: DuelPlayer): PlayerSummary {
+  const results = rounds.map((r) => resultTime(r.results[player]));
+  if (results.length === 0) return { best: null, mean: null };
+  return {
+    best: Math.min(...results),
+    mean: results.includes(DNF) ? DNF : results.reduce((a, b) => a + b, 0) / results.length,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * 冲击检测：从 DeviceMotion 加速度中识别轻拍
+ *
+ * 1. 高通滤波去掉重力（以及手机倾斜带来的缓慢变化），得到三轴线性加速度
+ * 2. 保留最近一小段采样作为滑动窗口
+ * 3. 幅值超过阈值开始一次"冲击"，回落并保持安静后按峰形分类：
+ *    - tap：上升快、超过半峰值的时间短，魔方拍在桌上 / 手拍手机
+ *    - lift：持续时间长、以垂直方向（z 轴）为主，拿起或放下手机
+ *    - slide：持续时间长、以水平方向为主，推动手机或桌面晃动
+ *
+ * 纯函数实现，不依赖浏览器，实时检测与回放轨迹共用同一套逻辑。
+ */
+
+/** 一次加速度采样：t 为毫秒时间戳，x/y/z 为含重力加速度 (m/s²) */
+export interface MotionSample {
+  t: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type ImpactKind = 'tap' | 'lift' | 'slide';
+
+export interface ImpactEvent {
+  kind: ImpactKind;
+  /** 冲击开始（首次超过阈值）的时间戳，与采样时间同一时基 */
+  time: number;
+  /** 去掉重力后的峰值加速度 (m/s²) */
+  peak: number;
+  /** 超过半峰值的持续时间 (ms) */
+  duration: number;
+}
+
+export interface DetectorConfig {
+  /** 冲击检测阈值：去掉重力后加速度的最小值 (m/s²) */
+  threshold: number;
+  /** 一次冲击结束后的冷却时间 (ms)，避免一次振动触发多次 */
+  cooldownMs: number;
+}
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig = {
+  threshold: 1.2,
+  cooldownMs: 600,
+};
+
+/** 高通截止频率：低于它的变化（重力、倾斜）被滤掉 */
+const HIGH_PASS_HZ = 2;
+/** 滑动窗口长度 */
+const WINDOW_MS = 400;
+/** 采样间隔超过它视为中断，滤波器重新开始 */
+const MAX_GAP_MS = 200;
+/** 回落到阈值的这一比例以下并保持 QUIET_MS，冲击结束 */
+const RELEASE_RATIO = 0.5;
+const QUIET_MS = 30;
+/** 冲击持续超过它仍未结束时立即分类，不再等待 */
+const MAX_EPISODE_MS = 150;
+/** 轻拍的峰形：超过半峰值不超过 60ms，从 1/4 峰值升到峰值不超过 40ms */
+const TAP_MAX_WIDTH_MS = 60;
+const TAP_MAX_RISE_MS = 40;
+
+/** 高通滤波后的采样：x/y/z 为线性加速度，magnitude 为其幅值 */
+export interface FilteredSample {
+  t: number;
+  dt: number;
+  x: number;
+  y: number;
+  z: number;
+  magnitude: number;
+}
+
+interface Episode {
+  onset: number;
+  /** 最后一次高于回落电平的时间 */
+  lastLoud: number;
+  reported: boolean;
+}
+
+/**
+ * 按峰形对一次冲击分类；window 为包含冲击及其之前一段的滤波后采样
+ */
+function classify(window: FilteredSample[], onset: number): ImpactEvent {
+  const samples = window.filter((s) => s.t >= onset);
+  let peakIndex = window.indexOf(samples[0]);
+  for (let i = peakIndex; i < window.length; i++) {
+    if (window[i].magnitude > window[peakIndex].magnitude) peakIndex = i;
+  }
+  const peak = window[peakIndex].magnitude;
+
+  // 每个采样代表它之前 dt 这段时间
+  let duration = 0;
+  const energy = { x: 0, y: 0, z: 0 };
+  for (const s of samples) {
+    if (s.magnitude >= peak / 2) duration += s.dt;
+    energy.x += s.x * s.x;
+    energy.y += s.y * s.y;
+    energy.z += s.z * s.z;
+  }
+
+  // 上升时间：峰值之前最后一个低于 1/4 峰值的采样到峰值
+  let riseFrom = window[0].t;
+  for (let i = peakIndex - 1; i >= 0; i--) {
+    if (window[i].magnitude < peak / 4) {
+      riseFrom = window[i].t;
+      break;
+    }
+  }
+  const rise = window[peakIndex].t - riseFrom;
+
+  const kind: ImpactKind =
+    duration <= TAP_MAX_WIDTH_MS && rise <= TAP_MAX_RISE_MS
+      ? 'tap'
+      : energy.z >= energy.x + energy.y
+        ? 'lift'
+        : 'slide';
+  return { kind, time: onset, peak, duration };
+}
+
+export interface MotionFilter {
+  /** 输入一次采样，返回滤波结果；第一次采样、采样中断或乱序时返回 null */
+  push: (sample: MotionSample) => FilteredSample | null;
+  reset: () => void;
+}
+
+/**
+ * 一阶高通滤波：去掉重力与倾斜等缓慢变化
+ */
+export function createMotionFilter(): MotionFilter {
+  const rc = 1000 / (2 * Math.PI * HIGH_PASS_HZ);
+  let prev: MotionSample | null = null;
+  let filtered = { x: 0, y: 0, z: 0 };
+
+  const reset = () => {
+    prev = null;
+    filtered = { x: 0, y: 0, z: 0 };
+  };
+
+  const push = (sample: MotionSample): FilteredSample | null => {
+    if (prev && sample.t <= prev.t) return null; // 重复或乱序的采样
+    if (!prev || sample.t - prev.t > MAX_GAP_MS) {
+      // 第一次采样或中断后：以当前值为基准重新开始
+      prev = sample;
+      filtered = { x: 0, y: 0, z: 0 };
+      return null;
+    }
+    const dt = sample.t - prev.t;
+    const alpha = rc / (rc + dt);
+    filtered = {
+      x: alpha * (filtered.x + sample.x - prev.x),
+      y: alpha * (filtered.y + sample.y - prev.y),
+      z: alpha * (filtered.z + sample.z - prev.z),
+    };
+    prev = sample;
+    return { t: sample.t, dt, ...filtered, magnitude: Math.hypot(filtered.x, filtered.y, filtered.z) };
+  };
+
+  return { push, reset };
+}
+
+export interface ImpactDetector {
+  /** 输入一次采样，检测到冲击时返回事件 */
+  push: (sample: MotionSample) => ImpactEvent | null;
+  /** 清空滤波器与窗口（如切换模式、回放新轨迹前） */
+  reset: () => void;
+}
+
+export function createImpactDetector(config: Partial<DetectorConfig> = {}): ImpactDetector {
+  const { threshold, cooldownMs } = { ...DEFAULT_DETECTOR_CONFIG, ...config };
+  const filter = createMotionFilter();
+  let window: FilteredSample[] = [];
+  let episode: Episode | null = null;
+  let cooldownUntil = -Infinity;
+
+  const reset = () => {
+    filter.reset();
+    window = [];
+    episode = null;
+    cooldownUntil = -Infinity;
+  };
+
+  const push = (sample: MotionSample): ImpactEvent | null => {
+    const current = filter.push(sample);
+    if (!current) {
+      // 滤波器重新开始时窗口与未结束的冲击一并作废（乱序采样除外）
+      if (window.length > 0 && sample.t > window[window.length - 1].t) {
+        window = [];
+        episode = null;
+      }
+      return null;
+    }
+    const { magnitude } = current;
+    window.push(current);
+    while (window.length > 0 && window[0].t < sample.t - WINDOW_MS) window.shift();
+
+    if (!episode) {
+      if (magnitude <= threshold || sample.t < cooldownUntil) return null;
+      episode = { onset: sample.t, lastLoud: sample.t, reported: false };
+      return null;
+    }
+
+    if (magnitude >= threshold * RELEASE_RATIO) episode.lastLoud = sample.t;
+    const ended = sample.t - episode.lastLoud >= QUIET_MS;
+    const overdue = sample.t - episode.onset >= MAX_EPISODE_MS;
+    let event: ImpactEvent | null = null;
+    if (!episode.reported && (ended || overdue)) {
+      event = classify(window, episode.onset);
+      episode.reported = true;
+    }
+    if (ended) {
+      cooldownUntil = sample.t + cooldownMs;
+      episode = null;
+    }
+    return event;
+  };
+
+  return { push, reset };
+}
@@ -0,0 +1,477 @@
+/**
+ * 成绩导入导出：csTimer JSON、Twisty Timer 备份、CSV
+ *
+ * 成绩本身只保存原始用时，+2 / DNF 单独记录；各格式的判罚表示在这里转换。
+ */
+import type { Penalty, Session, SolveRecord } from '../types';
+import { PUZZLES, isPuzzleType, type PuzzleType } from './puzzles';
+
+export type TransferFormat = 'cstimer' | 'twisty' | 'csv';
+
+export const TRANSFER_FORMATS: { id: TransferFormat; name: string; extension: string; mime: string }[] = [
+  { id: 'cstimer', name: 'csTimer', extension: 'json', mime: 'application/json' },
+  { id: 'twisty', name: 'Twisty Timer', extension: 'txt', mime: 'text/plain' },
+  { id: 'csv', name: 'CSV', extension: 'csv', mime: 'text/csv' },
+];
+
+/** 导入的一次成绩：尚未分配 id 与会话 */
+export type ImportedSolve = Omit<SolveRecord, 'id' | 'sessionId'>;
+
+export interface ImportedSession {
+  name: string;
+  solves: ImportedSolve[];
+}
+
+export interface ImportResult {
+  format: TransferFormat;
+  sessions: ImportedSession[];
+  /** 无法识别而跳过的行数 */
+  skipped: number;
+}
+
+// ── 项目 ID 映射 ──
+
+const CSTIMER_TYPES: Record<PuzzleType, string> = {
+  '222': '222so',
+  '333': '333',
+  '444': '444wca',
+  '555': '555wca',
+  '666': '666wca',
+  '777': '777wca',
+  '333bf': '333ni',
+  pyram: 'pyrso',
+  skewb: 'skbso',
+  minx: 'mgmp',
+  sq1: 'sqrs',
+  clock: 'clkwca',
+};
+
+/** csTimer 的打乱类型很多（如 333oh、444bld），按前缀归到 WCA 项目 */
+const CSTIMER_PREFIXES: [string, PuzzleType][] = [
+  ['222', '222'],
+  ['333ni', '333bf'],
+  ['333', '333'],
+  ['444', '444'],
+  ['555', '555'],
+  ['666', '666'],
+  ['777', '777'],
+  ['pyr', 'pyram'],
+  ['skb', 'skewb'],
+  ['mgm', 'minx'],
+  ['minx', 'minx'],
+  ['sq', 'sq1'],
+  ['clk', 'clock'],
+];
+
+const TWISTY_PUZZLES: Record<PuzzleType, string> = {
+  '222': '222',
+  '333': '333',
+  '444': '444',
+  '555': '555',
+  '666': '666',
+  '777': '777',
+  // Twisty Timer 没有单独的盲拧项目，盲拧是 3x3 下的一个分类（导出时即会话名）
+  '333bf': '333',
+  pyram: 'pyra',
+  skewb: 'skewb',
+  minx: 'mega',
+  sq1: 'sqone',
+  clock: 'clock',
+};
+
+function fromCsTimerType(scrType: unknown): PuzzleType {
+  if (typeof scrType !== 'string') return '333';
+  return CSTIMER_PREFIXES.find(([prefix]) => scrType.startsWith(prefix))?.[1] ?? '333';
+}
+
+function fromTwistyPuzzle(id: string): PuzzleType | null {
+  const entry = Object.entries(TWISTY_PUZZLES).find(([, twisty]) => twisty === id);
+  return entry ? (entry[0] as PuzzleType) : null;
+}
+
+// ── 分隔文本 ──
+
+/** 解析 CSV 类文本：支持双引号包裹、"" 转义以及引号内换行 */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+function quote(value: string | number): string {
+  return `"${String(value).replace(/"/g, '""')}"`;
+}
+
+/** 按会话名分组，保持首次出现的顺序 */
+function groupByName(entries: { name: string; solve: ImportedSolve }[]): ImportedSession[] {
+  const sessions = new Map<string, ImportedSolve[]>();
+  for (const { name, solve } of entries) {
+    const solves = sessions.get(name) ?? [];
+    solves.push(solve);
+    sessions.set(name, solves);
+  }
+  return [...sessions].map(([name, solves]) => ({ name, solves }));
+}
+
+/** 按会话、项目分组，组内按时间先后 */
+function groupRecords(records: SolveRecord[], sessions: Session[]) {
+  const groups: { session: Session; puzzle: PuzzleType; records: SolveRecord[] }[] = [];
+  for (const session of sessions) {
+    for (const { id: puzzle } of PUZZLES) {
+      const solves = records
+        .filter((r) => r.sessionId === session.id && r.puzzle === puzzle)
+        .sort((a, b) => a.date - b.date);
+      if (solves.length > 0) groups.push({ session, puzzle, records: solves });
+    }
+  }
+  return groups;
+}
+
+// ── csTimer ──
+// { session1: [[[penalty, time], scramble, comment, timestamp(秒)], ...], properties: { sessionData } }
+// penalty：0 无判罚，2000 为 +2，-1 为 DNF；time 不含 +2
+
+interface CsTimerSessionMeta {
+  name?: string | number;
+  opt?: { scrType?: string };
+}
+
+function parseCsTimer(data: Record<string, unknown>): ImportResult {
+  const properties = (data.properties ?? {}) as { sessionData?: string | Record<string, CsTimerSessionMeta> };
+  let sessionData: Record<string, CsTimerSessionMeta> = {};
+  try {
+    sessionData =
+      typeof properties.sessionData === 'string'
+        ? JSON.parse(properties.sessionData)
+        : (properties.sessionData ?? {});
+  } catch {
+    /* 会话信息损坏时仍导入成绩，使用默认名称与项目 */
+  }
+
+  const keys = Object.keys(data)
+    .filter((key) => /^session\d+$/.test(key))
+    .sort((a, b) => parseInt(a.slice(7), 10) - parseInt(b.slice(7), 10));
+  if (keys.length === 0) throw new Error('文件中没有 csTimer 会话');
+
+  let skipped = 0;
+  const sessions: ImportedSession[] = [];
+  for (const key of keys) {
+    const index = key.slice(7);
+    const meta = sessionData[index] ?? {};
+    const puzzle = fromCsTimerType(meta.opt?.scrType);
+    const entries = Array.isArray(data[key]) ? (data[key] as unknown[]) : [];
+    const solves: ImportedSolve[] = [];
+    for (const entry of entries) {
+      if (!Array.isArray(entry) || !Array.isArray(entry[0])) {
+        skipped++;
+        continue;
+      }
+      const [penaltyValue, time] = entry[0] as unknown[];
+      if (typeof penaltyValue !== 'number' || typeof time !== 'number') {
+        skipped++;
+        continue;
+      }
+      const penalty: Penalty | undefined = penaltyValue === -1 ? 'DNF' : penaltyValue > 0 ? '+2' : undefined;
+      const comment = typeof entry[2] === 'string' ? entry[2].trim() : '';
+      solves.push({
+        time,
+        scramble: typeof entry[1] === 'string' ? entry[1] : '',
+        date: typeof entry[3] === 'number' ? entry[3] * 1000 : 0,
+        puzzle,
+        ...(penalty && { penalty }),
+        ...(comment && { comment }),
+      });
+    }
+    if (solves.length > 0) {
+      sessions.push({ name: meta.name !== undefined ? String(meta.name) : `csTimer ${index}`, solves });
+    }
+  }
+  return { format: 'cstimer', sessions, skipped };
+}
+
+function exportCsTimer(records: SolveRecord[], sessions: Session[]): string {
+  const data: Record<string, unknown> = {};
+  const sessionData: Record<string, CsTimerSessionMeta> = {};
+  const groups = groupRecords(records, sessions);
+  groups.forEach(({ session, puzzle, records: solves }, i) => {
+    const index = i + 1;
+    // csTimer 的会话只有一个项目，包含多个项目的会话拆开并在名称后加项目名
+    const mixed = groups.filter((g) => g.session.id === session.id).length > 1;
+    const puzzleName = PUZZLES.find((p) => p.id === puzzle)!.name;
+    sessionData[index] = {
+      name: mixed ? `${session.name} ${puzzleName}` : session.name,
+      opt: { scrType: CSTIMER_TYPES[puzzle] },
+    };
+    data[`session${index}`] = solves.map((r) => [
+      [r.penalty === 'DNF' ? -1 : r.penalty === '+2' ? 2000 : 0, Math.round(r.time)],
+      r.scramble,
+      r.comment ?? '',
+      Math.floor(r.date / 1000),
+    ]);
+  });
+  data.properties = { sessionN: groups.length, sessionData: JSON.stringify(sessionData) };
+  return JSON.stringify(data);
+}
+
+// ── Twisty Timer 备份 ──
+// 表头以逗号分隔，数据行为 "Puzzle";"Category";"Time(millis)";"Date(millis)";"Scramble";"Penalty";"Comment"
+// Penalty：0 无判罚，1 为 +2，2 为 DNF；Time 已包含 +2 的 2 秒
+
+const TWISTY_HEADER = 'Puzzle,Category,Time(millis),Date(millis),Scramble,Penalty,Comment';
+
+function parseTwisty(text: string): ImportResult {
+  let skipped = 0;
+  const entries: { name: string; solve: ImportedSolve }[] = [];
+  for (const row of parseDelimited(text, ';')) {
+    if (row[0].startsWith('Puzzle')) continue; // 表头
+    const [puzzleId, category, timeValue, dateValue, scramble = '', penaltyValue = '0', comment = ''] = row;
+    const puzzle = fromTwistyPuzzle(puzzleId);
+    const time = parseInt(timeValue, 10);
+    if (!puzzle || Number.isNaN(time)) {
+      skipped++;
+      continue;
+    }
+    const penalty: Penalty | undefined = penaltyValue === '2' ? 'DNF' : penaltyValue === '1' ? '+2' : undefined;
+    entries.push({
+      name: category || 'Normal',
+      solve: {
+        time: penalty === '+2' ? time - 2000 : time,
+        scramble,
+        date: parseInt(dateValue, 10) || 0,
+        puzzle,
+        ...(penalty && { penalty }),
+        ...(comment.trim() && { comment: comment.trim() }),
+      },
+    });
+  }
+  return { format: 'twisty', sessions: groupByName(entries), skipped };
+}
+
+function exportTwisty(records: SolveRecord[], sessions: Session[]): string {
+  const lines = [TWISTY_HEADER];
+  for (const { session, puzzle, records: solves } of groupRecords(records, sessions)) {
+    for (const r of solves) {
+      lines.push(
+        [
+          TWISTY_PUZZLES[puzzle],
+          session.name,
+          Math.round(r.penalty === '+2' ? r.time + 2000 : r.time),
+          Math.round(r.date),
+          r.scramble,
+          r.penalty === 'DNF' ? 2 : r.penalty === '+2' ? 1 : 0,
+          r.comment ?? '',
+        ]
+          .map(quote)
+          .join(';')
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+// ── CSV ──
+// session,puzzle,time,penalty,date,scramble,comment,tags,seed,seed_index；time 为原始毫秒数，penalty 为空 / +2 / DNF，
+// date 为 ISO 时间，tags 以 | 分隔；seed 与 seed_index 为打乱组的种子与组内序号；comment 之后的列都可省略
+
+const CSV_COLUMNS = [
+  'session',
+  'puzzle',
+  'time',
+  'penalty',
+  'date',
+  'scramble',
+  'comment',
+  'tags',
+  'seed',
+  'seed_index',
+] as const;
+const CSV_OPTIONAL: readonly string[] = ['session', 'comment', 'tags', 'seed', 'seed_index'];
+
+function parseCsv(text: string): ImportResult {
+  const [header, ...rows] = parseDelimited(text, ',');
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter((c) => !CSV_OPTIONAL.includes(c) && !columns.includes(c));
+  if (missing.length > 0) throw new Error(`CSV 缺少列：${missing.join(', ')}`);
+  const column = (row: string[], name: (typeof CSV_COLUMNS)[number]) => row[columns.indexOf(name)] ?? '';
+
+  let skipped = 0;
+  const entries: { name: string; solve: ImportedSolve }[] = [];
+  for (const row of rows) {
+    const puzzle = column(row, 'puzzle').trim();
+    const time = parseFloat(column(row, 'time'));
+    const dateValue = column(row, 'date').trim();
+    const date = /^\d+$/.test(dateValue) ? parseInt(dateValue, 10) : Date.parse(dateValue);
+    const penaltyValue = column(row, 'penalty').trim().toUpperCase();
+    if (!isPuzzleType(puzzle) || Number.isNaN(time) || Number.isNaN(date)) {
+      skipped++;
+      continue;
+    }
+    const penalty: Penalty | undefined =
+      penaltyValue === 'DNF' ? 'DNF' : penaltyValue === '+2' ? '+2' : undefined;
+    const comment = column(row, 'comment').trim();
+    const seed = column(row, 'seed').trim();
+    const seedIndex = parseInt(column(row, 'seed_index'), 10);
+    const tags = [
+      ...new Set(
+        column(row, 'tags')
+          .split('|')
+          .map((t) => t.trim().replace(/\s+/g, ' '))
+          .filter(Boolean)
+      ),
+    ];
+    entries.push({
+      name: column(row, 'session').trim() || 'CSV',
+      solve: {
+        time,
+        scramble: column(row, 'scramble'),
+        date,
+        puzzle,
+        ...(penalty && { penalty }),
+        ...(comment && { comment }),
+        ...(tags.length > 0 && { tags }),
+        ...(seed && seedIndex > 0 && { scrambleSet: { seed, index: seedIndex } }),
+      },
+    });
+  }
+  return { format: 'csv', sessions: groupByName(entries), skipped };
+}
+
+function exportCsv(records: SolveRecord[], sessions: Session[]): string {
+  const lines: string[] = [CSV_COLUMNS.join(',')];
+  for (const { session, records: solves } of groupRecords(records, sessions)) {
+    for (const r of solves) {
+      lines.push(
+        [
+          session.name,
+          r.puzzle,
+          Math.round(r.time),
+          r.penalty ?? '',
+          new Date(r.date).toISOString(),
+          r.scramble,
+          r.comment ?? '',
+          (r.tags ?? []).join('|'),
+          r.scrambleSet?.seed ?? '',
+          r.scrambleSet?.index ?? '',
+        ]
+          .map(quote)
+          .join(',')
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+// ── 对外接口 ──
+
+export function exportRecords(format: TransferFormat, records: SolveRecord[], sessions: Session[]): string {
+  switch (format) {
+    case 'cstimer':
+      return exportCsTimer(records, sessions);
+    case 'twisty':
+      return exportTwisty(records, sessions);
+    case 'csv':
+      return exportCsv(records, sessions);
+  }
+}
+
+/**
+ * 识别文件格式并解析；无法识别或格式错误时抛出错误
+ */
+export function parseImport(text: string): ImportResult {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  if (content.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('JSON 格式错误');
+    }
+    return parseCsTimer(data as Record<string, unknown>);
+  }
+  const firstLine = content.split(/\r?\n/, 1)[0].toLowerCase();
+  if (firstLine.includes('puzzle') && firstLine.includes('category')) return parseTwisty(content);
+  if (firstLine.includes('puzzle') && firstLine.includes('time')) return parseCsv(content);
+  throw new Error('无法识别的文件格式，请选择 csTimer、Twisty Timer 或 CSV 导出文件');
+}
+
+/** 判断重复：同一项目、同一秒、同一用时 */
+function solveKey(solve: ImportedSolve): string {
+  return `${solve.puzzle}|${Math.floor(solve.date / 1000)}|${Math.round(solve.time)}`;
+}
+
+export interface ImportPlanItem {
+  name: string;
+  total: number;
+  duplicates: number;
+  /** 并入的已有同名会话，null 表示新建 */
+  existingSession: Session | null;
+}
+
+export interface ImportPlan {
+  items: ImportPlanItem[];
+  /** 需要新建的会话 */
+  sessions: Session[];
+  /** 去重后的新成绩 */
+  records: SolveRecord[];
+}
+
+/**
+ * 生成导入计划：同名会话并入已有会话，其余新建；与已有成绩及文件内部重复的成绩跳过
+ */
+export function planImport(result: ImportResult, records: SolveRecord[], sessions: Session[]): ImportPlan {
+  const seen = new Set(records.map(solveKey));
+  let nextId = records.reduce((max, r) => Math.max(max, r.id), Date.now()) + 1;
+  const plan: ImportPlan = { items: [], sessions: [], records: [] };
+
+  result.sessions.forEach(({ name, solves }, i) => {
+    const existingSession = sessions.find((s) => s.name === name) ?? null;
+    const session = existingSession ?? { id: `${Date.now().toString(36)}-${i}`, name, createdAt: Date.now() };
+
+    let duplicates = 0;
+    for (const solve of solves) {
+      const key = solveKey(solve);
+      if (seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(key);
+      plan.records.push({ ...solve, id: nextId++, sessionId: session.id });
+    }
+    // 全部重复时不新建空会话
+    if (!existingSession && duplicates < solves.length) plan.sessions.push(session);
+    plan.items.push({ name, total: solves.length, duplicates, existingSession });
+  });
+  return plan;
+}
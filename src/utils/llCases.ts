@@ -0,0 +1,343 @@
+/**
+ * 顶层公式训练的情况：OLL 57 / PLL 21 / COLL 42 / 2GLL 84
+ *
+ * 情况用 cubie 状态表示（F2L 已还原，只有顶层 4 个角块、4 个棱块不同）。
+ * 只差前后 U 调整（AUF）的状态算同一种情况；OLL 只看朝向，PLL 只看排列，
+ * COLL 只看角块。OLL / PLL 由标准公式倒推出情况并沿用惯用编号，
+ * COLL / 2GLL 由顶层全部状态枚举，按角块朝向（OCLL 形状）分组编号。
+ *
+ * 训练时在情况的基础上随机 AUF 与无关部分，由两阶段算法求解后取逆得到打乱。
+ */
+import { applyAlgorithm, createSolvedCube, toFaceletString } from './cube';
+import { applyCubieMove, cubieFromFacelets, multiplyCubie, solvedCubie, type CubieState } from './twoPhaseSolver';
+
+export type CaseSetId = 'OLL' | 'PLL' | 'COLL' | '2GLL';
+
+export const CASE_SETS: { id: CaseSetId; description: string }[] = [
+  { id: 'OLL', description: '顶层朝向，57 种' },
+  { id: 'PLL', description: '顶层排列，21 种' },
+  { id: 'COLL', description: '棱块已朝上时同时还原角块，42 种' },
+  { id: '2GLL', description: '棱块已朝上、角块位置已对时一步还原顶层，84 种' },
+];
+
+export interface LLCase {
+  /** 全局唯一，如 "OLL-27"、"PLL-T"、"COLL-S1" */
+  id: string;
+  set: CaseSetId;
+  /** 组内名称，如 "27"、"T"、"S1" */
+  name: string;
+  /** OLL 按形状分组，PLL 按换角 / 换棱，COLL / 2GLL 按 OCLL 形状 */
+  group: string;
+  /** 参考公式（仅 OLL / PLL） */
+  alg?: string;
+  /** 执行打乱后的状态，即参考公式可以直接还原的角度 */
+  state: CubieState;
+}
+
+// ── 标准公式（顶层朝上，公式执行完即还原） ──
+
+const OLL_ALGS = [
+  "R U2 R2 F R F' U2 R' F R F'",
+  "F R U R' U' F' f R U R' U' f'",
+  "f R U R' U' f' U' F R U R' U' F'",
+  "f R U R' U' f' U F R U R' U' F'",
+  "r' U2 R U R' U r",
+  "r U2 R' U' R U' r'",
+  "r U R' U R U2 r'",
+  "l' U' L U' L' U2 l",
+  "R U R' U' R' F R2 U R' U' F'",
+  "R U R' U R' F R F' R U2 R'",
+  "r U R' U R' F R F' R U2 r'",
+  "M' R' U' R U' R' U2 R U' R r'",
+  "F U R U' R2 F' R U R U' R'",
+  "R' F R U R' F' R F U' F'",
+  "r' U' r R' U' R U r' U r",
+  "r U r' R U R' U' r U' r'",
+  "R U R' U R' F R F' U2 R' F R F'",
+  "r U R' U R U2 r2 U' R U' R' U2 r",
+  "r' R U R U R' U' M' R' F R F'",
+  "r U R' U' M2 U R U' R' U' M'",
+  "R U2 R' U' R U R' U' R U' R'",
+  "R U2 R2 U' R2 U' R2 U2 R",
+  "R2 D' R U2 R' D R U2 R",
+  "r U R' U' r' F R F'",
+  "F' r U R' U' r' F R",
+  "R U2 R' U' R U' R'",
+  "R U R' U R U2 R'",
+  "r U R' U' r' R U R U' R'",
+  "R U R' U' R U' R' F' U' F R U R'",
+  "F R' F R2 U' R' U' R U R' F2",
+  "R' U' F U R U' R' F' R",
+  "L U F' U' L' U L F L'",
+  "R U R' U' R' F R F'",
+  "R U R2 U' R' F R U R U' F'",
+  "R U2 R2 F R F' R U2 R'",
+  "L' U' L U' L' U L U L F' L' F",
+  "F R' F' R U R U' R'",
+  "R U R' U R U' R' U' R' F R F'",
+  "L F' L' U' L U F U' L'",
+  "R' F R U R' U' F' U R",
+  "R U R' U R U2 R' F R U R' U' F'",
+  "R' U' R U' R' U2 R F R U R' U' F'",
+  "F' U' L' U L F",
+  "F U R U' R' F'",
+  "F R U R' U' F'",
+  "R' U' R' F R F' U R",
+  "R' U' R' F R F' R' F R F' U R",
+  "F R U R' U' R U R' U' F'",
+  "r U' r2 U r2 U r2 U' r",
+  "r' U r2 U' r2 U' r2 U r'",
+  "F U R U' R' U R U' R' F'",
+  "R U R' U R U' B U' B' R'",
+  "l' U2 L U L' U' L U L' U l",
+  "r U2 R' U' R U R' U' R U' r'",
+  "R' F R U R U' R2 F' R2 U' R' U R U R'",
+  "r' U' r U' R' U R U' R' U R r' U r",
+  "R U R' U' M' U R U' r'",
+];
+
+const OLL_GROUPS: [string, number[]][] = [
+  ['点', [1, 2, 3, 4, 17, 18, 19, 20]],
+  ['十字', [21, 22, 23, 24, 25, 26, 27]],
+  ['角块已朝上', [28, 57]],
+  ['方块', [5, 6]],
+  ['闪电', [7, 8, 11, 12, 39, 40]],
+  ['鱼', [9, 10, 35, 37]],
+  ['骑士', [13, 14, 15, 16]],
+  ['Awkward', [29, 30, 41, 42]],
+  ['P', [31, 32, 43, 44]],
+  ['T', [33, 45]],
+  ['C', [34, 46]],
+  ['W', [36, 38]],
+  ['L', [47, 48, 49, 50, 53, 54]],
+  ['一字', [51, 52, 55, 56]],
+];
+
+const PLL_ALGS: [string, string, string][] = [
+  ['Aa', '只换角', "x R' U R' D2 R U' R' D2 R2 x'"],
+  ['Ab', '只换角', "x R2 D2 R U R' D2 R U' R x'"],
+  ['E', '只换角', "x' R U' R' D R U R' D' R U R' D R U' R' D' x"],
+  ['Ua', '只换棱', "M2 U M U2 M' U M2"],
+  ['Ub', '只换棱', "M2 U' M U2 M' U' M2"],
+  ['H', '只换棱', 'M2 U M2 U2 M2 U M2'],
+  ['Z', '只换棱', "M' U M2 U M2 U M' U2 M2"],
+  ['T', '角棱都换', "R U R' U' R' F R2 U' R' U' R U R' F'"],
+  ['F', '角棱都换', "R' U' F' R U R' U' R' F R2 U' R' U' R U R' U R"],
+  ['Ja', '角棱都换', "x R2 F R F' R U2 r' U r U2 x'"],
+  ['Jb', '角棱都换', "R U R' F' R U R' U' R' F R2 U' R'"],
+  ['Ra', '角棱都换', "R U' R' U' R U R D R' U' R D' R' U2 R'"],
+  ['Rb', '角棱都换', "R2 F R U R U' R' F' R U2 R' U2 R"],
+  ['V', '角棱都换', "R' U R' U' R D' R' D R' U D' R2 U' R2 D R2"],
+  ['Y', '角棱都换', "F R U' R' U' R U R' F' R U R' U' R' F R F'"],
+  ['Na', '角棱都换', "R U R' U R U R' F' R U R' U' R' F R2 U' R' U2 R U' R'"],
+  ['Nb', '角棱都换', "R' U R U' R' F' U' F R U R' F R' F' R U' R"],
+  ['Ga', '角棱都换', "R2 U R' U R' U' R U' R2 U' D R' U R D'"],
+  ['Gb', '角棱都换', "R' U' R U D' R2 U R' U R U' R U' R2 D"],
+  ['Gc', '角棱都换', "R2 U' R U' R U R' U R2 U D' R U' R' D"],
+  ['Gd', '角棱都换', "R U R' U' D R2 U' R U' R' U R' U R2 D'"],
+];
+
+/** OLL 21-27（十字）对应的角块朝向形状，角块全部朝上为 O */
+const OCLL_SHAPES: [string, number][] = [
+  ['H', 21],
+  ['Pi', 22],
+  ['U', 23],
+  ['T', 24],
+  ['L', 25],
+  ['AS', 26],
+  ['S', 27],
+];
+
+// ── 顶层状态 ──
+
+const U_TURN = applyCubieMove(solvedCubie(), 0);
+
+function invertAlgorithm(alg: string): string {
+  return alg
+    .trim()
+    .split(/\s+/)
+    .reverse()
+    .map((token) => (token.endsWith("'") ? token.slice(0, -1) : token.endsWith('2') ? token : `${token}'`))
+    .join(' ');
+}
+
+/** 公式能还原的状态：从还原状态执行逆公式 */
+function stateFromAlgorithm(alg: string): CubieState {
+  return cubieFromFacelets(toFaceletString(applyAlgorithm(createSolvedCube(3), invertAlgorithm(alg))));
+}
+
+/** 由顶层 4 角 4 棱构造完整状态，其余块已还原 */
+function lastLayerState(cp: number[], co: number[], ep: number[], eo: number[]): CubieState {
+  const state = solvedCubie();
+  state.cp.splice(0, 4, ...cp);
+  state.co.splice(0, 4, ...co);
+  state.ep.splice(0, 4, ...ep);
+  state.eo.splice(0, 4, ...eo);
+  return state;
+}
+
+/** 在状态前后各加 0-3 次 U，共 16 种 */
+function aufVariants(state: CubieState): CubieState[] {
+  const variants: CubieState[] = [];
+  let before = state;
+  for (let a = 0; a < 4; a++) {
+    let both = before;
+    for (let b = 0; b < 4; b++) {
+      variants.push(both);
+      both = multiplyCubie(both, U_TURN);
+    }
+    before = multiplyCubie(U_TURN, before);
+  }
+  return variants;
+}
+
+// 各组区分情况时关心的部分
+const PROJECTIONS: Record<CaseSetId, (s: CubieState) => number[]> = {
+  OLL: (s) => [...s.co.slice(0, 4), ...s.eo.slice(0, 4)],
+  PLL: (s) => [...s.cp.slice(0, 4), ...s.ep.slice(0, 4)],
+  COLL: (s) => [...s.cp.slice(0, 4), ...s.co.slice(0, 4)],
+  '2GLL': (s) => [...s.cp.slice(0, 4), ...s.co.slice(0, 4), ...s.ep.slice(0, 4)],
+};
+
+/** 情况的标识：各 AUF 变体中字典序最小的投影 */
+function caseKey(set: CaseSetId, state: CubieState): string {
+  return aufVariants(state)
+    .map((v) => PROJECTIONS[set](v).join(''))
+    .sort()[0];
+}
+
+const PERMUTATIONS_4: number[][] = (() => {
+  const result: number[][] = [];
+  const build = (prefix: number[]) => {
+    if (prefix.length === 4) result.push(prefix);
+    for (let i = 0; i < 4; i++) if (!prefix.includes(i)) build([...prefix, i]);
+  };
+  build([]);
+  return result;
+})();
+
+// 朝向和为 3 的倍数的 4 个角块朝向
+const CORNER_TWISTS: number[][] = Array.from({ length: 81 }, (_, n) => [
+  n % 3,
+  Math.floor(n / 3) % 3,
+  Math.floor(n / 9) % 3,
+  Math.floor(n / 27),
+]).filter((co) => co.reduce((a, b) => a + b, 0) % 3 === 0);
+
+function parity(perm: number[]): number {
+  let result = 0;
+  for (let i = 0; i < perm.length; i++) {
+    for (let j = i + 1; j < perm.length; j++) if (perm[i] > perm[j]) result ^= 1;
+  }
+  return result;
+}
+
+const isUTurn = (cp: number[]) => cp.every((p, i) => p === (cp[0] + i) % 4);
+
+// ── 各组情况 ──
+
+function ollCases(): LLCase[] {
+  return OLL_ALGS.map((alg, i) => ({
+    id: `OLL-${i + 1}`,
+    set: 'OLL',
+    name: String(i + 1),
+    group: OLL_GROUPS.find(([, numbers]) => numbers.includes(i + 1))?.[0] ?? '',
+    alg,
+    state: stateFromAlgorithm(alg),
+  }));
+}
+
+function pllCases(): LLCase[] {
+  return PLL_ALGS.map(([name, group, alg]) => ({
+    id: `PLL-${name}`,
+    set: 'PLL',
+    name,
+    group,
+    alg,
+    state: stateFromAlgorithm(alg),
+  }));
+}
+
+/**
+ * 枚举棱块已朝上的顶层状态并归类，按 OCLL 形状分组编号（如 S1-S6）
+ *
+ * COLL 不关心棱块排列，取与角块奇偶性相同的任意一种；2GLL 只含角块位置已对（只差 U）的状态
+ */
+function orientedEdgeCases(set: 'COLL' | '2GLL'): LLCase[] {
+  const solvedKey = caseKey(set, solvedCubie());
+  const shapeKeys = OCLL_SHAPES.map(([shape, number]) => [shape, caseKey('OLL', stateFromAlgorithm(OLL_ALGS[number - 1]))]);
+  const eo = [0, 0, 0, 0];
+
+  const byKey = new Map<string, CubieState>();
+  for (const cp of PERMUTATIONS_4) {
+    if (set === '2GLL' && !isUTurn(cp)) continue;
+    const edgePerms = PERMUTATIONS_4.filter((ep) => parity(ep) === parity(cp));
+    if (set === 'COLL') edgePerms.splice(1);
+    for (const co of CORNER_TWISTS) {
+      // COLL 中角块已还原（只差 U）的状态不算
+      if (set === 'COLL' && isUTurn(cp) && co.every((o) => o === 0)) continue;
+      for (const ep of edgePerms) {
+        const state = lastLayerState(cp, co, ep, eo);
+        const key = caseKey(set, state);
+        if (key !== solvedKey && !byKey.has(key)) byKey.set(key, state);
+      }
+    }
+  }
+
+  const shapeOf = (state: CubieState) => {
+    const ollKey = caseKey('OLL', state);
+    return shapeKeys.find(([, key]) => key === ollKey)?.[0] ?? 'O';
+  };
+  const cases: LLCase[] = [];
+  for (const shape of ['O', ...OCLL_SHAPES.map(([s]) => s)]) {
+    [...byKey]
+      .filter(([, state]) => shapeOf(state) === shape)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .forEach(([, state], i) => {
+        const name = `${shape}${i + 1}`;
+        cases.push({ id: `${set}-${name}`, set, name, group: shape, state });
+      });
+  }
+  return cases;
+}
+
+const cache = new Map<CaseSetId, LLCase[]>();
+
+/** 一组的全部情况（首次调用时生成） */
+export function getCases(set: CaseSetId): LLCase[] {
+  let cases = cache.get(set);
+  if (!cases) {
+    cases = set === 'OLL' ? ollCases() : set === 'PLL' ? pllCases() : orientedEdgeCases(set);
+    cache.set(set, cases);
+  }
+  return cases;
+}
+
+export function getCase(id: string): LLCase | undefined {
+  const set = CASE_SETS.find((s) => id.startsWith(`${s.id}-`));
+  return set && getCases(set.id).find((c) => c.id === id);
+}
+
+/** 显示用的完整名称，如 "OLL 27"、"PLL T" */
+export function caseLabel(c: LLCase): string {
+  return `${c.set} ${c.name}`;
+}
+
+/**
+ * 训练用的随机状态：同一情况随机前后 AUF；
+ * OLL 的排列、COLL 的棱块排列与情况无关，也随机
+ */
+export function caseScrambleState(c: LLCase, random: () => number = Math.random): CubieState {
+  let state = c.state;
+  if (c.set === 'OLL' || c.set === 'COLL') {
+    const pick = () => PERMUTATIONS_4[Math.floor(random() * PERMUTATIONS_4.length)];
+    const cp = c.set === 'OLL' ? pick() : [0, 1, 2, 3];
+    const ep = [...pick()];
+    if (parity(ep) !== parity(cp)) [ep[0], ep[1]] = [ep[1], ep[0]];
+    // 先打乱各块的编号再执行情况：每个位置的朝向不变
+    state = multiplyCubie(lastLayerState(cp, [0, 0, 0, 0], ep, [0, 0, 0, 0]), state);
+  }
+  for (let i = Math.floor(random() * 4); i > 0; i--) state = multiplyCubie(U_TURN, state);
+  for (let i = Math.floor(random() * 4); i > 0; i--) state = multiplyCubie(state, U_TURN);
+  return state;
+}
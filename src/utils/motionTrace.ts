@@ -0,0 +1,139 @@
+/**
+ * 传感器轨迹：录制原始 DeviceMotion 采样，导出为 JSON，再离线回放
+ *
+ * 回放与实时检测使用同一个 createImpactDetector，同一条轨迹、同一组参数得到的冲击完全一致，
+ * 可以把真实设备上的问题轨迹保存下来，逐条核对开始、停止会在什么时刻触发。
+ */
+import {
+  createImpactDetector,
+  DEFAULT_DETECTOR_CONFIG,
+  type DetectorConfig,
+  type ImpactEvent,
+  type MotionSample,
+} from './impactDetector';
+
+const TRACE_FORMAT = 'cube-rush-motion-trace';
+const TRACE_VERSION = 1;
+
+/** 最多录制的采样数（60Hz 约 25 分钟），超出后不再记录 */
+export const MAX_TRACE_SAMPLES = 100000;
+
+export interface MotionTrace {
+  /** 录制开始时间 */
+  recordedAt: number;
+  userAgent: string;
+  /** 录制时使用的检测参数 */
+  config: DetectorConfig;
+  /** 时间戳从 0 开始 */
+  samples: MotionSample[];
+}
+
+/** JSON 中每个采样为 [t, x, y, z]，比对象数组小得多 */
+interface TraceFile {
+  format: typeof TRACE_FORMAT;
+  version: number;
+  recordedAt: string;
+  userAgent: string;
+  config: DetectorConfig;
+  samples: [number, number, number, number][];
+}
+
+/** 由录制的采样生成轨迹，时间戳平移到从 0 开始 */
+export function createTrace(samples: MotionSample[], config: DetectorConfig, recordedAt: number): MotionTrace {
+  const origin = samples.length > 0 ? samples[0].t : 0;
+  return {
+    recordedAt,
+    userAgent: navigator.userAgent,
+    config,
+    samples: samples.map((s) => ({ ...s, t: s.t - origin })),
+  };
+}
+
+export function serializeTrace(trace: MotionTrace): string {
+  const round = (value: number, digits: number) => Number(value.toFixed(digits));
+  const file: TraceFile = {
+    format: TRACE_FORMAT,
+    version: TRACE_VERSION,
+    recordedAt: new Date(trace.recordedAt).toISOString(),
+    userAgent: trace.userAgent,
+    config: trace.config,
+    samples: trace.samples.map((s) => [round(s.t, 1), round(s.x, 4), round(s.y, 4), round(s.z, 4)]),
+  };
+  return JSON.stringify(file);
+}
+
+/** 解析轨迹文件，格式不对时抛出错误 */
+export function parseTrace(text: string): MotionTrace {
+  let file: Partial<TraceFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON 文件');
+  }
+  if (file.format !== TRACE_FORMAT || !Array.isArray(file.samples)) {
+    throw new Error('不是传感器轨迹文件');
+  }
+  if ((file.version ?? 0) > TRACE_VERSION) {
+    throw new Error('轨迹文件来自更新的版本，请先升级');
+  }
+
+  const samples: MotionSample[] = [];
+  for (const entry of file.samples) {
+    if (!Array.isArray(entry) || entry.length < 4 || !entry.every((v) => typeof v === 'number')) {
+      throw new Error(`第 ${samples.length + 1} 个采样格式不对`);
+    }
+    const [t, x, y, z] = entry;
+    samples.push({ t, x, y, z });
+  }
+  // 缺少录制参数时按默认参数回放
+  const { threshold, cooldownMs } = file.config ?? {};
+  return {
+    recordedAt: Date.parse(file.recordedAt ?? '') || 0,
+    userAgent: file.userAgent ?? '',
+    config: {
+      threshold: typeof threshold === 'number' ? threshold : DEFAULT_DETECTOR_CONFIG.threshold,
+      cooldownMs: typeof cooldownMs === 'number' ? cooldownMs : DEFAULT_DETECTOR_CONFIG.cooldownMs,
+    },
+    samples,
+  };
+}
+
+export interface TraceTrigger {
+  action: 'start' | 'stop';
+  event: ImpactEvent;
+}
+
+export interface TraceReplay {
+  /** 检测到的全部冲击，包括不触发计时的拿起、滑动 */
+  events: ImpactEvent[];
+  /** 轻拍依次开始、停止计时（不含观察，每次停止后视为已点"下一轮"） */
+  triggers: TraceTrigger[];
+  /** 每组开始 → 停止得到的成绩 (ms) */
+  solves: number[];
+}
+
+/**
+ * 离线回放：把轨迹逐个采样送入冲击检测，得到与实时检测相同的结果
+ */
+export function replayTrace(trace: MotionTrace, config: Partial<DetectorConfig> = trace.config): TraceReplay {
+  const detector = createImpactDetector(config);
+  const events: ImpactEvent[] = [];
+  for (const sample of trace.samples) {
+    const event = detector.push(sample);
+    if (event) events.push(event);
+  }
+
+  const triggers: TraceTrigger[] = [];
+  const solves: number[] = [];
+  for (const event of events) {
+    if (event.kind !== 'tap') continue;
+    const last = triggers[triggers.length - 1];
+    if (last?.action === 'start') {
+      triggers.push({ action: 'stop', event });
+      solves.push(event.time - last.event.time);
+    } else {
+      triggers.push({ action: 'start', event });
+    }
+  }
+  return { events, triggers, solves };
+}
@@ -0,0 +1,73 @@
+/**
+ * WCA 项目（魔方类型）定义与各项目的打乱生成
+ */
+import {
+  generateClockScramble,
+  generateCubeScramble,
+  generateMegaminxScramble,
+  generatePyraminxScramble,
+  generateScramble,
+  generateSkewbScramble,
+  generateSquare1Scramble,
+  withRandomOrientation,
+} from './scrambleGenerator';
+
+/** 与 WCA 项目 ID 一致 */
+export type PuzzleType =
+  | '222'
+  | '333'
+  | '444'
+  | '555'
+  | '666'
+  | '777'
+  | '333bf'
+  | 'pyram'
+  | 'skewb'
+  | 'minx'
+  | 'sq1'
+  | 'clock';
+
+export interface PuzzleInfo {
+  id: PuzzleType;
+  name: string;
+  /** NxN 魔方的阶数，可用魔方模型绘制打乱预览 */
+  cubeSize?: number;
+  /** 3x3 状态的项目，可用随机状态打乱 */
+  randomState?: boolean;
+  /** 盲拧：打乱带随机朝向，计时分记忆与执行两段 */
+  blindfolded?: boolean;
+  /** 随机步打乱；传入带种子的随机数函数可复现 */
+  generate: (random?: () => number) => string;
+}
+
+export const PUZZLES: PuzzleInfo[] = [
+  { id: '222', name: '2x2', cubeSize: 2, generate: (random) => generateCubeScramble(2, random) },
+  { id: '333', name: '3x3', cubeSize: 3, randomState: true, generate: (random) => generateScramble(20, random) },
+  { id: '444', name: '4x4', cubeSize: 4, generate: (random) => generateCubeScramble(4, random) },
+  { id: '555', name: '5x5', cubeSize: 5, generate: (random) => generateCubeScramble(5, random) },
+  { id: '666', name: '6x6', cubeSize: 6, generate: (random) => generateCubeScramble(6, random) },
+  { id: '777', name: '7x7', cubeSize: 7, generate: (random) => generateCubeScramble(7, random) },
+  {
+    id: '333bf',
+    name: '3x3 盲拧',
+    cubeSize: 3,
+    randomState: true,
+    blindfolded: true,
+    generate: (random) => withRandomOrientation(generateScramble(20, random), random),
+  },
+  { id: 'pyram', name: '金字塔', generate: generatePyraminxScramble },
+  { id: 'skewb', name: '斜转', generate: generateSkewbScramble },
+  { id: 'minx', name: '五魔方', generate: generateMegaminxScramble },
+  { id: 'sq1', name: 'SQ1', generate: generateSquare1Scramble },
+  { id: 'clock', name: '魔表', generate: generateClockScramble },
+];
+
+export const DEFAULT_PUZZLE: PuzzleType = '333';
+
+export function getPuzzle(id: PuzzleType): PuzzleInfo {
+  return PUZZLES.find((p) => p.id === id) ?? PUZZLES[1];
+}
+
+export function isPuzzleType(value: unknown): value is PuzzleType {
+  return PUZZLES.some((p) => p.id === value);
+}
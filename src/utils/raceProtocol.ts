@@ -0,0 +1,137 @@
+/**
+ * 联网对战：与中继服务器（server/relay.js）之间的消息格式、房间状态与排名
+ *
+ * 房间内所有人准备后，房主用本项目的打乱生成器生成打乱并开始新一轮，服务器把同一条打乱发给所有人；
+ * 每人完成后提交成绩，当前轮所有在线玩家都提交后即可查看本轮排名。
+ */
+import type { Penalty } from '../types';
+import type { PuzzleType } from './puzzles';
+import { resultTime } from './timeFormat';
+
+const RACE_KEY = 'cube-rush-race';
+
+export interface RacePlayer {
+  /** 客户端 id，保存在本机，重连时用于恢复身份 */
+  id: string;
+  name: string;
+  connected: boolean;
+  ready: boolean;
+}
+
+export interface RaceResult {
+  /** 提交时的名字，玩家离开后排名中仍能显示 */
+  name: string;
+  time: number;
+  penalty?: Penalty;
+}
+
+export interface RaceRound {
+  scramble: string;
+  /** 客户端 id → 成绩 */
+  results: Record<string, RaceResult>;
+}
+
+export interface RaceRoomState {
+  code: string;
+  puzzle: PuzzleType;
+  hostId: string;
+  players: RacePlayer[];
+  rounds: RaceRound[];
+}
+
+export type ClientMessage =
+  | { type: 'join'; room: string; clientId: string; name: string; puzzle: PuzzleType }
+  | { type: 'ready'; ready: boolean }
+  | { type: 'startRound'; round: number; scramble: string }
+  | { type: 'result'; round: number; time: number; penalty?: Penalty }
+  | { type: 'leave' };
+
+export type ServerMessage = { type: 'state'; room: RaceRoomState } | { type: 'error'; message: string };
+
+/** 服务器用来关闭被同一玩家新页面顶替的旧连接 */
+export const REPLACED_CLOSE_CODE = 4000;
+
+export interface RaceSettings {
+  clientId: string;
+  name: string;
+  server: string;
+  /** 已加入的房间号，刷新页面后自动重连；未加入时为 null */
+  room: string | null;
+}
+
+/** 默认连接当前站点的 /relay（开发服务器把它代理到本机的中继） */
+function defaultServer(): string {
+  const scheme = location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${scheme}://${location.host}/relay`;
+}
+
+export function loadRaceSettings(): RaceSettings {
+  const defaults: RaceSettings = {
+    clientId: crypto.randomUUID(),
+    name: '',
+    server: defaultServer(),
+    room: null,
+  };
+  try {
+    const saved = JSON.parse(localStorage.getItem(RACE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return defaults;
+    return { ...defaults, ...saved };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveRaceSettings(settings: RaceSettings) {
+  localStorage.setItem(RACE_KEY, JSON.stringify(settings));
+}
+
+export function parseServerMessage(text: string): ServerMessage | null {
+  try {
+    const message = JSON.parse(text);
+    return message && (message.type === 'state' || message.type === 'error') ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+export function currentRound(room: RaceRoomState): RaceRound | null {
+  return room.rounds[room.rounds.length - 1] ?? null;
+}
+
+/** 当前轮所有在线玩家都已提交（还没开始过也算） */
+export function roundFinished(room: RaceRoomState): boolean {
+  const round = currentRound(room);
+  return !round || room.players.every((p) => !p.connected || round.results[p.id]);
+}
+
+/** 可以开始下一轮：上一轮已结束且所有在线玩家都已准备 */
+export function canStartRound(room: RaceRoomState): boolean {
+  return roundFinished(room) && room.players.every((p) => !p.connected || p.ready);
+}
+
+export interface RaceStanding {
+  id: string;
+  name: string;
+  result: number;
+  penalty?: Penalty;
+}
+
+/** 一轮的排名：计入判罚后用时从少到多，DNF 在最后 */
+export function roundLeaderboard(round: RaceRound): RaceStanding[] {
+  return Object.entries(round.results)
+    .map(([id, r]) => ({ id, name: r.name, result: resultTime(r), penalty: r.penalty }))
+    .sort((a, b) => a.result - b.result);
+}
+
+/** 各玩家赢下的轮数：只算已结束的轮，并列第一都算赢，全员 DNF 的轮没有赢家 */
+export function roundWins(room: RaceRoomState): Record<string, number> {
+  const wins: Record<string, number> = {};
+  const finished = roundFinished(room) ? room.rounds : room.rounds.slice(0, -1);
+  for (const round of finished) {
+    const board = roundLeaderboard(round);
+    const best = board[0]?.result;
+    if (best === undefined || !Number.isFinite(best)) continue;
+    for (const s of board) if (s.result === best) wins[s.id] = (wins[s.id] ?? 0) + 1;
+  }
+  return wins;
+}
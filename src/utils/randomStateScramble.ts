@@ -0,0 +1,75 @@
+/**
+ * 随机状态 3x3 打乱：均匀随机选取一个可解状态，用两阶段算法求解，
+ * 求解结果取逆即为打乱公式（与 WCA 官方 TNoodle 的打乱分布一致）。
+ *
+ * 求解在 Web Worker 中进行；Worker 不可用时退回主线程异步求解。
+ * 指定状态的打乱（如公式训练的顶层情况）也走同样的求解流程。
+ */
+import type { ScrambleWorkerRequest, ScrambleWorkerResponse } from '../workers/scrambleWorker';
+import {
+  formatMoves,
+  invertMoves,
+  randomCubieState,
+  solveCubieMoves,
+  type CubieState,
+} from './twoPhaseSolver';
+
+// 打乱至少需要 2 步才能还原，避免出现几乎已还原的状态
+const MIN_SOLUTION_LENGTH = 2;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (moves: number[]) => void; reject: (err: Error) => void }>();
+
+function getWorker(): Worker | null {
+  if (workerFailed || typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('../workers/scrambleWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ScrambleWorkerResponse>) => {
+      const response = event.data;
+      const handlers = pending.get(response.id);
+      if (!handlers) return;
+      pending.delete(response.id);
+      if (response.type === 'solved') handlers.resolve(response.moves);
+      else handlers.reject(new Error(response.message));
+    };
+    worker.onerror = () => {
+      // Worker 加载失败：拒绝所有等待中的请求，之后一律走主线程
+      pending.forEach(({ reject }) => reject(new Error('打乱 Worker 启动失败')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      workerFailed = true;
+    };
+  }
+  return worker;
+}
+
+async function solveOnMainThread(state: CubieState): Promise<number[]> {
+  // 让出一帧，避免在当前事件处理中卡住界面
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  return solveCubieMoves(state);
+}
+
+function solveState(state: CubieState): Promise<number[]> {
+  const w = getWorker();
+  if (!w) return solveOnMainThread(state);
+  const id = nextRequestId++;
+  return new Promise<number[]>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    w.postMessage({ type: 'solve', id, state } satisfies ScrambleWorkerRequest);
+  }).catch(() => solveOnMainThread(state));
+}
+
+export async function generateRandomStateScramble(random: () => number = Math.random): Promise<string> {
+  for (;;) {
+    const moves = await solveState(randomCubieState(random));
+    if (moves.length >= MIN_SOLUTION_LENGTH) return formatMoves(invertMoves(moves));
+  }
+}
+
+/** 能把还原状态打乱成 state 的公式 */
+export async function generateStateScramble(state: CubieState): Promise<string> {
+  return formatMoves(invertMoves(await solveState(state)));
+}
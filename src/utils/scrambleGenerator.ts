@@ -1,7 +1,14 @@
 /**
  * WCA 标准 3x3x3 魔方打乱公式生成器
+ *
+ * 默认使用随机状态打乱（见 randomStateScramble.ts），这里的随机步生成器
+ * 作为无需构建剪枝表的快速备用模式。
+ *
+ * 所有生成器都接受可选的随机数函数（默认 Math.random），传入带种子的 PRNG 即可复现同一条打乱。
  */
 
+export type ScrambleMode = 'random-state' | 'random-move';
+
 const FACES = ['U', 'D', 'L', 'R', 'F', 'B'] as const;
 const MODIFIERS = ['', "'", '2'] as const;
 
@@ -15,7 +22,7 @@ const OPPOSITE: Record<string, string> = {
   B: 'F',
 };
 
-export function generateScramble(length = 20): string {
+export function generateScramble(length = 20, random: () => number = Math.random): string {
   const moves: string[] = [];
   let lastFace = '';
   let secondLastFace = '';
@@ -23,13 +30,13 @@ export function generateScramble(length = 20): string {
   for (let i = 0; i < length; i++) {
     let face: string;
     do {
-      face = FACES[Math.floor(Math.random() * FACES.length)];
+      face = FACES[Math.floor(random() * FACES.length)];
     } while (
       face === lastFace ||
       (face === OPPOSITE[lastFace] && secondLastFace === lastFace)
     );
 
-    const modifier = MODIFIERS[Math.floor(Math.random() * MODIFIERS.length)];
+    const modifier = MODIFIERS[Math.floor(random() * MODIFIERS.length)];
     moves.push(face + modifier);
 
     secondLastFace = lastFace;
@@ -38,3 +45,182 @@ export function generateScramble(length = 20): string {
 
   return moves.join(' ');
 }
+
+// 盲拧打乱末尾的随机朝向：先决定哪一面朝上（6 种），再绕竖直轴转（4 种），共 24 种
+const ORIENTATION_TOP = ['', 'Rw', 'Rw2', "Rw'", 'Fw', "Fw'"] as const;
+const ORIENTATION_SPIN = ['', 'Uw', 'Uw2', "Uw'"] as const;
+
+/**
+ * 在打乱末尾追加随机朝向的宽层转动（如 "Rw Uw'"），盲拧时不能依赖固定的持握方向
+ *
+ * 有 1/24 的概率不追加
+ */
+export function withRandomOrientation(scramble: string, random: () => number = Math.random): string {
+  const top = ORIENTATION_TOP[Math.floor(random() * ORIENTATION_TOP.length)];
+  const spin = ORIENTATION_SPIN[Math.floor(random() * ORIENTATION_SPIN.length)];
+  return [scramble, top, spin].filter(Boolean).join(' ');
+}
+
+// ── 其他项目的随机步打乱 ──
+
+interface AxisMove {
+  /** 同轴的转动可交换，同一轴的连续转动中不重复同一层 */
+  axis: string;
+  base: string;
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function generateAxisScramble(
+  moves: AxisMove[],
+  length: number,
+  random: () => number,
+  suffixes: readonly string[] = MODIFIERS
+): string {
+  const result: string[] = [];
+  let runAxis = '';
+  let used = new Set<string>();
+
+  while (result.length < length) {
+    const move = pick(moves, random);
+    if (move.axis === runAxis && used.has(move.base)) continue;
+    if (move.axis !== runAxis) {
+      runAxis = move.axis;
+      used = new Set();
+    }
+    used.add(move.base);
+    result.push(move.base + pick(suffixes, random));
+  }
+
+  return result.join(' ');
+}
+
+const FACE_AXIS: Record<string, string> = { U: 'y', D: 'y', L: 'x', R: 'x', F: 'z', B: 'z' };
+
+function cubeMoves(faces: readonly string[], prefix = '', suffix = ''): AxisMove[] {
+  return faces.map((face) => ({ axis: FACE_AXIS[face], base: prefix + face + suffix }));
+}
+
+// 各阶魔方的打乱步数与宽层深度（与 WCA 打乱程序的随机步长度一致）
+const CUBE_SCRAMBLE_MOVES: Record<number, { moves: AxisMove[]; length: number }> = {
+  2: { moves: cubeMoves(['R', 'U', 'F']), length: 11 },
+  4: { moves: [...cubeMoves(FACES), ...cubeMoves(['U', 'R', 'F'], '', 'w')], length: 40 },
+  5: { moves: [...cubeMoves(FACES), ...cubeMoves(FACES, '', 'w')], length: 60 },
+  6: {
+    moves: [...cubeMoves(FACES), ...cubeMoves(FACES, '', 'w'), ...cubeMoves(['U', 'R', 'F'], '3', 'w')],
+    length: 80,
+  },
+  7: {
+    moves: [...cubeMoves(FACES), ...cubeMoves(FACES, '', 'w'), ...cubeMoves(FACES, '3', 'w')],
+    length: 100,
+  },
+};
+
+/** NxN 随机步打乱（2x2、4x4 - 7x7；3x3 使用 generateScramble） */
+export function generateCubeScramble(size: number, random: () => number = Math.random): string {
+  if (size === 3) return generateScramble(20, random);
+  const config = CUBE_SCRAMBLE_MOVES[size];
+  if (!config) throw new Error(`不支持的魔方阶数: ${size}`);
+  return generateAxisScramble(config.moves, config.length, random);
+}
+
+/** 金字塔：11 步 U L R B，再随机转动四个角尖 */
+export function generatePyraminxScramble(random: () => number = Math.random): string {
+  const faces = ['U', 'L', 'R', 'B'].map((face) => ({ axis: face, base: face }));
+  const tips = ['u', 'l', 'r', 'b']
+    .map((tip) => pick(['', tip, `${tip}'`], random))
+    .filter(Boolean);
+  return [generateAxisScramble(faces, 11, random, ['', "'"]), ...tips].join(' ');
+}
+
+/** 斜转：11 步 R U L B */
+export function generateSkewbScramble(random: () => number = Math.random): string {
+  const faces = ['R', 'U', 'L', 'B'].map((face) => ({ axis: face, base: face }));
+  return generateAxisScramble(faces, 11, random, ['', "'"]);
+}
+
+/** 五魔方：WCA 使用的 Pochmann 记法，7 行，每行 10 步 R±± D±± 后接 U 或 U' */
+export function generateMegaminxScramble(random: () => number = Math.random): string {
+  const lines: string[] = [];
+  for (let line = 0; line < 7; line++) {
+    const moves: string[] = [];
+    let lastDir = '';
+    for (let i = 0; i < 10; i++) {
+      lastDir = pick(['++', '--'], random);
+      moves.push((i % 2 === 0 ? 'R' : 'D') + lastDir);
+    }
+    moves.push(lastDir === '++' ? 'U' : "U'");
+    lines.push(moves.join(' '));
+  }
+  return lines.join('\n');
+}
+
+// SQ1 每层 12 个 30° 单元，从切线起依次为 角 棱 角 棱…，角块占两格、棱块占一格；
+// 两层都按俯视顺时针编号，切线位于 11|0 与 5|6 之间
+const SQ1_LAYER_PIECES = [2, 1, 2, 1, 2, 1, 2, 1];
+const SQ1_SLASHES = 12;
+
+/** 还原态的一层：每格记录所属块的编号，同一角块的两格编号相同 */
+function solvedSq1Layer(offset: number): number[] {
+  return SQ1_LAYER_PIECES.flatMap((units, i) => new Array<number>(units).fill(offset + i));
+}
+
+function rotateLayer(layer: number[], amount: number): number[] {
+  const n = layer.length;
+  return layer.map((_, i) => layer[(((i - amount) % n) + n) % n]);
+}
+
+function canSlash(layer: number[]): boolean {
+  return layer[11] !== layer[0] && layer[5] !== layer[6];
+}
+
+/** SQ1：12 次随机 (上, 下) 转动 + "/"，只选择转动后能够切片的组合 */
+export function generateSquare1Scramble(random: () => number = Math.random): string {
+  let top = solvedSq1Layer(0);
+  let bottom = solvedSq1Layer(SQ1_LAYER_PIECES.length);
+  const steps: string[] = [];
+
+  while (steps.length < SQ1_SLASHES) {
+    const candidates: [number, number][] = [];
+    for (let a = -5; a <= 6; a++) {
+      for (let b = -5; b <= 6; b++) {
+        if (a === 0 && b === 0 && steps.length > 0) continue;
+        // 上层 a 为俯视顺时针；下层 b 为从底面看顺时针，即俯视逆时针
+        if (canSlash(rotateLayer(top, a)) && canSlash(rotateLayer(bottom, -b))) {
+          candidates.push([a, b]);
+        }
+      }
+    }
+    const [a, b] = pick(candidates, random);
+    top = rotateLayer(top, a);
+    bottom = rotateLayer(bottom, -b);
+    // 切片：右半边绕水平轴翻转 180°，上层单元 i 与下层单元 5 - i 互换
+    const nextTop = top.slice();
+    const nextBottom = bottom.slice();
+    for (let i = 0; i < 6; i++) {
+      nextTop[i] = bottom[5 - i];
+      nextBottom[i] = top[5 - i];
+    }
+    top = nextTop;
+    bottom = nextBottom;
+    steps.push(`(${a},${b})`);
+  }
+
+  return steps.join(' / ') + ' /';
+}
+
+const CLOCK_FRONT = ['UR', 'DR', 'DL', 'UL', 'U', 'R', 'D', 'L', 'ALL'];
+const CLOCK_BACK = ['U', 'R', 'D', 'L', 'ALL'];
+const CLOCK_PINS = ['UR', 'DR', 'DL', 'UL'];
+
+/** 魔表：WCA 记法，正面 9 步、y2 翻面后 5 步，最后列出保持按下的钉子 */
+export function generateClockScramble(random: () => number = Math.random): string {
+  const turn = (pins: string) => {
+    const amount = Math.floor(random() * 12) - 5;
+    return amount >= 0 ? `${pins}${amount}+` : `${pins}${-amount}-`;
+  };
+  const pins = CLOCK_PINS.filter(() => random() < 0.5);
+  return [...CLOCK_FRONT.map(turn), 'y2', ...CLOCK_BACK.map(turn), ...pins].join(' ');
+}
@@ -0,0 +1,138 @@
+/**
+ * 打乱组：由种子确定的打乱序列，队友用同一种子即可按相同顺序拿到完全相同的打乱
+ *
+ * 第 n 条打乱只取决于（种子, 项目, n），用它们散列出的种子初始化 PRNG 后交给生成器，
+ * 所以可以从任意一条开始、跳过或在项目间切换，而不影响其他序号的打乱。
+ * 3x3 类项目在打乱组中总是使用随机状态打乱，与各人的打乱模式设置无关。
+ */
+import { generateRandomStateScramble } from './randomStateScramble';
+import { getPuzzle, isPuzzleType, type PuzzleType } from './puzzles';
+import { withRandomOrientation } from './scrambleGenerator';
+
+const SCRAMBLE_SET_KEY = 'cube-rush-scramble-set';
+
+/** 分享链接中的参数：?seed=…&puzzle=… */
+const SEED_PARAM = 'seed';
+const PUZZLE_PARAM = 'puzzle';
+
+const MAX_SEED_LENGTH = 32;
+
+export interface ScrambleSet {
+  seed: string;
+  /** 各项目当前打乱在组内的序号（从 1 开始）；还没用过的项目从第 1 条开始 */
+  indices: Partial<Record<PuzzleType, number>>;
+}
+
+/** 一条打乱在打乱组中的位置，随成绩保存 */
+export interface ScramblePosition {
+  seed: string;
+  /** 组内序号，从 1 开始 */
+  index: number;
+}
+
+/** 把字符串散列为 32 位整数（FNV-1a） */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32：32 位状态的小型 PRNG，同一种子总是得到同一序列，返回 [0, 1) */
+export function createRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** 新打乱组的随机种子：6 位小写字母与数字，方便口头告诉队友 */
+export function randomSeed(): string {
+  const values = crypto.getRandomValues(new Uint32Array(6));
+  return Array.from(values, (v) => (v % 36).toString(36)).join('');
+}
+
+/** 去掉首尾空白并截断过长的种子；为空时返回 null */
+export function normalizeSeed(seed: string): string | null {
+  const trimmed = seed.trim().slice(0, MAX_SEED_LENGTH);
+  return trimmed || null;
+}
+
+/** 组内第 index 条打乱使用的随机数函数 */
+export function scrambleRandom(position: ScramblePosition, puzzle: PuzzleType): () => number {
+  return createRandom(`${position.seed}/${puzzle}/${position.index}`);
+}
+
+/**
+ * 打乱组中的一条打乱
+ *
+ * 随机状态求解失败时退回同一随机数函数的随机步打乱，仍然可以复现。
+ */
+export async function seededScramble(puzzle: PuzzleType, position: ScramblePosition): Promise<string> {
+  const info = getPuzzle(puzzle);
+  if (!info.randomState) return info.generate(scrambleRandom(position, puzzle));
+  const random = scrambleRandom(position, puzzle);
+  try {
+    const scramble = await generateRandomStateScramble(random);
+    return info.blindfolded ? withRandomOrientation(scramble, random) : scramble;
+  } catch {
+    return info.generate(scrambleRandom(position, puzzle));
+  }
+}
+
+/** 项目当前打乱在组内的位置 */
+export function currentPosition(set: ScrambleSet, puzzle: PuzzleType): ScramblePosition {
+  return { seed: set.seed, index: set.indices[puzzle] ?? 1 };
+}
+
+/** 链接中的种子与项目；链接中的种子优先于本机保存的打乱组 */
+export function readShareParams(): { seed: string; puzzle: PuzzleType | null } | null {
+  const params = new URLSearchParams(location.search);
+  const seed = normalizeSeed(params.get(SEED_PARAM) ?? '');
+  if (!seed) return null;
+  const puzzle = params.get(PUZZLE_PARAM);
+  return { seed, puzzle: isPuzzleType(puzzle) ? puzzle : null };
+}
+
+/** 读取后从地址栏移除分享参数，刷新页面时不会重新开始打乱组 */
+export function clearShareParams() {
+  const url = new URL(location.href);
+  if (!url.searchParams.has(SEED_PARAM)) return;
+  url.searchParams.delete(SEED_PARAM);
+  url.searchParams.delete(PUZZLE_PARAM);
+  history.replaceState(history.state, '', url);
+}
+
+export function shareUrl(seed: string, puzzle: PuzzleType): string {
+  const url = new URL(location.pathname, location.origin);
+  url.searchParams.set(SEED_PARAM, seed);
+  url.searchParams.set(PUZZLE_PARAM, puzzle);
+  return url.toString();
+}
+
+/** 打开分享链接时开始链接中的打乱组（同一种子则继续原来的进度），否则读取本机保存的 */
+export function loadScrambleSet(): ScrambleSet | null {
+  let saved: ScrambleSet | null = null;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SCRAMBLE_SET_KEY) ?? 'null');
+    if (parsed && typeof parsed.seed === 'string' && parsed.indices && typeof parsed.indices === 'object') {
+      saved = { seed: parsed.seed, indices: parsed.indices };
+    }
+  } catch {
+    saved = null;
+  }
+  const shared = readShareParams();
+  if (shared && shared.seed !== saved?.seed) return { seed: shared.seed, indices: {} };
+  return saved;
+}
+
+export function saveScrambleSet(set: ScrambleSet | null) {
+  if (set) localStorage.setItem(SCRAMBLE_SET_KEY, JSON.stringify(set));
+  else localStorage.removeItem(SCRAMBLE_SET_KEY);
+}
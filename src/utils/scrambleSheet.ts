@@ -0,0 +1,147 @@
+/**
+ * 比赛打乱表：按项目、轮次与组别生成可打印的打乱，并导出为 JSON 存档
+ *
+ * 每组的打乱用打乱组的 PRNG 生成（种子为 "表种子/轮次组别"），JSON 中保存表种子，
+ * 同一设置与种子可以重新生成完全相同的打乱表。
+ */
+import { getPuzzle, isPuzzleType, type PuzzleType } from './puzzles';
+import { randomSeed, seededScramble } from './scrambleSet';
+
+const SHEET_SETTINGS_KEY = 'cube-rush-sheet-settings';
+
+export interface SheetSettings {
+  /** 比赛名称，印在每页页眉 */
+  competition: string;
+  puzzle: PuzzleType;
+  rounds: number;
+  /** 每轮的组数 */
+  groups: number;
+  /** 每组的正式打乱条数 */
+  solves: number;
+  /** 每组的备用打乱条数 */
+  extras: number;
+}
+
+/** 各项的取值范围 */
+export const SHEET_LIMITS: Record<'rounds' | 'groups' | 'solves' | 'extras', [number, number]> = {
+  rounds: [1, 4],
+  groups: [1, 10],
+  solves: [1, 5],
+  extras: [0, 3],
+};
+
+/** 每组的正式打乱条数：Mo3 / Bo3 项目 3 条，其余 Ao5 为 5 条 */
+export function defaultSolves(puzzle: PuzzleType): number {
+  return puzzle === '666' || puzzle === '777' || puzzle === '333bf' ? 3 : 5;
+}
+
+const DEFAULT_SHEET_SETTINGS: SheetSettings = {
+  competition: '',
+  puzzle: '333',
+  rounds: 1,
+  groups: 2,
+  solves: 5,
+  extras: 2,
+};
+
+function clamp(value: unknown, [min, max]: [number, number], fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+export function normalizeSheetSettings(settings: Partial<SheetSettings>): SheetSettings {
+  const d = DEFAULT_SHEET_SETTINGS;
+  return {
+    competition: typeof settings.competition === 'string' ? settings.competition : d.competition,
+    puzzle: isPuzzleType(settings.puzzle) ? settings.puzzle : d.puzzle,
+    rounds: clamp(settings.rounds, SHEET_LIMITS.rounds, d.rounds),
+    groups: clamp(settings.groups, SHEET_LIMITS.groups, d.groups),
+    solves: clamp(settings.solves, SHEET_LIMITS.solves, d.solves),
+    extras: clamp(settings.extras, SHEET_LIMITS.extras, d.extras),
+  };
+}
+
+export function loadSheetSettings(): SheetSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SHEET_SETTINGS_KEY) ?? 'null');
+    return normalizeSheetSettings(saved && typeof saved === 'object' ? saved : {});
+  } catch {
+    return DEFAULT_SHEET_SETTINGS;
+  }
+}
+
+export function saveSheetSettings(settings: SheetSettings) {
+  localStorage.setItem(SHEET_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/** 轮次名称：多轮时最后一轮为决赛 */
+export function roundName(index: number, total: number): string {
+  return total > 1 && index === total - 1 ? '决赛' : `第 ${index + 1} 轮`;
+}
+
+/** 组别名称：A、B、C… */
+export function groupName(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+export interface SheetGroup {
+  name: string;
+  scrambles: string[];
+  extras: string[];
+}
+
+export interface SheetRound {
+  name: string;
+  groups: SheetGroup[];
+}
+
+export interface ScrambleSheet {
+  competition: string;
+  puzzle: PuzzleType;
+  /** 表种子，与设置一起可重新生成同一张表 */
+  seed: string;
+  createdAt: number;
+  rounds: SheetRound[];
+}
+
+/** 打乱总条数（含备用），用于显示进度 */
+export function sheetScrambleCount(settings: SheetSettings): number {
+  return settings.rounds * settings.groups * (settings.solves + settings.extras);
+}
+
+/**
+ * 生成打乱表；3x3 类项目为随机状态打乱，逐条求解，onProgress 报告已完成的条数
+ */
+export async function generateSheet(
+  settings: SheetSettings,
+  seed: string = randomSeed(),
+  onProgress?: (done: number) => void
+): Promise<ScrambleSheet> {
+  let done = 0;
+  const rounds: SheetRound[] = [];
+  for (let r = 0; r < settings.rounds; r++) {
+    const groups: SheetGroup[] = [];
+    for (let g = 0; g < settings.groups; g++) {
+      const name = groupName(g);
+      const scrambles: string[] = [];
+      // 正式打乱为 1..solves，备用打乱接着编号
+      for (let index = 1; index <= settings.solves + settings.extras; index++) {
+        scrambles.push(await seededScramble(settings.puzzle, { seed: `${seed}/${r + 1}${name}`, index }));
+        onProgress?.(++done);
+      }
+      groups.push({ name, scrambles: scrambles.slice(0, settings.solves), extras: scrambles.slice(settings.solves) });
+    }
+    rounds.push({ name: roundName(r, settings.rounds), groups });
+  }
+  return { competition: settings.competition.trim(), puzzle: settings.puzzle, seed, createdAt: Date.now(), rounds };
+}
+
+/** JSON 存档：打乱表本身加上项目名称，方便人工查阅 */
+export function sheetToJson(sheet: ScrambleSheet): string {
+  return JSON.stringify({ ...sheet, puzzleName: getPuzzle(sheet.puzzle).name }, null, 2);
+}
+
+export function sheetFileName(sheet: ScrambleSheet): string {
+  const name = (sheet.competition || 'scrambles').replace(/[\\/:*?"<>|\s]+/g, '-');
+  return `${name}-${sheet.puzzle}.json`;
+}
@@ -0,0 +1,138 @@
+/**
+ * 传感器校准：由环境噪声与几次轻拍算出冲击阈值和冷却时间，按设备保存
+ *
+ * 阈值取噪声底与最轻一次轻拍峰值的几何平均（两者常差一两个数量级），
+ * 并限制在 3 倍噪声与 0.7 倍最轻轻拍之间；冷却时间覆盖轻拍后的余震。
+ * 灵敏度滑块与阈值一一对应，校准后滑块移到对应位置，仍可手动微调。
+ */
+import type { FilteredSample, ImpactEvent } from './impactDetector';
+
+const PROFILES_KEY = 'cube-rush-sensor-profiles';
+
+export const SENSITIVITY_MIN = 1;
+export const SENSITIVITY_MAX = 190;
+const THRESHOLD_MAX = 4.0;
+const THRESHOLD_MIN = 0.25;
+
+/** 灵敏度(1-190) → 冲击阈值：灵敏度越高阈值越低 */
+export function sensitivityToThreshold(sensitivity: number): number {
+  // 200 级精度，上限 95%（最大190）
+  // sensitivity 1   → threshold 4.0 (很不灵敏)
+  // sensitivity 95  → threshold ~1.2 (默认)
+  // sensitivity 190 → threshold 0.25 (很灵敏但不会过于灵敏)
+  return THRESHOLD_MAX - (sensitivity - 1) * ((THRESHOLD_MAX - THRESHOLD_MIN) / (SENSITIVITY_MAX - 1));
+}
+
+/** 冲击阈值 → 最接近的灵敏度，超出滑块范围时取端点 */
+export function thresholdToSensitivity(threshold: number): number {
+  const raw = 1 + ((THRESHOLD_MAX - threshold) * (SENSITIVITY_MAX - 1)) / (THRESHOLD_MAX - THRESHOLD_MIN);
+  return Math.min(SENSITIVITY_MAX, Math.max(SENSITIVITY_MIN, Math.round(raw)));
+}
+
+/** 校准过程：先测噪声，再记录轻拍 */
+export const CALIBRATION_NOISE_MS = 3000;
+export const CALIBRATION_TAPS = 5;
+/** 至少几次轻拍才能完成校准 */
+export const CALIBRATION_MIN_TAPS = 3;
+export const CALIBRATION_TAP_TIMEOUT_MS = 20000;
+
+/** 余震的观察范围与冷却时间的取值范围 */
+const AFTERSHOCK_WINDOW_MS = 1000;
+const COOLDOWN_MIN_MS = 300;
+const COOLDOWN_MAX_MS = 1000;
+
+export interface SensorProfile {
+  /** 冲击阈值 (m/s²)，已限制在滑块范围内 */
+  threshold: number;
+  cooldownMs: number;
+  /** 环境噪声（99% 分位，m/s²） */
+  noiseFloor: number;
+  /** 各次轻拍的峰值 (m/s²) */
+  tapPeaks: number[];
+  /** 轻拍后最长的余震 (ms) */
+  aftershockMs: number;
+  /** 校准时间 */
+  date: number;
+}
+
+/** 噪声底：滤波后幅值的 99% 分位，排除偶发的单个尖峰 */
+export function measureNoiseFloor(levels: number[]): number {
+  if (levels.length === 0) return 0;
+  const sorted = [...levels].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) * 0.99)];
+}
+
+/** 轻拍检测用的临时阈值：明显高于噪声即可 */
+export function calibrationTapThreshold(noiseFloor: number): number {
+  return Math.max(noiseFloor * 3, 0.2);
+}
+
+/**
+ * 根据噪声底与轻拍算出校准结果
+ *
+ * trace 为记录轻拍期间全部滤波后的采样，用于测量每次轻拍之后的余震；
+ * 轻拍不足或与噪声区分不开时抛出错误，错误信息可直接展示给用户。
+ */
+export function computeProfile(noiseFloor: number, taps: ImpactEvent[], trace: FilteredSample[]): SensorProfile {
+  if (taps.length < CALIBRATION_MIN_TAPS) {
+    throw new Error(`只检测到 ${taps.length} 次轻拍，至少需要 ${CALIBRATION_MIN_TAPS} 次`);
+  }
+  const tapPeaks = taps.map((tap) => tap.peak);
+  const weakest = Math.min(...tapPeaks);
+  if (weakest < noiseFloor * 3) {
+    throw new Error('轻拍与环境振动区分不开：请把手机放在更稳的桌面上，或拍得更用力一些');
+  }
+
+  const ideal = Math.sqrt(Math.max(noiseFloor, 0.01) * weakest);
+  const bounded = Math.min(Math.max(ideal, noiseFloor * 3), weakest * 0.7);
+  const threshold = Math.min(THRESHOLD_MAX, Math.max(THRESHOLD_MIN, bounded));
+
+  // 余震：轻拍后（到下一次轻拍之前）最后一次超过阈值的时刻
+  let aftershockMs = 0;
+  taps.forEach((tap, i) => {
+    const limit = Math.min(tap.time + AFTERSHOCK_WINDOW_MS, i + 1 < taps.length ? taps[i + 1].time : Infinity);
+    for (const s of trace) {
+      if (s.t > tap.time && s.t < limit && s.magnitude > threshold) {
+        aftershockMs = Math.max(aftershockMs, s.t - tap.time);
+      }
+    }
+  });
+  const cooldownMs = Math.min(
+    COOLDOWN_MAX_MS,
+    Math.max(COOLDOWN_MIN_MS, Math.ceil((aftershockMs + 100) / 50) * 50)
+  );
+
+  return { threshold, cooldownMs, noiseFloor, tapPeaks, aftershockMs, date: Date.now() };
+}
+
+// ── 按设备保存 ──
+
+/** 同一浏览器数据可能被不同设备使用（如同步、备份恢复），以 UA 与屏幕尺寸区分设备 */
+function deviceKey(): string {
+  const { width, height } = screen;
+  return `${navigator.userAgent}|${Math.min(width, height)}x${Math.max(width, height)}`;
+}
+
+function loadProfiles(): Record<string, SensorProfile> {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/** 本设备的校准结果，没有校准过时为 null */
+export function loadSensorProfile(): SensorProfile | null {
+  return loadProfiles()[deviceKey()] ?? null;
+}
+
+export function saveSensorProfile(profile: SensorProfile) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify({ ...loadProfiles(), [deviceKey()]: profile }));
+}
+
+export function clearSensorProfile() {
+  const profiles = loadProfiles();
+  delete profiles[deviceKey()];
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
@@ -0,0 +1,83 @@
+/**
+ * 分段计时：计时中每拍一次记录一段，最后一段才停止计时
+ *
+ * 段名由用户设置（如 CFOP 的 Cross / F2L / OLL / PLL），少于两段即普通计时。
+ * 每次成绩保存各段用时，统计时按段名汇总，看出哪一步最值得练习。
+ */
+import type { SolveRecord, SolveSplit } from '../types';
+
+export const MAX_STEPS = 8;
+
+/** 盲拧固定的两段：戴上眼罩前为记忆，之后为执行 */
+export const BLD_STEPS = ['记忆', '执行'];
+
+/** 常用的分段方式 */
+export const STEP_PRESETS: { label: string; steps: string[] }[] = [
+  { label: 'CFOP', steps: ['Cross', 'F2L', 'OLL', 'PLL'] },
+  { label: 'Roux', steps: ['FB', 'SB', 'CMLL', 'LSE'] },
+  { label: 'ZZ', steps: ['EOLine', 'F2L', 'LL'] },
+  { label: '层先', steps: ['第一层', '第二层', '顶层'] },
+];
+
+/**
+ * 解析用户输入的段名（逗号、斜杠或换行分隔），不合法时抛出错误
+ *
+ * 少于两段返回空数组，表示不分段
+ */
+export function parseStepNames(text: string): string[] {
+  const steps = text
+    .split(/[,，/\n]/)
+    .map((s) => s.trim().replace(/\s+/g, ' '))
+    .filter(Boolean);
+  if (steps.length > MAX_STEPS) throw new Error(`最多 ${MAX_STEPS} 段`);
+  if (new Set(steps).size < steps.length) throw new Error('段名不能重复');
+  return steps.length >= 2 ? steps : [];
+}
+
+/** 由各段结束的时刻（从开始算起，最后一个即总用时）得到各段用时 */
+export function splitsFromMarks(steps: string[], marks: number[]): SolveSplit[] {
+  return steps.map((name, i) => ({ name, time: marks[i] - (i > 0 ? marks[i - 1] : 0) }));
+}
+
+/** 最近几次的平均 */
+const RECENT_COUNT = 12;
+
+export interface StepAverage {
+  name: string;
+  /** 有这一段的成绩次数 */
+  count: number;
+  mean: number;
+  /** 最近 12 次的平均，不足 12 次为 null */
+  recent: number | null;
+  best: number;
+  /** 平均用时占各段平均之和的比例 */
+  share: number;
+}
+
+/**
+ * 各段的平均、最近平均与最佳（records 最新在前）
+ *
+ * DNF 的成绩不计；按段名汇总，换过分段方式的成绩也能合并，顺序同最近出现的分段
+ */
+export function stepAverages(records: SolveRecord[]): StepAverage[] {
+  const byName = new Map<string, number[]>();
+  for (const record of records) {
+    if (record.penalty === 'DNF' || !record.splits) continue;
+    for (const { name, time } of record.splits) {
+      const times = byName.get(name);
+      if (times) times.push(time);
+      else byName.set(name, [time]);
+    }
+  }
+
+  const mean = (times: number[]) => times.reduce((a, b) => a + b, 0) / times.length;
+  const rows = [...byName].map(([name, times]) => ({
+    name,
+    count: times.length,
+    mean: mean(times),
+    recent: times.length >= RECENT_COUNT ? mean(times.slice(0, RECENT_COUNT)) : null,
+    best: Math.min(...times),
+  }));
+  const total = rows.reduce((sum, row) => sum + row.mean, 0);
+  return rows.map((row) => ({ ...row, share: total > 0 ? row.mean / total : 0 }));
+}
@@ -0,0 +1,209 @@
+/**
+ * Stackmat 计时器信号解码
+ *
+ * 计时器的数据口输出 1200 波特的串行信号（8 个数据位、无校验、1 个停止位），
+ * 通过音频线接入麦克风后就是一段方波。每个数据包：
+ *
+ *   状态字符 + 5 位（2 代）或 6 位（3/4 代）数字 + 校验 + '\n' + '\r'
+ *
+ * 数字依次为 分、秒十位、秒个位、百分之一秒（3/4 代为千分之一秒），校验为 64 + 各位数字之和。
+ *
+ * 麦克风输入是交流耦合的，电平保持不变时信号会逐渐回落到 0，直接按正负判断会出错；
+ * 因此只看跳变：与 1/4 位之前的采样相比明显升高或降低时，电平才翻转。
+ * 不同音频线的极性可能相反，以长时间不变的空闲电平为逻辑 1 自动判断。
+ *
+ * 纯函数实现：输入采样即可解码，可以直接用录下的 WAV 文件测试。
+ */
+
+export type StackmatStatus =
+  | 'idle' // 已清零
+  | 'ready' // 双手按住，松开即开始
+  | 'running' // 计时中
+  | 'stopped' // 已停止
+  | 'left' // 只按住左手
+  | 'right' // 只按住右手
+  | 'both'; // 双手按住，尚未就绪
+
+const STATUS_CODES: Record<string, StackmatStatus> = {
+  I: 'idle',
+  A: 'ready',
+  ' ': 'running',
+  S: 'stopped',
+  L: 'left',
+  R: 'right',
+  C: 'both',
+};
+
+export interface StackmatPacket {
+  status: StackmatStatus;
+  /** 计时器显示的时间 (ms) */
+  time: number;
+  /** 数字位数：5 位为 2 代（精确到 0.01 秒），6 位为 3/4 代（精确到 0.001 秒） */
+  digits: 5 | 6;
+}
+
+const BAUD_RATE = 1200;
+/** 同一电平保持超过这么多位视为线路空闲 */
+const IDLE_BITS = 12;
+/** 信号幅度低于它视为没有接入计时器 */
+const MIN_AMPLITUDE = 0.01;
+/** 跳变判断：相对跳变幅度包络的比例 */
+const EDGE_RATIO = 0.4;
+/** 包络衰减到一半的时间 (s) */
+const ENVELOPE_HALF_LIFE = 0.05;
+
+const LF = 10;
+const CR = 13;
+
+/**
+ * 解析一个数据包的字节；校验失败或格式不对时返回 null
+ */
+export function parseStackmatPacket(bytes: number[]): StackmatPacket | null {
+  const digits = bytes.length - 4;
+  if (digits !== 5 && digits !== 6) return null;
+  const status = STATUS_CODES[String.fromCharCode(bytes[0])];
+  if (!status) return null;
+  const values = bytes.slice(1, 1 + digits).map((b) => b - 48);
+  if (values.some((v) => v < 0 || v > 9)) return null;
+  if (bytes[digits + 1] !== 64 + values.reduce((a, b) => a + b, 0)) return null;
+  if (bytes[digits + 2] !== LF || bytes[digits + 3] !== CR) return null;
+
+  const [minutes, tens, ones, ...fraction] = values;
+  const millis = digits === 6 ? fraction[0] * 100 + fraction[1] * 10 + fraction[2] : fraction[0] * 100 + fraction[1] * 10;
+  return { status, time: minutes * 60000 + (tens * 10 + ones) * 1000 + millis, digits };
+}
+
+export interface StackmatDecoder {
+  /** 输入一段采样（-1 ~ 1），返回其中解出的数据包 */
+  push: (samples: ArrayLike<number>) => StackmatPacket[];
+  reset: () => void;
+}
+
+export function createStackmatDecoder(sampleRate: number): StackmatDecoder {
+  const samplesPerBit = sampleRate / BAUD_RATE;
+  const idleSamples = IDLE_BITS * samplesPerBit;
+  const decay = Math.pow(0.5, 1 / (ENVELOPE_HALF_LIFE * sampleRate));
+  /** 最近 1/4 位的采样，用于检测跳变 */
+  const history = new Float32Array(Math.max(1, Math.round(samplesPerBit / 4)));
+  let historyIndex = 0;
+
+  let envelope = 0;
+  /** 当前电平 1 / -1，0 表示尚未确定 */
+  let level = 0;
+  let runLength = 0;
+  /** 当前这段电平是否已按空闲处理 */
+  let runIsIdle = false;
+  /** 空闲电平（逻辑 1），0 表示极性尚未确定 */
+  let idleLevel = 0;
+  /** -1 等待起始位，0-7 数据位，8 停止位 */
+  let bitIndex = -1;
+  let byte = 0;
+  let bytes: number[] = [];
+
+  const reset = () => {
+    history.fill(0);
+    historyIndex = 0;
+    envelope = 0;
+    level = 0;
+    runLength = 0;
+    runIsIdle = false;
+    idleLevel = 0;
+    bitIndex = -1;
+    byte = 0;
+    bytes = [];
+  };
+
+  /** 收到 '\r' 或线路空闲：尝试解析已收到的字节（只看末尾一个包的长度） */
+  const finishPacket = (packets: StackmatPacket[]) => {
+    if (bytes.length > 0) {
+      const packet = parseStackmatPacket(bytes.slice(-10)) ?? parseStackmatPacket(bytes.slice(-9));
+      if (packet) packets.push(packet);
+    }
+    bytes = [];
+  };
+
+  const pushBit = (bit: number, packets: StackmatPacket[]) => {
+    if (bitIndex === -1) {
+      // 等待起始位（逻辑 0）
+      if (bit === 0) {
+        bitIndex = 0;
+        byte = 0;
+      }
+      return;
+    }
+    if (bitIndex < 8) {
+      // 低位在前
+      byte |= bit << bitIndex;
+      bitIndex++;
+      return;
+    }
+    bitIndex = -1;
+    if (bit !== 1) {
+      // 停止位错误：本包作废
+      bytes = [];
+      return;
+    }
+    bytes.push(byte);
+    if (byte === CR) finishPacket(packets);
+  };
+
+  /** 线路空闲：补上最后一个字节的停止位，结束当前数据包 */
+  const handleIdle = (idle: number, packets: StackmatPacket[]) => {
+    if (idleLevel === idle && bitIndex === 8) pushBit(1, packets);
+    idleLevel = idle;
+    bitIndex = -1;
+    finishPacket(packets);
+  };
+
+  const endRun = (runLevel: number, length: number, packets: StackmatPacket[]) => {
+    if (runIsIdle || idleLevel === 0) return;
+    const bitCount = Math.round(length / samplesPerBit);
+    const bit = runLevel === idleLevel ? 1 : 0;
+    for (let i = 0; i < bitCount; i++) pushBit(bit, packets);
+  };
+
+  const push = (samples: ArrayLike<number>): StackmatPacket[] => {
+    const packets: StackmatPacket[] = [];
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i];
+      const delta = x - history[historyIndex];
+      history[historyIndex] = x;
+      historyIndex = (historyIndex + 1) % history.length;
+
+      envelope = Math.max(Math.abs(delta), envelope * decay);
+      if (envelope < MIN_AMPLITUDE) {
+        // 没有信号：丢弃未完成的数据，重新判断极性
+        if (level !== 0) {
+          level = 0;
+          idleLevel = 0;
+          bitIndex = -1;
+          bytes = [];
+        }
+        continue;
+      }
+
+      const threshold = envelope * EDGE_RATIO;
+      const next = delta > threshold ? 1 : delta < -threshold ? -1 : level;
+      if (next !== level) {
+        if (level !== 0) endRun(level, runLength, packets);
+        level = next;
+        runLength = 0;
+        runIsIdle = false;
+      }
+      if (level === 0) continue;
+      runLength++;
+      if (!runIsIdle && runLength >= idleSamples) {
+        runIsIdle = true;
+        handleIdle(level, packets);
+      }
+    }
+    return packets;
+  };
+
+  return { push, reset };
+}
+
+/** 解码一整段采样（如 WAV 文件） */
+export function decodeStackmatSignal(samples: ArrayLike<number>, sampleRate: number): StackmatPacket[] {
+  return createStackmatDecoder(sampleRate).push(samples);
+}
@@ -0,0 +1,275 @@
+/**
+ * 成绩统计：最佳/当前 MoN 与 AoN、平均值、标准差
+ *
+ * 成绩数组按时间先后排列（最早的在前），DNF 以 Infinity 表示。
+ * 滑动窗口逐次推进，新增一次成绩只计算最后一个窗口；删除或修改某次成绩时，
+ * 只重新计算包含该次及之后的窗口。
+ */
+import { DNF } from './timeFormat';
+
+export type StatKey = 'mo3' | 'ao5' | 'ao12' | 'ao50' | 'ao100' | 'ao1000';
+
+export interface StatDef {
+  key: StatKey;
+  label: string;
+  size: number;
+  /** 两端各去掉的次数：Mo3 不去，Ao5/Ao12 各去 1，更大的按 5% 向上取整 */
+  trim: number;
+}
+
+export const STAT_DEFS: StatDef[] = [
+  { key: 'mo3', label: 'Mo3', size: 3, trim: 0 },
+  { key: 'ao5', label: 'Ao5', size: 5, trim: 1 },
+  { key: 'ao12', label: 'Ao12', size: 12, trim: 1 },
+  { key: 'ao50', label: 'Ao50', size: 50, trim: 3 },
+  { key: 'ao100', label: 'Ao100', size: 100, trim: 5 },
+  { key: 'ao1000', label: 'Ao1000', size: 1000, trim: 50 },
+];
+
+export function getStatDef(key: StatKey): StatDef {
+  return STAT_DEFS.find((d) => d.key === key)!;
+}
+
+/**
+ * 最佳单次：DNF 不参与；全部 DNF 时为 DNF，没有成绩时为 null
+ */
+export function calcBest(times: number[]): number | null {
+  if (times.length === 0) return null;
+  return Math.min(...times);
+}
+
+/**
+ * 去掉两端各 trim 次后取平均
+ *
+ * 按 WCA 规则：DNF 排在最差一端，被去掉的 DNF 不影响结果；剩余部分含 DNF 时平均为 DNF
+ */
+export function calcAverage(times: number[], trim = 1): number | null {
+  if (times.length <= trim * 2) return null;
+  const sorted = [...times].sort((a, b) => a - b);
+  const kept = sorted.slice(trim, sorted.length - trim);
+  if (kept.includes(DNF)) return DNF;
+  return kept.reduce((a, b) => a + b, 0) / kept.length;
+}
+
+/**
+ * 最近 N 次的 Average of N（times 最新的在前），去尾数与 STAT_DEFS 一致
+ */
+export function calcAoN(times: number[], n: number): number | null {
+  if (times.length < n) return null;
+  const def = STAT_DEFS.find((d) => d.size === n && d.trim > 0);
+  return calcAverage(times.slice(0, n), def ? def.trim : Math.ceil(n * 0.05));
+}
+
+/** 低于目标时间的次数（DNF 不计） */
+export function countUnder(times: number[], target: number): number {
+  return times.filter((t) => t < target).length;
+}
+
+// ── 增量统计 ──
+
+interface StatSeries {
+  def: StatDef;
+  /** values[i]：第 i ~ i+size-1 次组成的窗口的平均 */
+  values: number[];
+  best: number | null;
+  /** 最佳窗口的起点 */
+  bestStart: number;
+}
+
+export interface StatsCache {
+  /** 参与统计的成绩（最早的在前） */
+  times: number[];
+  series: StatSeries[];
+  /** 非 DNF 成绩的和与平方和，用于平均值与标准差 */
+  sum: number;
+  sumSq: number;
+  validCount: number;
+}
+
+export const EMPTY_STATS: StatsCache = {
+  times: [],
+  series: STAT_DEFS.map((def) => ({ def, values: [], best: null, bestStart: -1 })),
+  sum: 0,
+  sumSq: 0,
+  validCount: 0,
+};
+
+/** 有序数组中第一个 ≥ value 的位置 */
+function lowerBound(sorted: number[], value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** 有序窗口的去尾平均：finiteSum 为窗口内非 DNF 成绩之和 */
+function trimmedMean(sorted: number[], finiteSum: number, trim: number): number {
+  const size = sorted.length;
+  // 去掉最差 trim 次后仍有 DNF
+  if (sorted[size - trim - 1] === DNF) return DNF;
+  let removed = 0;
+  for (let i = 0; i < trim; i++) {
+    removed += sorted[i];
+    const high = sorted[size - 1 - i];
+    if (high !== DNF) removed += high;
+  }
+  return (finiteSum - removed) / (size - trim * 2);
+}
+
+/** 计算起点为 from 及之后的全部窗口 */
+function extendSeries(times: number[], def: StatDef, from: number): number[] {
+  const { size, trim } = def;
+  const values: number[] = [];
+  if (from + size > times.length) return values;
+
+  const sorted = times.slice(from, from + size).sort((a, b) => a - b);
+  let finiteSum = 0;
+  for (const t of sorted) if (t !== DNF) finiteSum += t;
+  values.push(trimmedMean(sorted, finiteSum, trim));
+
+  for (let start = from + 1; start + size <= times.length; start++) {
+    const outgoing = times[start - 1];
+    const incoming = times[start + size - 1];
+    sorted.splice(lowerBound(sorted, outgoing), 1);
+    sorted.splice(lowerBound(sorted, incoming), 0, incoming);
+    if (outgoing !== DNF) finiteSum -= outgoing;
+    if (incoming !== DNF) finiteSum += incoming;
+    values.push(trimmedMean(sorted, finiteSum, trim));
+  }
+  return values;
+}
+
+function updateSeries(series: StatSeries, times: number[], keep: number): StatSeries {
+  const { def } = series;
+  // 只保留完全落在未变化部分中的窗口
+  const keptWindows = Math.max(0, Math.min(series.values.length, keep - def.size + 1));
+  const added = extendSeries(times, def, keptWindows);
+  const values = series.values.slice(0, keptWindows).concat(added);
+
+  let best = series.best;
+  let bestStart = series.bestStart;
+  let scanFrom = keptWindows;
+  if (bestStart >= keptWindows) {
+    // 原最佳窗口已失效，从头找
+    best = null;
+    bestStart = -1;
+    scanFrom = 0;
+  }
+  for (let i = scanFrom; i < values.length; i++) {
+    if (best === null || values[i] < best) {
+      best = values[i];
+      bestStart = i;
+    }
+  }
+  return { def, values, best, bestStart };
+}
+
+/**
+ * 根据新的成绩数组更新统计：与上次相同的前缀部分直接复用
+ */
+export function updateStats(cache: StatsCache, times: number[]): StatsCache {
+  const prev = cache.times;
+  let keep = 0;
+  const limit = Math.min(prev.length, times.length);
+  while (keep < limit && prev[keep] === times[keep]) keep++;
+  if (keep === prev.length && keep === times.length) return cache;
+
+  let { sum, sumSq, validCount } = cache;
+  for (let i = keep; i < prev.length; i++) {
+    if (prev[i] === DNF) continue;
+    sum -= prev[i];
+    sumSq -= prev[i] * prev[i];
+    validCount--;
+  }
+  for (let i = keep; i < times.length; i++) {
+    if (times[i] === DNF) continue;
+    sum += times[i];
+    sumSq += times[i] * times[i];
+    validCount++;
+  }
+
+  return {
+    times,
+    series: cache.series.map((s) => updateSeries(s, times, keep)),
+    sum,
+    sumSq,
+    validCount,
+  };
+}
+
+// ── 统计结果 ──
+
+export interface AverageSummary {
+  def: StatDef;
+  current: number | null;
+  best: number | null;
+  /** 最佳窗口起点（按时间先后的下标），没有时为 -1 */
+  bestStart: number;
+  /** 滚动平均：values[i] 为第 i ~ i+size-1 次的平均 */
+  values: number[];
+}
+
+export interface SolveStats {
+  count: number;
+  validCount: number;
+  best: number | null;
+  /** 最佳单次的下标（按时间先后），没有时为 -1 */
+  bestIndex: number;
+  /** 平均值与标准差只统计非 DNF 成绩 */
+  mean: number | null;
+  stdDev: number | null;
+  averages: AverageSummary[];
+}
+
+export function summarizeStats(cache: StatsCache): SolveStats {
+  const { times, sum, sumSq, validCount } = cache;
+  // 最佳单次沿用 Mo1 的思路：最早达到的最小值
+  let bestIndex = -1;
+  for (let i = 0; i < times.length; i++) {
+    if (bestIndex === -1 || times[i] < times[bestIndex]) bestIndex = i;
+  }
+
+  const mean = validCount > 0 ? sum / validCount : null;
+  // 样本标准差
+  const stdDev =
+    validCount > 1 && mean !== null
+      ? Math.sqrt(Math.max(0, (sumSq - validCount * mean * mean) / (validCount - 1)))
+      : null;
+
+  return {
+    count: times.length,
+    validCount,
+    best: bestIndex === -1 ? null : times[bestIndex],
+    bestIndex,
+    mean,
+    stdDev,
+    averages: cache.series.map(({ def, values, best, bestStart }) => ({
+      def,
+      current: values.length > 0 ? values[values.length - 1] : null,
+      best,
+      bestStart,
+      values,
+    })),
+  };
+}
+
+/** 成功率：非 DNF 次数占比，没有成绩时为 null */
+export function successRate(stats: SolveStats): number | null {
+  return stats.count > 0 ? stats.validCount / stats.count : null;
+}
+
+export function formatRate(rate: number | null): string {
+  return rate === null ? '--' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * 窗口内被去掉的成绩下标（相对窗口起点）：最好的 trim 次和最差的 trim 次
+ */
+export function trimmedIndices(window: number[], trim: number): Set<number> {
+  const order = window.map((_, i) => i).sort((a, b) => window[a] - window[b] || a - b);
+  return new Set([...order.slice(0, trim), ...order.slice(order.length - trim)]);
+}
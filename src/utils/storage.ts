@@ -0,0 +1,92 @@
+/**
+ * 会话与偏好的本地持久化（localStorage）
+ *
+ * 成绩保存在 IndexedDB（见 db.ts），这里只保留旧版成绩的读取，用于一次性迁移。
+ */
+import type { Session, SolveRecord } from '../types';
+import { DEFAULT_PUZZLE } from './puzzles';
+
+const RECORDS_KEY = 'cube-rush-records';
+const SESSIONS_KEY = 'cube-rush-sessions';
+const ACTIVE_SESSION_KEY = 'cube-rush-active-session';
+
+export const DEFAULT_SESSION_ID = 'default';
+
+function defaultSession(): Session {
+  return { id: DEFAULT_SESSION_ID, name: '默认会话', createdAt: 0 };
+}
+
+/** 旧版本的记录：没有 puzzle / sessionId，DNF 用 dnf 标记 */
+type LegacySolveRecord = Partial<Pick<SolveRecord, 'puzzle' | 'sessionId'>> &
+  Omit<SolveRecord, 'puzzle' | 'sessionId'> & { dnf?: boolean };
+
+function migrateRecord({ dnf, ...r }: LegacySolveRecord): SolveRecord {
+  return {
+    ...r,
+    // 旧版本只有 3x3，且没有会话
+    puzzle: r.puzzle ?? DEFAULT_PUZZLE,
+    sessionId: r.sessionId ?? DEFAULT_SESSION_ID,
+    ...(dnf && { penalty: 'DNF' as const }),
+  };
+}
+
+/** 本次迁移中损坏的旧版成绩的备份键 */
+let backupKey: string | null = null;
+
+/**
+ * 读取 localStorage 中的旧版成绩（迁移到 IndexedDB 之前的存储方式）
+ */
+export function loadLegacyRecords(): SolveRecord[] {
+  const raw = localStorage.getItem(RECORDS_KEY);
+  try {
+    const records: LegacySolveRecord[] = raw ? JSON.parse(raw) : [];
+    return records.map(migrateRecord);
+  } catch {
+    // 数据损坏时另存一份原始数据，避免迁移后被删除
+    backupKey = `${RECORDS_KEY}-corrupt-${Date.now()}`;
+    try {
+      localStorage.setItem(backupKey, raw ?? '');
+    } catch {
+      // 空间不足存不下第二份时保留原处的数据不删除；这里在数据库升级中执行，不能抛出
+      backupKey = RECORDS_KEY;
+    }
+    return [];
+  }
+}
+
+/** 迁移时旧版成绩无法解析则返回原始数据的备份键，供界面提示 */
+export function legacyRecordsBackupKey(): string | null {
+  return backupKey;
+}
+
+/** 迁移完成后删除旧版成绩，释放 localStorage 空间 */
+export function clearLegacyRecords() {
+  if (backupKey === RECORDS_KEY) return;
+  localStorage.removeItem(RECORDS_KEY);
+}
+
+/** 读取会话列表，至少包含一个会话 */
+export function loadSessions(): Session[] {
+  try {
+    const raw = localStorage.getItem(SESSIONS_KEY);
+    const sessions: Session[] = raw ? JSON.parse(raw) : [];
+    if (sessions.length > 0) return sessions;
+  } catch {
+    /* 忽略，使用默认会话 */
+  }
+  return [defaultSession()];
+}
+
+export function saveSessions(sessions: Session[]) {
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+}
+
+/** 上次使用的会话；已被删除时回到第一个会话 */
+export function loadActiveSessionId(sessions: Session[]): string {
+  const saved = localStorage.getItem(ACTIVE_SESSION_KEY);
+  return sessions.some((s) => s.id === saved) ? saved! : sessions[0].id;
+}
+
+export function saveActiveSessionId(id: string) {
+  localStorage.setItem(ACTIVE_SESSION_KEY, id);
+}
@@ -1,3 +1,8 @@
+import type { Penalty } from '../types';
+
+/** DNF 在成绩数组中以 Infinity 表示，排序时自然排在最后 */
+export const DNF = Infinity;
+
 /**
  * 将毫秒格式化为 mm:ss.ms 或 ss.ms 格式
  */
@@ -19,19 +24,100 @@ export function formatTime(ms: number): string {
 }
 
 /**
- * 计算平均值 (去掉最高和最低)
+ * 精确到毫秒：mm:ss.xxx 或 ss.xxx
+ */
+export function formatPreciseTime(ms: number): string {
+    const rounded = Math.max(0, Math.round(ms));
+    const minutes = Math.floor(rounded / 60000);
+    const seconds = Math.floor((rounded % 60000) / 1000);
+    const millis = (rounded % 1000).toString().padStart(3, '0');
+    if (minutes > 0) {
+        return `${minutes}:${seconds.toString().padStart(2, '0')}.${millis}`;
+    }
+    return `${seconds.toString().padStart(2, '0')}.${millis}`;
+}
+
+/**
+ * 统计值显示：null（次数不足）显示 "--"，DNF 显示 "DNF"
+ */
+export function formatStat(value: number | null): string {
+    if (value === null) return '--';
+    if (value === DNF) return 'DNF';
+    return formatTime(value);
+}
+
+/**
+ * 计入判罚后的成绩：+2 加 2 秒，DNF 为 Infinity
  */
-export function calcAverage(times: number[]): number | null {
-    if (times.length < 3) return null;
-    const sorted = [...times].sort((a, b) => a - b);
-    const trimmed = sorted.slice(1, -1);
-    return trimmed.reduce((a, b) => a + b, 0) / trimmed.length;
+export function resultTime(record: { time: number; penalty?: Penalty }): number {
+    if (record.penalty === 'DNF') return DNF;
+    return record.penalty === '+2' ? record.time + 2000 : record.time;
 }
 
 /**
- * 计算最近 N 次的 Average of N
+ * 成绩显示：DNF 显示为 "DNF"，+2 在计入判罚的时间后加 "+"
  */
-export function calcAoN(times: number[], n: number): number | null {
-    if (times.length < n) return null;
-    return calcAverage(times.slice(0, n));
+export function formatResult(record: { time: number; penalty?: Penalty }): string {
+    if (record.penalty === 'DNF') return 'DNF';
+    const result = formatTime(resultTime(record));
+    return record.penalty === '+2' ? `${result}+` : result;
+}
+
+/** 判罚选项，顺序即历史记录中点击判罚标签时的轮换顺序 */
+export const PENALTY_OPTIONS: { value: Penalty | undefined; label: string }[] = [
+    { value: undefined, label: 'OK' },
+    { value: '+2', label: '+2' },
+    { value: 'DNF', label: 'DNF' },
+];
+
+/** 轮换判罚：OK → +2 → DNF → OK */
+export function nextPenalty(penalty: Penalty | undefined): Penalty | undefined {
+    const index = PENALTY_OPTIONS.findIndex((o) => o.value === penalty);
+    return PENALTY_OPTIONS[(index + 1) % PENALTY_OPTIONS.length].value;
+}
+
+/**
+ * 解析手动输入的成绩，格式不对时抛出错误，错误信息可直接展示
+ *
+ * - 纯数字按计时器的读法：1234 → 12.34，10234 → 1:02.34
+ * - 带小数点或冒号：12.34、12.345、1:02.34
+ * - 末尾可加 "+"（或 "+2"）表示 +2，加 "DNF" 表示 DNF；只输入 DNF 时时间记为 0
+ */
+export function parseTimeInput(text: string): { time: number; penalty?: Penalty } {
+    let input = text.replace(/\s+/g, '').replace(',', '.').toUpperCase();
+    if (!input) throw new Error('请输入成绩');
+
+    let penalty: Penalty | undefined;
+    if (input.endsWith('DNF')) {
+        penalty = 'DNF';
+        input = input.slice(0, -3);
+    } else if (input.endsWith('+2')) {
+        penalty = '+2';
+        input = input.slice(0, -2);
+    } else if (input.endsWith('+')) {
+        penalty = '+2';
+        input = input.slice(0, -1);
+    }
+    if (penalty === 'DNF' && input === '') return { time: 0, penalty };
+
+    let minutes: number;
+    let seconds: number;
+    let millis: number;
+    if (/^\d+$/.test(input)) {
+        // 末两位为百分之一秒，再往前两位为秒，其余为分
+        millis = Number(input.slice(-2)) * 10;
+        seconds = Number(input.slice(-4, -2) || '0');
+        minutes = Number(input.slice(0, -4) || '0');
+    } else {
+        const match = /^(?:(\d+):)?(\d+)(?:\.(\d{1,3}))?$/.exec(input);
+        if (!match) throw new Error('无法识别的成绩，可以输入 1234、12.34 或 1:02.34');
+        minutes = Number(match[1] ?? '0');
+        seconds = Number(match[2]);
+        millis = Number((match[3] ?? '').padEnd(3, '0'));
+    }
+    if (minutes > 0 && seconds >= 60) throw new Error('有分钟时秒数不能超过 59');
+
+    const time = minutes * 60000 + seconds * 1000 + millis;
+    if (time <= 0) throw new Error('成绩必须大于 0');
+    return penalty ? { time, penalty } : { time };
 }
@@ -0,0 +1,106 @@
+/**
+ * 公式训练的设置与成绩（localStorage）：选中的情况、已学会的情况、各情况最近的用时
+ *
+ * 抽题按用时加权：平均越慢出现越多，还没练过的优先，已学会的降低频率。
+ * 训练成绩只用于抽题和情况列表，不进入会话成绩。
+ */
+import { CASE_SETS, getCases, type CaseSetId, type LLCase } from './llCases';
+
+const TRAINER_KEY = 'cube-rush-trainer';
+
+/** 每个情况保留最近几次用时 */
+export const CASE_RECENT_COUNT = 12;
+
+// 没练过的情况按比平均慢约 40% 计
+const UNPRACTICED_WEIGHT = 2;
+// 已学会的情况出现频率降到约三分之一
+const LEARNED_FACTOR = 0.3;
+
+export interface TrainerConfig {
+  /** 训练中：3x3 的打乱由训练提供 */
+  enabled: boolean;
+  caseSet: CaseSetId;
+  /** 各组选中的情况 id，未设置的组默认全选 */
+  selected: Partial<Record<CaseSetId, string[]>>;
+  learned: string[];
+  /** 各情况最近的用时 (ms)，最新在前；DNF 不记录 */
+  times: Record<string, number[]>;
+}
+
+function defaultConfig(): TrainerConfig {
+  return { enabled: false, caseSet: 'OLL', selected: {}, learned: [], times: {} };
+}
+
+export function loadTrainerConfig(): TrainerConfig {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TRAINER_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return defaultConfig();
+    const config = { ...defaultConfig(), ...saved };
+    if (!CASE_SETS.some((s) => s.id === config.caseSet)) config.caseSet = 'OLL';
+    return config;
+  } catch {
+    return defaultConfig();
+  }
+}
+
+export function saveTrainerConfig(config: TrainerConfig) {
+  localStorage.setItem(TRAINER_KEY, JSON.stringify(config));
+}
+
+/** 一组中选中的情况 */
+export function selectedCases(config: TrainerConfig, set: CaseSetId): LLCase[] {
+  const cases = getCases(set);
+  const ids = config.selected[set];
+  return ids ? cases.filter((c) => ids.includes(c.id)) : cases;
+}
+
+/** 记录一次用时，只保留最近几次 */
+export function addCaseTime(config: TrainerConfig, caseId: string, time: number): TrainerConfig {
+  const times = [time, ...(config.times[caseId] ?? [])].slice(0, CASE_RECENT_COUNT);
+  return { ...config, times: { ...config.times, [caseId]: times } };
+}
+
+export interface CaseStats {
+  count: number;
+  /** 最近几次的平均 */
+  mean: number;
+  best: number;
+}
+
+export function caseStats(times: number[] | undefined): CaseStats | null {
+  if (!times || times.length === 0) return null;
+  return {
+    count: times.length,
+    mean: times.reduce((a, b) => a + b, 0) / times.length,
+    best: Math.min(...times),
+  };
+}
+
+/**
+ * 按权重随机抽一个情况：权重为（平均 / 各情况平均的平均）²
+ *
+ * 选中不止一个时不连续抽到同一个
+ */
+export function pickCase(
+  cases: LLCase[],
+  config: TrainerConfig,
+  previousId: string | null,
+  random: () => number = Math.random
+): LLCase {
+  const candidates = cases.length > 1 ? cases.filter((c) => c.id !== previousId) : cases;
+  const means = candidates.map((c) => caseStats(config.times[c.id])?.mean ?? null);
+  const practiced = means.filter((m): m is number => m !== null);
+  const overall = practiced.length > 0 ? practiced.reduce((a, b) => a + b, 0) / practiced.length : 1;
+
+  const weights = candidates.map((c, i) => {
+    const mean = means[i];
+    const weight = mean === null ? UNPRACTICED_WEIGHT : (mean / overall) ** 2;
+    return config.learned.includes(c.id) ? weight * LEARNED_FACTOR : weight;
+  });
+  let r = random() * weights.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < candidates.length; i++) {
+    r -= weights[i];
+    if (r < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+}
@@ -0,0 +1,528 @@
+/**
+ * Kociemba 两阶段算法（3x3）
+ *
+ * 阶段 1：把魔方转入子群 <U, D, R2, F2, L2, B2>（角块朝向 / 棱块朝向 / 中层棱位置全部归位）
+ * 阶段 2：在子群内还原（角块排列 / UD 层棱块排列 / 中层棱排列）
+ *
+ * 移动表与剪枝表约 4MB，首次求解时按需构建（数百毫秒），应放在 Web Worker 中调用。
+ */
+
+export interface CubieState {
+  /** 角块排列：cp[i] 为位于位置 i 的角块编号 (URF UFL ULB UBR DFR DLF DBL DRB) */
+  cp: number[];
+  /** 角块朝向 0-2 */
+  co: number[];
+  /** 棱块排列 (UR UF UL UB DR DF DL DB FR FL BL BR) */
+  ep: number[];
+  /** 棱块朝向 0-1 */
+  eo: number[];
+}
+
+const N_TWIST = 2187;
+const N_FLIP = 2048;
+const N_SLICE = 495;
+const N_PERM8 = 40320;
+const N_SLICE_PERM = 24;
+const N_MOVE = 18;
+
+const AXES = ['U', 'R', 'F', 'D', 'L', 'B'] as const;
+const POWERS = ['', '2', "'"] as const;
+export const MOVE_NAMES: string[] = AXES.flatMap((a) => POWERS.map((p) => a + p));
+
+// 阶段 2 允许的转动：U / D 任意，其余面只能转 180°
+const PHASE2_MOVES = [0, 1, 2, 4, 7, 9, 10, 11, 13, 16];
+const IS_PHASE2_MOVE = MOVE_NAMES.map((_, m) => PHASE2_MOVES.includes(m));
+
+// ── 基本转动（cubie 级，"被替换"表示法）──
+
+const BASIC_MOVES: CubieState[] = [
+  // U
+  { cp: [3, 0, 1, 2, 4, 5, 6, 7], co: [0, 0, 0, 0, 0, 0, 0, 0], ep: [3, 0, 1, 2, 4, 5, 6, 7, 8, 9, 10, 11], eo: new Array(12).fill(0) },
+  // R
+  { cp: [4, 1, 2, 0, 7, 5, 6, 3], co: [2, 0, 0, 1, 1, 0, 0, 2], ep: [8, 1, 2, 3, 11, 5, 6, 7, 4, 9, 10, 0], eo: new Array(12).fill(0) },
+  // F
+  { cp: [1, 5, 2, 3, 0, 4, 6, 7], co: [1, 2, 0, 0, 2, 1, 0, 0], ep: [0, 9, 2, 3, 4, 8, 6, 7, 1, 5, 10, 11], eo: [0, 1, 0, 0, 0, 1, 0, 0, 1, 1, 0, 0] },
+  // D
+  { cp: [0, 1, 2, 3, 5, 6, 7, 4], co: [0, 0, 0, 0, 0, 0, 0, 0], ep: [0, 1, 2, 3, 5, 6, 7, 4, 8, 9, 10, 11], eo: new Array(12).fill(0) },
+  // L
+  { cp: [0, 2, 6, 3, 4, 1, 5, 7], co: [0, 1, 2, 0, 0, 2, 1, 0], ep: [0, 1, 10, 3, 4, 5, 9, 7, 8, 2, 6, 11], eo: new Array(12).fill(0) },
+  // B
+  { cp: [0, 1, 3, 7, 4, 5, 2, 6], co: [0, 0, 1, 2, 0, 0, 2, 1], ep: [0, 1, 2, 11, 4, 5, 6, 10, 8, 9, 3, 7], eo: [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 1, 1] },
+];
+
+export function solvedCubie(): CubieState {
+  return {
+    cp: [0, 1, 2, 3, 4, 5, 6, 7],
+    co: new Array(8).fill(0),
+    ep: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+    eo: new Array(12).fill(0),
+  };
+}
+
+export function multiplyCubie(a: CubieState, b: CubieState): CubieState {
+  return {
+    cp: b.cp.map((p) => a.cp[p]),
+    co: b.cp.map((p, i) => (a.co[p] + b.co[i]) % 3),
+    ep: b.ep.map((p) => a.ep[p]),
+    eo: b.ep.map((p, i) => (a.eo[p] + b.eo[i]) % 2),
+  };
+}
+
+// 18 种转动的 cubie 表示
+const MOVE_CUBIES: CubieState[] = BASIC_MOVES.flatMap((basic) => {
+  const once = basic;
+  const twice = multiplyCubie(once, basic);
+  const thrice = multiplyCubie(twice, basic);
+  return [once, twice, thrice];
+});
+
+export function applyCubieMove(state: CubieState, move: number): CubieState {
+  return multiplyCubie(state, MOVE_CUBIES[move]);
+}
+
+// ── 坐标 ──
+
+const BINOMIAL: number[][] = Array.from({ length: 12 }, (_, n) =>
+  Array.from({ length: 12 }, (_, k) => {
+    if (k > n) return 0;
+    let r = 1;
+    for (let i = 0; i < k; i++) r = (r * (n - i)) / (i + 1);
+    return r;
+  })
+);
+
+function getTwist(c: CubieState): number {
+  let r = 0;
+  for (let i = 0; i < 7; i++) r = r * 3 + c.co[i];
+  return r;
+}
+
+function setTwist(c: CubieState, twist: number) {
+  let parity = 0;
+  for (let i = 6; i >= 0; i--) {
+    c.co[i] = twist % 3;
+    parity += c.co[i];
+    twist = Math.floor(twist / 3);
+  }
+  c.co[7] = (3 - (parity % 3)) % 3;
+}
+
+function getFlip(c: CubieState): number {
+  let r = 0;
+  for (let i = 0; i < 11; i++) r = r * 2 + c.eo[i];
+  return r;
+}
+
+function setFlip(c: CubieState, flip: number) {
+  let parity = 0;
+  for (let i = 10; i >= 0; i--) {
+    c.eo[i] = flip % 2;
+    parity += c.eo[i];
+    flip = Math.floor(flip / 2);
+  }
+  c.eo[11] = parity % 2;
+}
+
+/** 中层棱（FR FL BL BR）所在位置的组合编号，还原态为 0 */
+function getSlice(c: CubieState): number {
+  let a = 0;
+  let x = 0;
+  for (let j = 11; j >= 0; j--) {
+    if (c.ep[j] >= 8) {
+      a += BINOMIAL[11 - j][x + 1];
+      x++;
+    }
+  }
+  return a;
+}
+
+function setSlice(c: CubieState, slice: number) {
+  c.ep.fill(-1);
+  let x = 4;
+  for (let j = 0; j < 12; j++) {
+    if (x > 0 && slice - BINOMIAL[11 - j][x] >= 0) {
+      c.ep[j] = 12 - x;
+      slice -= BINOMIAL[11 - j][x];
+      x--;
+    }
+  }
+  let other = 0;
+  for (let j = 0; j < 12; j++) {
+    if (c.ep[j] === -1) c.ep[j] = other++;
+  }
+}
+
+/** 排列编号（Lehmer 码变体），用于 8 个角块 / 8 个 UD 棱块 / 4 个中层棱 */
+function getPerm(perm: number[], offset: number, length: number): number {
+  const p = perm.slice(offset, offset + length).map((v) => v - offset);
+  let b = 0;
+  for (let j = length - 1; j > 0; j--) {
+    let k = 0;
+    while (p[j] !== j) {
+      const first = p[0];
+      for (let i = 0; i < j; i++) p[i] = p[i + 1];
+      p[j] = first;
+      k++;
+    }
+    b = (j + 1) * b + k;
+  }
+  return b;
+}
+
+function setPerm(perm: number[], offset: number, length: number, index: number) {
+  const p = Array.from({ length }, (_, i) => i);
+  for (let j = 0; j < length; j++) {
+    let k = index % (j + 1);
+    index = Math.floor(index / (j + 1));
+    while (k-- > 0) {
+      const last = p[j];
+      for (let i = j; i > 0; i--) p[i] = p[i - 1];
+      p[0] = last;
+    }
+  }
+  for (let i = 0; i < length; i++) perm[offset + i] = p[i] + offset;
+}
+
+// ── 移动表 / 剪枝表（按需构建）──
+
+interface Tables {
+  twistMove: Uint16Array;
+  flipMove: Uint16Array;
+  sliceMove: Uint16Array;
+  cornerMove: Uint16Array;
+  udEdgeMove: Uint16Array;
+  slicePermMove: Uint8Array;
+  sliceTwistPrun: Int8Array;
+  sliceFlipPrun: Int8Array;
+  cornerSlicePrun: Int8Array;
+  edgeSlicePrun: Int8Array;
+}
+
+let tables: Tables | null = null;
+
+function buildMoveTable(
+  size: number,
+  set: (c: CubieState, i: number) => void,
+  get: (c: CubieState) => number,
+  moves: number[] = MOVE_NAMES.map((_, m) => m)
+): Uint16Array {
+  const table = new Uint16Array(size * N_MOVE);
+  for (let i = 0; i < size; i++) {
+    const c = solvedCubie();
+    set(c, i);
+    for (const m of moves) table[i * N_MOVE + m] = get(applyCubieMove(c, m));
+  }
+  return table;
+}
+
+function buildPruningTable(
+  sizeA: number,
+  sizeB: number,
+  moveA: ArrayLike<number>,
+  moveB: ArrayLike<number>,
+  moves: number[]
+): Int8Array {
+  const table = new Int8Array(sizeA * sizeB).fill(-1);
+  table[0] = 0;
+  let done = 1;
+  let depth = 0;
+  while (done < table.length) {
+    for (let i = 0; i < table.length; i++) {
+      if (table[i] !== depth) continue;
+      const a = Math.floor(i / sizeB);
+      const b = i % sizeB;
+      for (const m of moves) {
+        const j = moveA[a * N_MOVE + m] * sizeB + moveB[b * N_MOVE + m];
+        if (table[j] === -1) {
+          table[j] = depth + 1;
+          done++;
+        }
+      }
+    }
+    depth++;
+  }
+  return table;
+}
+
+/** 构建全部移动表与剪枝表；已构建时直接返回 */
+export function initSolverTables(): void {
+  if (tables) return;
+  const allMoves = MOVE_NAMES.map((_, m) => m);
+
+  const twistMove = buildMoveTable(N_TWIST, setTwist, getTwist);
+  const flipMove = buildMoveTable(N_FLIP, setFlip, getFlip);
+  const sliceMove = buildMoveTable(N_SLICE, setSlice, getSlice);
+  const cornerMove = buildMoveTable(
+    N_PERM8,
+    (c, i) => setPerm(c.cp, 0, 8, i),
+    (c) => getPerm(c.cp, 0, 8),
+    PHASE2_MOVES
+  );
+  const udEdgeMove = buildMoveTable(
+    N_PERM8,
+    (c, i) => setPerm(c.ep, 0, 8, i),
+    (c) => getPerm(c.ep, 0, 8),
+    PHASE2_MOVES
+  );
+  const slicePermMove = new Uint8Array(
+    buildMoveTable(
+      N_SLICE_PERM,
+      (c, i) => setPerm(c.ep, 8, 4, i),
+      (c) => getPerm(c.ep, 8, 4),
+      PHASE2_MOVES
+    )
+  );
+
+  tables = {
+    twistMove,
+    flipMove,
+    sliceMove,
+    cornerMove,
+    udEdgeMove,
+    slicePermMove,
+    sliceTwistPrun: buildPruningTable(N_SLICE, N_TWIST, sliceMove, twistMove, allMoves),
+    sliceFlipPrun: buildPruningTable(N_SLICE, N_FLIP, sliceMove, flipMove, allMoves),
+    cornerSlicePrun: buildPruningTable(N_PERM8, N_SLICE_PERM, cornerMove, slicePermMove, PHASE2_MOVES),
+    edgeSlicePrun: buildPruningTable(N_PERM8, N_SLICE_PERM, udEdgeMove, slicePermMove, PHASE2_MOVES),
+  };
+}
+
+// ── 搜索 ──
+
+const axisOf = (m: number) => Math.floor(m / 3);
+
+/** 同面不连续；对面只允许按固定顺序出现（如 U D 可以，D U 不行） */
+function isRedundant(move: number, last: number): boolean {
+  if (last < 0) return false;
+  const a = axisOf(move);
+  const b = axisOf(last);
+  return a === b || a === b - 3;
+}
+
+function searchPhase2(
+  t: Tables,
+  corner: number,
+  udEdge: number,
+  slicePerm: number,
+  depth: number,
+  last: number,
+  path: number[]
+): boolean {
+  if (depth === 0) return corner === 0 && udEdge === 0 && slicePerm === 0;
+  const bound = Math.max(
+    t.cornerSlicePrun[corner * N_SLICE_PERM + slicePerm],
+    t.edgeSlicePrun[udEdge * N_SLICE_PERM + slicePerm]
+  );
+  if (bound > depth) return false;
+
+  for (const m of PHASE2_MOVES) {
+    if (isRedundant(m, last)) continue;
+    path.push(m);
+    if (
+      searchPhase2(
+        t,
+        t.cornerMove[corner * N_MOVE + m],
+        t.udEdgeMove[udEdge * N_MOVE + m],
+        t.slicePermMove[slicePerm * N_MOVE + m],
+        depth - 1,
+        m,
+        path
+      )
+    ) {
+      return true;
+    }
+    path.pop();
+  }
+  return false;
+}
+
+function startPhase2(t: Tables, state: CubieState, phase1: number[], maxDepth: number): number[] | null {
+  const c = phase1.reduce(applyCubieMove, state);
+  const corner = getPerm(c.cp, 0, 8);
+  const udEdge = getPerm(c.ep, 0, 8);
+  const slicePerm = getPerm(c.ep, 8, 4);
+  const last = phase1.length > 0 ? phase1[phase1.length - 1] : -1;
+
+  for (let depth = 0; depth <= maxDepth; depth++) {
+    const path: number[] = [];
+    if (searchPhase2(t, corner, udEdge, slicePerm, depth, last, path)) return path;
+  }
+  return null;
+}
+
+function searchPhase1(
+  t: Tables,
+  state: CubieState,
+  twist: number,
+  flip: number,
+  slice: number,
+  depth: number,
+  maxLength: number,
+  path: number[]
+): number[] | null {
+  if (depth === 0) {
+    if (twist !== 0 || flip !== 0 || slice !== 0) return null;
+    // 阶段 1 以阶段 2 的转动结尾时，更短的阶段 1 解已经搜索过
+    const last = path[path.length - 1];
+    if (path.length > 0 && IS_PHASE2_MOVE[last]) return null;
+    const phase2 = startPhase2(t, state, path, maxLength - path.length);
+    return phase2 ? [...path, ...phase2] : null;
+  }
+  const bound = Math.max(
+    t.sliceTwistPrun[slice * N_TWIST + twist],
+    t.sliceFlipPrun[slice * N_FLIP + flip]
+  );
+  if (bound > depth) return null;
+
+  const last = path.length > 0 ? path[path.length - 1] : -1;
+  for (let m = 0; m < N_MOVE; m++) {
+    if (isRedundant(m, last)) continue;
+    path.push(m);
+    const result = searchPhase1(
+      t,
+      state,
+      t.twistMove[twist * N_MOVE + m],
+      t.flipMove[flip * N_MOVE + m],
+      t.sliceMove[slice * N_MOVE + m],
+      depth - 1,
+      maxLength,
+      path
+    );
+    if (result) return result;
+    path.pop();
+  }
+  return null;
+}
+
+/**
+ * 求解 cubie 状态，返回不超过 maxLength 步的还原公式（转动编号序列）
+ * 找不到时放宽步数限制继续搜索，保证总能返回结果
+ */
+export function solveCubieMoves(state: CubieState, maxLength = 21): number[] {
+  initSolverTables();
+  const t = tables!;
+  const twist = getTwist(state);
+  const flip = getFlip(state);
+  const slice = getSlice(state);
+
+  for (let limit = maxLength; ; limit++) {
+    for (let depth = 0; depth <= Math.min(limit, 12); depth++) {
+      const result = searchPhase1(t, state, twist, flip, slice, depth, limit, []);
+      if (result) return result;
+    }
+  }
+}
+
+export function formatMoves(moves: number[]): string {
+  return moves.map((m) => MOVE_NAMES[m]).join(' ');
+}
+
+/** 转动序列的逆：倒序且每步取反 */
+export function invertMoves(moves: number[]): number[] {
+  return [...moves].reverse().map((m) => m - (m % 3) + (2 - (m % 3)));
+}
+
+export function solveCubie(state: CubieState, maxLength = 21): string {
+  return formatMoves(solveCubieMoves(state, maxLength));
+}
+
+// ── facelet ↔ cubie ──
+
+// facelet 编号：U 0-8, R 9-17, F 18-26, D 27-35, L 36-44, B 45-53
+const CORNER_FACELETS = [
+  [8, 9, 20], [6, 18, 38], [0, 36, 47], [2, 45, 11],
+  [29, 26, 15], [27, 44, 24], [33, 53, 42], [35, 17, 51],
+];
+const CORNER_COLORS = [
+  'URF', 'UFL', 'ULB', 'UBR', 'DFR', 'DLF', 'DBL', 'DRB',
+];
+const EDGE_FACELETS = [
+  [5, 10], [7, 19], [3, 37], [1, 46], [32, 16], [28, 25],
+  [30, 43], [34, 52], [23, 12], [21, 41], [50, 39], [48, 14],
+];
+const EDGE_COLORS = [
+  'UR', 'UF', 'UL', 'UB', 'DR', 'DF', 'DL', 'DB', 'FR', 'FL', 'BL', 'BR',
+];
+
+/** 54 字符 facelet 字符串（URFDLB 顺序）→ cubie 状态；非法输入抛出错误 */
+export function cubieFromFacelets(facelets: string): CubieState {
+  if (facelets.length !== 54) throw new Error('facelet 字符串长度必须为 54');
+  const c = solvedCubie();
+
+  CORNER_FACELETS.forEach((positions, i) => {
+    const ori = positions.findIndex((p) => facelets[p] === 'U' || facelets[p] === 'D');
+    if (ori < 0) throw new Error('无效的角块');
+    const col1 = facelets[positions[(ori + 1) % 3]];
+    const col2 = facelets[positions[(ori + 2) % 3]];
+    const j = CORNER_COLORS.findIndex((name) => name[1] === col1 && name[2] === col2);
+    if (j < 0) throw new Error('无效的角块');
+    c.cp[i] = j;
+    c.co[i] = ori;
+  });
+
+  EDGE_FACELETS.forEach(([p0, p1], i) => {
+    const a = facelets[p0];
+    const b = facelets[p1];
+    const j = EDGE_COLORS.findIndex((name) => (name[0] === a && name[1] === b) || (name[0] === b && name[1] === a));
+    if (j < 0) throw new Error('无效的棱块');
+    c.ep[i] = j;
+    c.eo[i] = EDGE_COLORS[j][0] === a ? 0 : 1;
+  });
+
+  if (!isSolvable(c)) throw new Error('魔方状态不可解');
+  return c;
+}
+
+/** cubie 状态 → 54 字符 facelet 字符串（cubieFromFacelets 的逆） */
+export function faceletsFromCubie(c: CubieState): string {
+  const facelets = 'UUUUUUUUURRRRRRRRRFFFFFFFFFDDDDDDDDDLLLLLLLLLBBBBBBBBB'.split('');
+  CORNER_FACELETS.forEach((positions, i) => {
+    for (let k = 0; k < 3; k++) facelets[positions[(c.co[i] + k) % 3]] = CORNER_COLORS[c.cp[i]][k];
+  });
+  EDGE_FACELETS.forEach((positions, i) => {
+    for (let k = 0; k < 2; k++) facelets[positions[(c.eo[i] + k) % 2]] = EDGE_COLORS[c.ep[i]][k];
+  });
+  return facelets.join('');
+}
+
+function permutationParity(perm: number[]): number {
+  let parity = 0;
+  for (let i = 0; i < perm.length; i++) {
+    for (let j = i + 1; j < perm.length; j++) {
+      if (perm[i] > perm[j]) parity ^= 1;
+    }
+  }
+  return parity;
+}
+
+export function isSolvable(c: CubieState): boolean {
+  return (
+    new Set(c.cp).size === 8 &&
+    new Set(c.ep).size === 12 &&
+    c.co.reduce((a, b) => a + b, 0) % 3 === 0 &&
+    c.eo.reduce((a, b) => a + b, 0) % 2 === 0 &&
+    permutationParity(c.cp) === permutationParity(c.ep)
+  );
+}
+
+/** 均匀随机的可解状态（随机状态打乱的基础） */
+export function randomCubieState(random: () => number = Math.random): CubieState {
+  const shuffle = (n: number) => {
+    const p = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [p[i], p[j]] = [p[j], p[i]];
+    }
+    return p;
+  };
+
+  const c = solvedCubie();
+  c.cp = shuffle(8);
+  c.ep = shuffle(12);
+  if (permutationParity(c.cp) !== permutationParity(c.ep)) {
+    [c.ep[0], c.ep[1]] = [c.ep[1], c.ep[0]];
+  }
+  setTwist(c, Math.floor(random() * N_TWIST));
+  setFlip(c, Math.floor(random() * N_FLIP));
+  return c;
+}
@@ -0,0 +1,87 @@
+/**
+ * WAV 文件解析：读出采样率和第一个声道的采样（-1 ~ 1）
+ *
+ * 用于把录下的 Stackmat 信号送入解码器，开发和排查问题时不需要连接真实的计时器。
+ * 支持 8/16/24/32 位整数 PCM 与 32 位浮点。
+ */
+
+export interface WavAudio {
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/** 解析 WAV 文件，格式不支持时抛出错误 */
+export function parseWav(buffer: ArrayBuffer): WavAudio {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('不是 WAV 文件');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // 扩展格式的实际编码在子格式 GUID 的前两个字节
+      if (format === FORMAT_EXTENSIBLE && size >= 26) format = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, buffer.byteLength - body);
+      break;
+    }
+    // 块长度为奇数时有一个填充字节
+    offset = body + size + (size % 2);
+  }
+
+  if (!sampleRate || !channels) throw new Error('WAV 文件缺少格式信息');
+  if (dataOffset < 0) throw new Error('WAV 文件没有音频数据');
+
+  const bytesPerSample = bitsPerSample / 8;
+  let read: (at: number) => number;
+  if (format === FORMAT_PCM && bitsPerSample === 8) {
+    read = (at) => (view.getUint8(at) - 128) / 128;
+  } else if (format === FORMAT_PCM && bitsPerSample === 16) {
+    read = (at) => view.getInt16(at, true) / 32768;
+  } else if (format === FORMAT_PCM && bitsPerSample === 24) {
+    read = (at) => ((view.getUint8(at + 2) << 24) | (view.getUint8(at + 1) << 16) | (view.getUint8(at) << 8)) / 2147483648;
+  } else if (format === FORMAT_PCM && bitsPerSample === 32) {
+    read = (at) => view.getInt32(at, true) / 2147483648;
+  } else if (format === FORMAT_FLOAT && bitsPerSample === 32) {
+    read = (at) => view.getFloat32(at, true);
+  } else {
+    throw new Error(`不支持的 WAV 编码（格式 ${format}，${bitsPerSample} 位）`);
+  }
+
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(dataLength / frameSize);
+  const samples = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    samples[i] = read(dataOffset + i * frameSize);
+  }
+  return { sampleRate, samples };
+}
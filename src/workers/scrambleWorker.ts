@@ -0,0 +1,29 @@
+/**
+ * 随机状态打乱 Worker：在后台线程构建两阶段算法的剪枝表并求解，
+ * 避免首次构建（数百毫秒到数秒）阻塞计时界面。
+ */
+import { solveCubieMoves, type CubieState } from '../utils/twoPhaseSolver';
+
+export interface ScrambleWorkerRequest {
+  type: 'solve';
+  id: number;
+  state: CubieState;
+}
+
+export type ScrambleWorkerResponse =
+  | { type: 'solved'; id: number; moves: number[] }
+  | { type: 'error'; id: number; message: string };
+
+self.onmessage = (event: MessageEvent<ScrambleWorkerRequest>) => {
+  const request = event.data;
+  try {
+    const moves = solveCubieMoves(request.state);
+    self.postMessage({ type: 'solved', id: request.id, moves } satisfies ScrambleWorkerResponse);
+  } catch (err) {
+    self.postMessage({
+      type: 'error',
+      id: request.id,
+      message: err instanceof Error ? err.message : String(err),
+    } satisfies ScrambleWorkerResponse);
+  }
+};
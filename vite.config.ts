@@ -9,5 +9,9 @@ export default defineConfig({
   server: {
     host: true,
     allowedHosts: true,
+    // 联网对战：页面是 HTTPS，经开发服务器的 wss://…/relay 转到本机的中继（npm run relay）
+    proxy: {
+      '/relay': { target: 'ws://localhost:8787', ws: true },
+    },
   },
 })